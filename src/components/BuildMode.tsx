@@ -1,9 +1,29 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ChatInterface } from './ChatInterface';
 import { WorkflowPreview } from './WorkflowPreview';
+import { WorkflowVersionHistory } from './WorkflowVersionHistory';
+import { FrontendCodePanel } from './FrontendCodePanel';
+import { TemplateGallery } from './TemplateGallery';
+import { SaveTemplateDialog } from './SaveTemplateDialog';
+import { InstantiateTemplateDialog } from './InstantiateTemplateDialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useMessages, type StoredMessage } from '@/hooks/useMessages';
+import type { CreateWorkflowInput, Workflow } from '@/hooks/useWorkflows';
+import { useWorkflowVersions, type WorkflowVersion, type WorkflowVersionSource } from '@/hooks/useWorkflowVersions';
+import { useWorkflowTemplates, type SaveTemplateInput } from '@/hooks/useWorkflowTemplates';
+import type { WorkflowTemplate } from '@/services/nodeService';
 import { WorkflowGenerator } from '@/utils/workflowGenerator';
-import { EnhancedWorkflowValidator } from '@/utils/enhancedWorkflowValidator';
+import { EnhancedWorkflowValidator, type EnhancedValidationResult } from '@/utils/enhancedWorkflowValidator';
+import { ModernWorkflowGenerator } from '@/utils/modernWorkflowGenerator';
+import { WorkflowRefiner } from '@/utils/workflowRefiner';
+import { WorkflowImporter } from '@/utils/workflowImporter';
+import { CodeSandbox } from '@/utils/codeSandbox';
+import { N8nApiClient } from '@/services/n8nApiClient';
+import { FrontendCodeGenerator } from '@/utils/frontendGenerator';
+import { TemplateVariables } from '@/utils/templateVariables';
+import { samplePlanInput, type WorkflowPlan } from '@/utils/workflowPlan';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
 
 interface WorkflowData {
   id: number;
@@ -24,6 +44,7 @@ interface WorkflowData {
     nodes: any[];
     connections: any;
   };
+  plan?: WorkflowPlan;
 }
 
 interface Message {
@@ -31,33 +52,344 @@ interface Message {
   content: string;
   timestamp: Date;
   workflow?: WorkflowData;
+  fixes?: string[];
 }
 
 interface BuildModeProps {
-  workflows: any[];
-  onWorkflowCreate: (workflows: any[]) => void;
+  workflows: Workflow[];
+  onCreateWorkflow: (workflow: CreateWorkflowInput) => Promise<Workflow | null>;
+  onUpdateWorkflow: (id: string, updates: Partial<CreateWorkflowInput>) => Promise<boolean>;
+  n8nClient?: N8nApiClient | null;
+  conversationId: string | null;
+  onCreateConversation: (title: string) => Promise<string | null>;
+  onConversationStarted: (conversationId: string) => void;
+  onTurnSaved?: (conversationId: string) => void;
 }
 
-export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreate }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      type: 'system',
-      content: 'Welcome to VODUE. Describe your workflow vision in natural language, and I\'ll craft n8n automation using current node specifications and proper syntax.',
-      timestamp: new Date()
-    }
-  ]);
+const welcomeMessage = (): Message => ({
+  type: 'system',
+  content: 'Welcome to VODUE. Describe your workflow vision in natural language, and I\'ll craft n8n automation using current node specifications and proper syntax.',
+  timestamp: new Date()
+});
+
+const toChatMessage = (stored: StoredMessage): Message => ({
+  type: stored.role === 'user' ? 'user' : 'ai',
+  content: stored.content,
+  timestamp: new Date(stored.timestamp),
+  workflow: stored.metadata?.workflow,
+  fixes: stored.metadata?.fixes
+});
+
+export const BuildMode: React.FC<BuildModeProps> = ({
+  workflows,
+  onCreateWorkflow,
+  onUpdateWorkflow,
+  n8nClient,
+  conversationId,
+  onCreateConversation,
+  onConversationStarted,
+  onTurnSaved
+}) => {
+  const [messages, setMessages] = useState<Message[]>([welcomeMessage()]);
   const [input, setInput] = useState('');
   const [currentWorkflow, setCurrentWorkflow] = useState<WorkflowData | null>(null);
   const [validationResults, setValidationResults] = useState<any>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
+  const { messages: storedMessages, loadedConversationId, addMessage } = useMessages(conversationId || undefined);
+  // Each conversation keeps one stored workflow, saved as a draft until it is deployed
+  const storedWorkflow = conversationId
+    ? workflows.find(workflow => workflow.conversation_id === conversationId)
+    : undefined;
+  const { versions, loading: versionsLoading, createVersion } = useWorkflowVersions(storedWorkflow?.id);
+  const { templates, loading: templatesLoading, saveTemplate, recordUsage } = useWorkflowTemplates();
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  // Template waiting for its variables to be filled in
+  const [pendingTemplate, setPendingTemplate] = useState<WorkflowTemplate | null>(null);
+  // The conversation whose messages are on screen; skips reloading one this component just created
+  const shownConversationRef = useRef<string | null>(null);
+
+  // Resume a conversation picked from the history list, or start fresh when none is selected
+  useEffect(() => {
+    if (conversationId === shownConversationRef.current) return;
+
+    if (!conversationId) {
+      shownConversationRef.current = null;
+      setMessages([welcomeMessage()]);
+      setCurrentWorkflow(null);
+      setValidationResults(null);
+      return;
+    }
+
+    if (loadedConversationId !== conversationId) return;
+
+    shownConversationRef.current = conversationId;
+    setMessages([welcomeMessage(), ...storedMessages.map(toChatMessage)]);
+
+    const last = [...storedMessages].reverse().find(stored => stored.metadata?.workflow);
+    setCurrentWorkflow(last?.metadata.workflow || null);
+    setValidationResults(last?.metadata.validation || null);
+  }, [conversationId, loadedConversationId, storedMessages]);
+
+  // Stores a user turn and its reply, creating the conversation on the first prompt.
+  // Resolves to the conversation the turn was saved in.
+  const saveTurn = async (userContent: string, reply: Message, validation?: EnhancedValidationResult) => {
+    let targetId = conversationId;
+    if (!targetId) {
+      targetId = await onCreateConversation(userContent.slice(0, 60));
+      if (!targetId) return null;
+      shownConversationRef.current = targetId;
+      onConversationStarted(targetId);
+    }
+
+    await addMessage(userContent, 'user', {}, targetId);
+    await addMessage(reply.content, 'assistant', {
+      ...(reply.workflow ? { workflow: reply.workflow, validation } : {}),
+      ...(reply.fixes?.length ? { fixes: reply.fixes } : {})
+    }, targetId);
+    onTurnSaved?.(targetId);
+    return targetId;
+  };
+
+  const respond = async (userContent: string, reply: Message, validation?: EnhancedValidationResult) => {
+    setMessages(prev => [...prev, reply]);
+    return saveTurn(userContent, reply, validation);
+  };
+
+  // Saves the conversation's workflow and appends an immutable version of it
+  const saveVersion = async (
+    targetConversationId: string | null,
+    workflow: WorkflowData,
+    source: WorkflowVersionSource,
+    summary: string
+  ) => {
+    if (!targetConversationId) return;
+
+    const record = { name: workflow.name, description: workflow.description, n8n_json: workflow.json };
+    const existing = workflows.find(stored => stored.conversation_id === targetConversationId);
+
+    let workflowId = existing?.id;
+    if (existing) {
+      if (!await onUpdateWorkflow(existing.id, record)) return;
+    } else {
+      const created = await onCreateWorkflow({ ...record, status: 'draft', conversation_id: targetConversationId });
+      if (!created) return;
+      workflowId = created.id;
+    }
+
+    await createVersion(workflow.json as N8nWorkflow, source, summary.slice(0, 500), workflowId);
+  };
+
+  // Replaces the workflow on screen with a fixed or restored copy, keeping its identity
+  const replaceCurrentWorkflow = async (json: N8nWorkflow) => {
+    const workflow = {
+      ...ModernWorkflowGenerator.fromWorkflowJson(currentWorkflow.description, json),
+      id: currentWorkflow.id,
+      plan: currentWorkflow.plan
+    };
+    const validation = await EnhancedWorkflowValidator.validateWorkflowComprehensive(workflow.json);
+
+    setCurrentWorkflow(workflow);
+    setValidationResults(validation);
+    return { workflow, validation };
+  };
+
+  const applyAutoFix = async (fixed: N8nWorkflow, changes: string[]) => {
+    if (changes.length === 0) return;
+    const { workflow } = await replaceCurrentWorkflow(fixed);
+    await saveVersion(conversationId, workflow, 'auto_fix', changes.join('; '));
+  };
+
+  const handleRollback = async (version: WorkflowVersion) => {
+    if (!currentWorkflow) return;
+
+    const { workflow, validation } = await replaceCurrentWorkflow(version.n8n_json);
+    const reply: Message = {
+      type: 'ai',
+      content: `I've restored version ${version.version_number} of "${workflow.name}".${describeValidation(validation)}`,
+      timestamp: new Date(),
+      workflow
+    };
+
+    setMessages(prev => [...prev, reply]);
+    await addMessage(reply.content, 'assistant', { workflow, validation });
+    await saveVersion(conversationId, workflow, 'manual', `Restored version ${version.version_number}`);
+
+    toast({
+      title: "Version Restored",
+      description: `"${workflow.name}" is back at version ${version.version_number}.`,
+    });
+  };
+
+  const describeValidation = (validation: EnhancedValidationResult): string => {
+    let content = '';
+
+    const warningCount = validation.issues?.filter(issue => issue.type === 'warning').length || 0;
+    if (warningCount > 0) {
+      content += `\n\n⚠️ Note: ${warningCount} recommendation(s) for optimal performance.`;
+    }
+    
+    if (!validation.isValid) {
+      const errorCount = validation.issues?.filter(i => i.type === 'error').length || 0;
+      content += `\n\n❌ Validation found ${errorCount} issue(s) that need attention.`;
+    }
+
+    return content;
+  };
+
+  const refineCurrentWorkflow = async (prompt: string): Promise<{ reply: Message; validation?: EnhancedValidationResult; summary: string[] }> => {
+    const { workflow: refinedJson, summary } = WorkflowRefiner.refine(prompt, currentWorkflow.json as N8nWorkflow);
+
+    if (summary.length === 0) {
+      return {
+        reply: {
+          type: 'ai',
+          content: `I couldn't map that to a change on "${currentWorkflow.name}". Try something like "add a Slack message at the end", "rename Format Response to Reply", "remove Process Data", "connect Check Condition to Notify on the false branch" or "set url of Fetch Data to https://api.example.com".`,
+          timestamp: new Date()
+        },
+        summary
+      };
+    }
+
+    const workflow = {
+      ...ModernWorkflowGenerator.fromWorkflowJson(currentWorkflow.description, refinedJson),
+      id: currentWorkflow.id
+    };
+    const validation = await EnhancedWorkflowValidator.validateWorkflowComprehensive(workflow.json);
+
+    setValidationResults(validation);
+    setCurrentWorkflow(workflow);
+
+    return {
+      reply: {
+        type: 'ai',
+        content: `I've refined "${workflow.name}":\n${summary.map(change => `• ${change}`).join('\n')}${describeValidation(validation)}`,
+        timestamp: new Date(),
+        workflow
+      },
+      validation,
+      summary
+    };
+  };
+
+  const importWorkflow = async (text: string, source: string, userContent: string) => {
+    setIsGenerating(true);
+
+    try {
+      const imported = WorkflowImporter.parse(text);
+      const workflow = ModernWorkflowGenerator.fromWorkflowJson(`Imported from ${source}`, imported);
+      const validation = await EnhancedWorkflowValidator.validateWorkflowComprehensive(workflow.json);
+      const { changes } = await EnhancedWorkflowValidator.autoFixWorkflow(workflow.json);
+
+      setValidationResults(validation);
+      setCurrentWorkflow(workflow);
+
+      let content = `I've analyzed "${workflow.name}" (${workflow.json.nodes.length} nodes).`;
+      content += validation.issues.length > 0
+        ? ' Issues are marked on the affected nodes in the preview.'
+        : ' No issues were found.';
+      content += describeValidation(validation);
+
+      if (changes.length > 0) {
+        content += `\n\nAn auto-fixed version is ready for download:\n${changes.map(change => `• ${change}`).join('\n')}`;
+      }
+      if (validation.recommendations.length > 0) {
+        content += `\n\nSuggestions:\n${validation.recommendations.map(recommendation => `• ${recommendation}`).join('\n')}`;
+      }
+
+      const targetId = await respond(userContent, {
+        type: 'ai',
+        content,
+        timestamp: new Date(),
+        workflow,
+        fixes: changes
+      }, validation);
+      await saveVersion(targetId, workflow, 'manual', `Imported from ${source}`);
+    } catch (error) {
+      console.error('Workflow import error:', error);
+      await respond(userContent, {
+        type: 'ai',
+        content: `I couldn't import that workflow. ${(error as Error).message}.`,
+        timestamp: new Date()
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (isGenerating) return;
+
+    const userContent = `Imported ${file.name}`;
+    setMessages(prev => [...prev, {
+      type: 'user',
+      content: userContent,
+      timestamp: new Date()
+    }]);
+    await importWorkflow(await file.text(), file.name, userContent);
+  };
+
+  // Templates are loaded like an import, so they are validated and versioned the same way
+  const instantiateTemplate = async (template: WorkflowTemplate, workflow: N8nWorkflow) => {
+    if (isGenerating) return;
+
+    setPendingTemplate(null);
+    const userContent = `Use template "${template.name}"`;
+    setMessages(prev => [...prev, {
+      type: 'user',
+      content: userContent,
+      timestamp: new Date()
+    }]);
+    await recordUsage(template.id);
+    await importWorkflow(JSON.stringify(workflow), `template "${template.name}"`, userContent);
+  };
+
+  const handleUseTemplate = async (template: WorkflowTemplate) => {
+    setGalleryOpen(false);
+    if (TemplateVariables.parse(template.variables).length > 0) {
+      setPendingTemplate(template);
+      return;
+    }
+    await instantiateTemplate(template, template.n8n_workflow as unknown as N8nWorkflow);
+  };
+
+  const handleSaveTemplate = async (input: SaveTemplateInput) => {
+    if (!currentWorkflow) return false;
+
+    const template = await saveTemplate(input, currentWorkflow.json as N8nWorkflow);
+    if (template) {
+      toast({
+        title: "Template Saved",
+        description: input.isPublic
+          ? `"${template.name}" is now in the public gallery.`
+          : `"${template.name}" is in your template gallery.`,
+      });
+    }
+    return Boolean(template);
+  };
 
   const handleSendMessage = async () => {
     if (!input.trim() || isGenerating) return;
 
+    const prompt = input;
+
+    // A pasted n8n export is analyzed instead of being treated as a description
+    if (WorkflowImporter.looksLikeWorkflowJson(prompt)) {
+      const userContent = 'Pasted workflow JSON';
+      setMessages(prev => [...prev, {
+        type: 'user',
+        content: userContent,
+        timestamp: new Date()
+      }]);
+      setInput('');
+      await importWorkflow(prompt, 'pasted JSON', userContent);
+      return;
+    }
+
     const userMessage: Message = {
       type: 'user',
-      content: input,
+      content: prompt,
       timestamp: new Date()
     };
 
@@ -66,23 +398,24 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
     setIsGenerating(true);
 
     try {
+      // Follow-up instructions edit the current workflow instead of starting over
+      if (currentWorkflow && WorkflowRefiner.isRefinement(prompt, currentWorkflow.json as N8nWorkflow)) {
+        const { reply, validation, summary } = await refineCurrentWorkflow(prompt);
+        const targetId = await respond(prompt, reply, validation);
+        if (reply.workflow) {
+          await saveVersion(targetId, reply.workflow, 'prompt', summary.join('; '));
+        }
+        return;
+      }
+
       // Generate workflow using current n8n specifications
-      const workflow = await WorkflowGenerator.generateWorkflow(input);
+      const workflow = await WorkflowGenerator.generateWorkflow(prompt);
       const validation = await EnhancedWorkflowValidator.validateWorkflowComprehensive(workflow.json);
       
       setValidationResults(validation);
       
-      let responseContent = 'I\'ve crafted a sophisticated workflow using current n8n specifications. The automation flows with editorial precision, each node configured with proper syntax.';
-      
-      const warningCount = validation.issues?.filter(issue => issue.type === 'warning').length || 0;
-      if (warningCount > 0) {
-        responseContent += `\n\n⚠️ Note: ${warningCount} recommendation(s) for optimal performance.`;
-      }
-      
-      if (!validation.isValid) {
-        const errorCount = validation.issues?.filter(i => i.type === 'error').length || 0;
-        responseContent += `\n\n❌ Validation found ${errorCount} issue(s) that need attention.`;
-      }
+      const responseContent = 'I\'ve crafted a sophisticated workflow using current n8n specifications. The automation flows with editorial precision, each node configured with proper syntax.'
+        + describeValidation(validation);
 
       const aiResponse: Message = {
         type: 'ai',
@@ -91,8 +424,9 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
         workflow
       };
 
-      setMessages(prev => [...prev, aiResponse]);
       setCurrentWorkflow(workflow);
+      const targetId = await respond(prompt, aiResponse, validation);
+      await saveVersion(targetId, workflow, 'prompt', prompt);
     } catch (error) {
       console.error('Workflow generation error:', error);
       const errorResponse: Message = {
@@ -100,12 +434,24 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
         content: 'I encountered an issue generating your workflow. Please try rephrasing your request or provide more specific details.',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorResponse]);
+      await respond(prompt, errorResponse);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const downloadWorkflow = (json: N8nWorkflow | WorkflowData['json'], name: string) => {
+    const dataStr = JSON.stringify(json, null, 2);
+    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
+    
+    const exportFileDefaultName = `${name.replace(/[^a-z0-9]/gi, '_')}.json`;
+    
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', dataUri);
+    linkElement.setAttribute('download', exportFileDefaultName);
+    linkElement.click();
+  };
+
   const handleExportWorkflow = async () => {
     if (currentWorkflow) {
       try {
@@ -113,23 +459,27 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
         let workflowToExport = currentWorkflow.json;
         
         if (!validation.isValid) {
-          const { fixed } = await EnhancedWorkflowValidator.autoFixWorkflow(workflowToExport);
+          const { fixed, changes } = await EnhancedWorkflowValidator.autoFixWorkflow(workflowToExport);
           workflowToExport = fixed;
+          await applyAutoFix(fixed, changes);
           toast({
             title: "Workflow Auto-Fixed",
             description: "Deprecated nodes were automatically updated to current specifications.",
           });
         }
         
-        const dataStr = JSON.stringify(workflowToExport, null, 2);
-        const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-        
-        const exportFileDefaultName = `${currentWorkflow.name.replace(/[^a-z0-9]/gi, '_')}.json`;
+        // Smoke-test Code nodes on sample items; failures are reported but do not block the export
+        const smokeTests = await CodeSandbox.smokeTest(workflowToExport, [{ json: samplePlanInput(currentWorkflow.plan) }]);
+        const failures = smokeTests.filter(test => test.result.status === 'error');
+        if (failures.length > 0) {
+          toast({
+            title: "Code Check Failed",
+            description: failures.map(test => `${test.node}: ${test.result.error}`).join('\n'),
+            variant: "destructive"
+          });
+        }
         
-        const linkElement = document.createElement('a');
-        linkElement.setAttribute('href', dataUri);
-        linkElement.setAttribute('download', exportFileDefaultName);
-        linkElement.click();
+        downloadWorkflow(workflowToExport, currentWorkflow.name);
         
         toast({
           title: "Workflow Exported",
@@ -146,18 +496,156 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
     }
   };
 
-  const handleDeployWorkflow = () => {
+  const handleExportFixedWorkflow = async () => {
     if (currentWorkflow) {
-      const newWorkflows = [...workflows, currentWorkflow];
-      onWorkflowCreate(newWorkflows);
-      
+      try {
+        const { fixed, changes } = await EnhancedWorkflowValidator.autoFixWorkflow(currentWorkflow.json);
+        downloadWorkflow(fixed, `${currentWorkflow.name} fixed`);
+        await applyAutoFix(fixed, changes);
+        
+        toast({
+          title: "Fixed Workflow Exported",
+          description: `${changes.length} change(s) applied to the imported workflow.`,
+        });
+      } catch (error) {
+        console.error('Export error:', error);
+        toast({
+          title: "Export Failed",
+          description: "There was an error exporting the fixed workflow.",
+          variant: "destructive"
+        });
+      }
+    }
+  };
+
+  // Generated frontends follow the deployed JSON and webhook URL, in the format they were generated in
+  const refreshedFrontendCode = (webhookUrl?: string | null): Partial<CreateWorkflowInput> => {
+    const format = FrontendCodeGenerator.formatOf(storedWorkflow?.frontend_code);
+    if (!format) return {};
+    return {
+      frontend_code: FrontendCodeGenerator.generate(
+        { name: currentWorkflow.name, n8n_json: currentWorkflow.json as N8nWorkflow, webhook_url: webhookUrl },
+        format
+      )
+    };
+  };
+
+  const handleSaveFrontendCode = async (code: string) => {
+    if (!storedWorkflow) return false;
+    const saved = await onUpdateWorkflow(storedWorkflow.id, { frontend_code: code });
+    toast({
+      title: saved ? "Frontend Generated" : "Save Failed",
+      description: saved
+        ? "Preview it here or download it to host it anywhere."
+        : "The generated frontend could not be saved.",
+      variant: saved ? 'default' : 'destructive'
+    });
+    return saved;
+  };
+
+  // Creates or updates the workflow on the user's n8n instance and activates it when it has a
+  // trigger that can run unattended. Drafts are pushed but left inactive.
+  const pushToN8n = async (client: N8nApiClient, workflowId: string, status: 'draft' | 'deployed') => {
+    const json = currentWorkflow.json as N8nWorkflow;
+
+    try {
+      let remoteId = storedWorkflow?.n8n_workflow_id || null;
+      if (remoteId) {
+        try {
+          await client.updateWorkflow(remoteId, json);
+        } catch (error) {
+          // Deleted in n8n since the last deploy: push it as a new workflow
+          if (!/status 404/.test((error as Error).message)) throw error;
+          remoteId = null;
+        }
+      }
+      if (!remoteId) {
+        remoteId = (await client.createWorkflow(json)).id;
+      }
+
+      const activate = status === 'deployed' && N8nApiClient.canActivate(json);
+      if (activate) {
+        await client.activateWorkflow(remoteId);
+      }
+
+      const webhookUrl = client.webhookUrls(json)[0];
+      await onUpdateWorkflow(workflowId, {
+        n8n_workflow_id: remoteId,
+        webhook_url: webhookUrl,
+        status: activate ? 'active' : status,
+        ...refreshedFrontendCode(webhookUrl)
+      });
+
       toast({
-        title: "Workflow Deployed",
-        description: "Your sophisticated automation is now live and ready for interaction.",
+        title: activate ? "Workflow Live in n8n" : "Workflow Pushed to n8n",
+        description: webhookUrl
+          ? `Webhook: ${webhookUrl}`
+          : activate ? "The workflow is active on your n8n instance." : "The workflow is saved in n8n but not active.",
+      });
+    } catch (error) {
+      console.error('n8n deploy error:', error);
+      toast({
+        title: "n8n Deploy Failed",
+        description: `Saved in VODUE, but n8n returned an error: ${(error as Error).message}`,
+        variant: "destructive"
       });
     }
   };
 
+  // Deploying again from the same conversation updates its stored workflow instead of adding another.
+  // Workflows with validation errors are kept as drafts until they are fixed.
+  const handleDeployWorkflow = async () => {
+    if (!currentWorkflow) return;
+
+    const status = validationResults && !validationResults.isValid ? 'draft' : 'deployed';
+    const record: CreateWorkflowInput = {
+      name: currentWorkflow.name,
+      description: currentWorkflow.description,
+      n8n_json: currentWorkflow.json,
+      status
+    };
+
+    let workflowId = storedWorkflow?.id;
+    if (storedWorkflow) {
+      // Redeploying keeps an activated workflow active
+      const saved = await onUpdateWorkflow(storedWorkflow.id, {
+        ...record,
+        ...refreshedFrontendCode(storedWorkflow.webhook_url),
+        status: status === 'deployed' && storedWorkflow.status === 'active' ? 'active' : status
+      });
+      if (!saved) workflowId = undefined;
+    } else {
+      const created = await onCreateWorkflow({ ...record, conversation_id: conversationId || undefined });
+      workflowId = created?.id;
+    }
+
+    const saved = Boolean(workflowId);
+    if (saved && JSON.stringify(versions[0]?.n8n_json) !== JSON.stringify(currentWorkflow.json)) {
+      await createVersion(currentWorkflow.json as N8nWorkflow, 'manual', 'Saved on deploy', workflowId);
+    }
+
+    if (!saved) {
+      toast({
+        title: "Deployment Failed",
+        description: "The workflow could not be saved. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (n8nClient) {
+      await pushToN8n(n8nClient, workflowId, status);
+      return;
+    }
+
+    toast({
+      title: status === 'draft' ? "Saved as Draft" : "Workflow Deployed",
+      description: status === 'draft'
+        ? "Fix the validation errors and deploy again to make it live."
+        : "Your sophisticated automation is now live and ready for interaction.",
+    });
+  };
+
   return (
     <div className="flex-1 flex">
       <ChatInterface
@@ -167,12 +655,53 @@ export const BuildMode: React.FC<BuildModeProps> = ({ workflows, onWorkflowCreat
         onInputChange={setInput}
         onSendMessage={handleSendMessage}
         onExportWorkflow={handleExportWorkflow}
+        onExportFixedWorkflow={handleExportFixedWorkflow}
+        onImportFile={handleImportFile}
         onDeployWorkflow={handleDeployWorkflow}
+        onBrowseTemplates={() => setGalleryOpen(true)}
+        onSaveTemplate={() => setSaveTemplateOpen(true)}
       />
 
+      <TemplateGallery
+        open={galleryOpen}
+        onOpenChange={setGalleryOpen}
+        templates={templates}
+        loading={templatesLoading}
+        onUseTemplate={handleUseTemplate}
+      />
+      <InstantiateTemplateDialog
+        template={pendingTemplate}
+        onCancel={() => setPendingTemplate(null)}
+        onInstantiate={instantiateTemplate}
+      />
+      {currentWorkflow && (
+        <SaveTemplateDialog
+          open={saveTemplateOpen}
+          onOpenChange={setSaveTemplateOpen}
+          defaultName={currentWorkflow.name}
+          defaultDescription={currentWorkflow.description}
+          onSave={handleSaveTemplate}
+        />
+      )}
+
       {currentWorkflow && (
         <div className="w-96 border-l border-stone-200">
-          <WorkflowPreview workflow={currentWorkflow} validationResults={validationResults} />
+          <Tabs defaultValue="preview" className="h-full flex flex-col">
+            <TabsList className="mx-6 mt-4 grid grid-cols-3">
+              <TabsTrigger value="preview">Preview</TabsTrigger>
+              <TabsTrigger value="history">History{versions.length > 0 ? ` (${versions.length})` : ''}</TabsTrigger>
+              <TabsTrigger value="frontend">Frontend</TabsTrigger>
+            </TabsList>
+            <TabsContent value="preview" className="flex-1 min-h-0 mt-0">
+              <WorkflowPreview workflow={currentWorkflow} validationResults={validationResults} />
+            </TabsContent>
+            <TabsContent value="history" className="flex-1 min-h-0 mt-0">
+              <WorkflowVersionHistory versions={versions} loading={versionsLoading} onRollback={handleRollback} />
+            </TabsContent>
+            <TabsContent value="frontend" className="flex-1 min-h-0 mt-0">
+              <FrontendCodePanel key={storedWorkflow?.id} workflow={storedWorkflow || null} onSave={handleSaveFrontendCode} />
+            </TabsContent>
+          </Tabs>
         </div>
       )}
     </div>
@@ -1,9 +1,9 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send } from 'lucide-react';
+import { LayoutTemplate, Send, Upload } from 'lucide-react';
 import { MessageCard } from './MessageCard';
 
 interface WorkflowData {
@@ -32,6 +32,7 @@ interface Message {
   content: string;
   timestamp: Date;
   workflow?: WorkflowData;
+  fixes?: string[];
 }
 
 interface ChatInterfaceProps {
@@ -41,7 +42,11 @@ interface ChatInterfaceProps {
   onInputChange: (value: string) => void;
   onSendMessage: () => void;
   onExportWorkflow: () => void;
+  onExportFixedWorkflow: () => void;
   onDeployWorkflow: () => void;
+  onImportFile: (file: File) => void;
+  onBrowseTemplates?: () => void;
+  onSaveTemplate?: () => void;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -51,8 +56,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onInputChange,
   onSendMessage,
   onExportWorkflow,
-  onDeployWorkflow
+  onExportFixedWorkflow,
+  onDeployWorkflow,
+  onImportFile,
+  onBrowseTemplates,
+  onSaveTemplate
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImportFile(file);
+    // Reset so the same file can be imported again
+    event.target.value = '';
+  };
+
   return (
     <div className="flex-1 flex flex-col">
       <div className="p-6 border-b border-stone-200">
@@ -68,7 +86,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               message={message}
               validationResults={message.workflow ? validationResults : undefined}
               onExport={onExportWorkflow}
+              onExportFixed={message.fixes?.length ? onExportFixedWorkflow : undefined}
               onDeploy={onDeployWorkflow}
+              onSaveTemplate={onSaveTemplate}
             />
           ))}
         </div>
@@ -77,12 +97,35 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       <div className="p-6 border-t border-stone-200">
         <div className="flex space-x-3">
           <Input
-            placeholder="Describe your workflow vision..."
+            placeholder="Describe your workflow vision, or paste n8n workflow JSON..."
             value={input}
             onChange={(e) => onInputChange(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && onSendMessage()}
             className="flex-1 border-stone-300 focus:border-stone-500"
           />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import n8n workflow JSON"
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+          {onBrowseTemplates && (
+            <Button
+              variant="outline"
+              onClick={onBrowseTemplates}
+              title="Start from a template"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+            </Button>
+          )}
           <Button 
             onClick={onSendMessage}
             className="bg-stone-800 hover:bg-stone-900"
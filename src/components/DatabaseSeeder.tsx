@@ -1,16 +1,24 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { Database, Download, CheckCircle, AlertCircle } from 'lucide-react';
+import { Database, Download, CheckCircle, AlertCircle, Upload } from 'lucide-react';
 import { useNodeSeeding } from '@/hooks/useNodeSeeding';
 
 export const DatabaseSeeder: React.FC = () => {
-  const { isSeeding, seedingProgress, seedDatabase } = useNodeSeeding();
+  const { isSeeding, seedingProgress, seedDatabase, importNodeDescriptions } = useNodeSeeding();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importNodeDescriptions(file);
+    // Reset so the same file can be imported again
+    event.target.value = '';
+  };
 
   const getProgressValue = () => {
-    if (seedingProgress.includes('Starting')) return 10;
+    if (seedingProgress.includes('Starting') || seedingProgress.includes('Reading')) return 10;
     if (seedingProgress.includes('node definitions')) return 50;
     if (seedingProgress.includes('templates')) return 80;
     if (seedingProgress.includes('completed')) return 100;
@@ -86,6 +94,23 @@ export const DatabaseSeeder: React.FC = () => {
             </>
           )}
         </Button>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSeeding}
+          className="w-full"
+          variant="outline"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import n8n Node Descriptions (nodes.json)
+        </Button>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Code, Download, Eye, RefreshCw } from 'lucide-react';
+import type { Workflow } from '@/hooks/useWorkflows';
+import { FrontendCodeGenerator, type FrontendFormat } from '@/utils/frontendGenerator';
+
+interface FrontendCodePanelProps {
+  // The saved workflow; code is generated from its stored JSON and webhook URL
+  workflow: Workflow | null;
+  onSave: (code: string) => Promise<boolean>;
+}
+
+export const FrontendCodePanel: React.FC<FrontendCodePanelProps> = ({ workflow, onSave }) => {
+  const code = workflow?.frontend_code || '';
+  const [format, setFormat] = useState<FrontendFormat>(FrontendCodeGenerator.formatOf(code) || 'html');
+  const [view, setView] = useState<'preview' | 'code'>('preview');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!workflow) {
+    return (
+      <p className="p-6 text-sm text-stone-600">Generate or import a workflow to create a frontend for it.</p>
+    );
+  }
+
+  const handleGenerate = async () => {
+    setIsSaving(true);
+    await onSave(FrontendCodeGenerator.generate(workflow, format));
+    setIsSaving(false);
+  };
+
+  const handleDownload = () => {
+    const storedFormat = FrontendCodeGenerator.formatOf(code) || format;
+    const mimeType = storedFormat === 'html' ? 'text/html' : 'text/javascript';
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', `data:${mimeType};charset=utf-8,${encodeURIComponent(code)}`);
+    linkElement.setAttribute('download', FrontendCodeGenerator.fileName(workflow.name, storedFormat));
+    linkElement.click();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-6 pb-3 space-y-3">
+        <div className="flex items-center space-x-2">
+          <Select value={format} onValueChange={value => setFormat(value as FrontendFormat)}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="html">HTML page</SelectItem>
+              <SelectItem value="react">React component</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleGenerate} disabled={isSaving} className="bg-stone-700 hover:bg-stone-800">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {code ? 'Regenerate' : 'Generate'}
+          </Button>
+        </div>
+        {!workflow.webhook_url && (
+          <p className="text-xs text-stone-500">
+            Deploy to n8n to fill in the webhook URL; until then the code uses a placeholder.
+          </p>
+        )}
+        {code && (
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant={view === 'preview' ? 'default' : 'ghost'} onClick={() => setView('preview')}>
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button size="sm" variant={view === 'code' ? 'default' : 'ghost'} onClick={() => setView('code')}>
+              <Code className="w-4 h-4 mr-2" />
+              Code
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleDownload}>
+              <Download className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {code && (view === 'preview' ? (
+        // No allow-same-origin: the generated page cannot reach VODUE's storage or session
+        <iframe
+          title={`${workflow.name} frontend`}
+          sandbox="allow-scripts allow-forms"
+          srcDoc={FrontendCodeGenerator.previewDocument(code)}
+          className="flex-1 mx-6 mb-6 border border-stone-200 rounded bg-white"
+        />
+      ) : (
+        <ScrollArea className="flex-1 px-6 pb-6">
+          <pre className="text-xs text-stone-700 bg-stone-50 rounded p-3 whitespace-pre-wrap break-all">{code}</pre>
+        </ScrollArea>
+      ))}
+    </div>
+  );
+};
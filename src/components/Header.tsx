@@ -2,13 +2,24 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Sparkles, Code, Play } from 'lucide-react';
+import { N8nConnectionDialog } from './N8nConnectionDialog';
+import type { N8nInstance } from '@/hooks/useN8nInstance';
 
 interface HeaderProps {
   currentMode: 'build' | 'interact';
   onModeChange: (mode: 'build' | 'interact') => void;
+  n8nInstance?: N8nInstance | null;
+  onSaveN8nInstance?: (baseUrl: string, apiKey: string) => Promise<N8nInstance | null>;
+  onDisconnectN8n?: () => Promise<boolean>;
 }
 
-export const Header: React.FC<HeaderProps> = ({ currentMode, onModeChange }) => {
+export const Header: React.FC<HeaderProps> = ({
+  currentMode,
+  onModeChange,
+  n8nInstance = null,
+  onSaveN8nInstance,
+  onDisconnectN8n
+}) => {
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-white/80 backdrop-blur-md border-b border-stone-200">
       <div className="container mx-auto px-6 py-4">
@@ -43,6 +54,14 @@ export const Header: React.FC<HeaderProps> = ({ currentMode, onModeChange }) =>
               <Play className="w-4 h-4" />
               <span>INTERACT</span>
             </Button>
+
+            {onSaveN8nInstance && onDisconnectN8n && (
+              <N8nConnectionDialog
+                instance={n8nInstance}
+                onSave={onSaveN8nInstance}
+                onDisconnect={onDisconnectN8n}
+              />
+            )}
           </nav>
         </div>
       </div>
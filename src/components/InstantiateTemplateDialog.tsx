@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { WorkflowTemplate } from '@/services/nodeService';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+import { TemplateVariables } from '@/utils/templateVariables';
+
+interface InstantiateTemplateDialogProps {
+  // The template being used; the dialog is open while one is set
+  template: WorkflowTemplate | null;
+  onCancel: () => void;
+  onInstantiate: (template: WorkflowTemplate, workflow: N8nWorkflow) => void;
+}
+
+export const InstantiateTemplateDialog: React.FC<InstantiateTemplateDialogProps> = ({ template, onCancel, onInstantiate }) => {
+  const variables = useMemo(() => TemplateVariables.parse(template?.variables), [template]);
+  const workflow = (template?.n8n_workflow || { nodes: [] }) as unknown as N8nWorkflow;
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    setValues(TemplateVariables.initialValues(variables));
+    setErrors({});
+  }, [variables]);
+
+  const handleSubmit = async () => {
+    if (!template) return;
+
+    setIsChecking(true);
+    const check = await TemplateVariables.validate(workflow, variables, values);
+    setIsChecking(false);
+    setErrors(check.errors);
+    if (Object.keys(check.errors).length === 0) {
+      onInstantiate(template, TemplateVariables.substitute(workflow, check.values));
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(template)} onOpenChange={open => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Set up "{template?.name}"</DialogTitle>
+          <DialogDescription>These values are filled into the template before it is validated.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variables.map(variable => {
+            const id = `template-variable-${variable.name}`;
+            const usedIn = [...new Set(
+              TemplateVariables.usages(workflow, [variable]).map(usage => usage.nodeName)
+            )];
+            return (
+              <div key={variable.name} className="space-y-2">
+                {variable.type === 'boolean' ? (
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={id}
+                      checked={Boolean(values[variable.name])}
+                      onCheckedChange={checked => setValues(prev => ({ ...prev, [variable.name]: checked }))}
+                    />
+                    <Label htmlFor={id}>{variable.label || variable.name}</Label>
+                  </div>
+                ) : (
+                  <>
+                    <Label htmlFor={id}>
+                      {variable.label || variable.name}
+                      {variable.required === false && <span className="ml-1 text-stone-400">(optional)</span>}
+                    </Label>
+                    <Input
+                      id={id}
+                      type={variable.type === 'number' ? 'number' : variable.type === 'url' ? 'url' : 'text'}
+                      placeholder={variable.type === 'url' ? 'https://' : undefined}
+                      value={String(values[variable.name] ?? '')}
+                      onChange={(e) => setValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                    />
+                  </>
+                )}
+                <p className="text-xs text-stone-500">
+                  {variable.description ? `${variable.description}. ` : ''}
+                  {usedIn.length > 0 ? `Used in ${usedIn.join(', ')}.` : 'Not used in any node.'}
+                </p>
+                {errors[variable.name] && <p className="text-xs text-red-600">{errors[variable.name]}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isChecking} className="bg-stone-800 hover:bg-stone-900">
+            {isChecking ? 'Checking...' : 'Use Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,24 +1,59 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Play, Send, Sparkles } from 'lucide-react';
+import { Play, Send, Sparkles, Power, MessageSquare, BarChart3, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { CreateWorkflowInput, Workflow, WorkflowStatus } from '@/hooks/useWorkflows';
+import { sampleFetch, WorkflowExecutor, type NodeRun } from '@/utils/workflowExecutor';
+import type { N8nApiClient } from '@/services/n8nApiClient';
+import { WebhookClient } from '@/utils/webhookClient';
+import { useWorkflowInteractions } from '@/hooks/useWorkflowInteractions';
+import { WorkflowAnalytics } from './WorkflowAnalytics';
+import { WorkflowInputForm } from './WorkflowInputForm';
+import { InputSchemaInference } from '@/utils/inputSchema';
+import type { Json } from '@/integrations/supabase/types';
 
 interface InteractModeProps {
-  workflows: any[];
+  workflows: Workflow[];
+  loading?: boolean;
+  onUpdateWorkflow: (id: string, updates: Partial<CreateWorkflowInput>) => Promise<boolean>;
+  n8nClient?: N8nApiClient | null;
 }
 
-export const InteractMode: React.FC<InteractModeProps> = ({ workflows }) => {
-  const [selectedWorkflow, setSelectedWorkflow] = useState(null);
+const STATUS_STYLES: Record<WorkflowStatus, string> = {
+  draft: 'border-amber-300 text-amber-700',
+  deployed: 'border-stone-300 text-stone-600',
+  active: 'border-green-300 text-green-700'
+};
+
+export const InteractMode: React.FC<InteractModeProps> = ({ workflows, loading, onUpdateWorkflow, n8nClient }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [messages, setMessages] = useState([]);
   const [input, setInput] = useState('');
   const { toast } = useToast();
 
-  const handleWorkflowSelect = (workflow: any) => {
-    setSelectedWorkflow(workflow);
+  // Read from the list so status changes show up on the selected workflow too
+  const selectedWorkflow = workflows.find(workflow => workflow.id === selectedId) || null;
+  const { interactions, loading: interactionsLoading, recordInteraction } = useWorkflowInteractions(selectedWorkflow?.id);
+  const [view, setView] = useState<'chat' | 'history'>('chat');
+  const webhookMethod = WebhookClient.methodFor(selectedWorkflow?.n8n_json);
+  const inputSchema = useMemo(() => InputSchemaInference.infer(selectedWorkflow?.n8n_json), [selectedWorkflow?.n8n_json]);
+  // The inferred form is shown when the workflow reads any input fields; free text stays one click away
+  const [useFreeText, setUseFreeText] = useState(false);
+  const showForm = inputSchema.fields.length > 0 && !useFreeText;
+  // Local runs answer HTTP Request nodes with sample data unless the user lets them call the real APIs
+  const [allowLiveRequests, setAllowLiveRequests] = useState(false);
+
+  const handleWorkflowSelect = (workflow: Workflow) => {
+    setSelectedId(workflow.id);
+    setUseFreeText(false);
+    setAllowLiveRequests(false);
     setMessages([
       {
         type: 'system',
@@ -28,39 +63,142 @@ export const InteractMode: React.FC<InteractModeProps> = ({ workflows }) => {
     ]);
   };
 
-  const handleSendMessage = async () => {
-    if (!input.trim() || !selectedWorkflow) return;
+  // Drafts stay drafts until they are redeployed from BUILD mode. Workflows pushed to n8n are
+  // switched there first, so the stored status never claims more than n8n does.
+  const handleToggleActive = async (workflow: Workflow) => {
+    const status: WorkflowStatus = workflow.status === 'active' ? 'deployed' : 'active';
+
+    if (workflow.n8n_workflow_id && n8nClient) {
+      try {
+        if (status === 'active') {
+          await n8nClient.activateWorkflow(workflow.n8n_workflow_id);
+        } else {
+          await n8nClient.deactivateWorkflow(workflow.n8n_workflow_id);
+        }
+      } catch (error) {
+        toast({
+          title: "Update Failed",
+          description: (error as Error).message,
+          variant: 'destructive'
+        });
+        return;
+      }
+    }
+
+    const updated = await onUpdateWorkflow(workflow.id, { status });
+    toast({
+      title: updated ? (status === 'active' ? "Workflow Activated" : "Workflow Deactivated") : "Update Failed",
+      description: updated ? `"${workflow.name}" is now ${status}.` : "The workflow status could not be changed.",
+      variant: updated ? 'default' : 'destructive'
+    });
+  };
+
+  // Deployed workflows are triggered through their n8n webhook; every call is recorded
+  const callWebhook = async (url: string, content: string) => {
+    const webhookInput = WebhookClient.parseInput(content);
+    const startedAt = performance.now();
+
+    try {
+      const response = await WebhookClient.send(url, webhookMethod, webhookInput);
+      setMessages(prev => [...prev, {
+        type: 'workflow',
+        content: response.ok
+          ? `${webhookMethod} ${url} responded in ${response.latencyMs}ms.`
+          : `${webhookMethod} ${url} failed with ${response.status} ${response.statusText}.`.trim(),
+        timestamp: new Date(),
+        webhook: response
+      }]);
+
+      await recordInteraction({
+        input_data: webhookInput as unknown as Json,
+        output_data: { status: response.status, body: response.body } as Json,
+        execution_time_ms: response.latencyMs,
+        status: response.ok ? 'success' : 'error'
+      });
+    } catch (error) {
+      // Network failures and CORS rejections land here without a response
+      const latencyMs = Math.round(performance.now() - startedAt);
+      const message = (error as Error).message;
+      setMessages(prev => [...prev, {
+        type: 'workflow',
+        content: `Could not reach ${url}: ${message}`,
+        timestamp: new Date()
+      }]);
+
+      await recordInteraction({
+        input_data: webhookInput as unknown as Json,
+        output_data: { error: message },
+        execution_time_ms: latencyMs,
+        status: 'error'
+      });
+    }
+  };
+
+  const sendToWorkflow = async (content: string) => {
+    if (!selectedWorkflow) return;
 
     const userMessage = {
       type: 'user',
-      content: input,
+      content,
       timestamp: new Date()
     };
 
     setMessages(prev => [...prev, userMessage]);
-    setInput('');
 
-    // Simulate workflow execution
-    setTimeout(() => {
+    if (selectedWorkflow.webhook_url) {
+      await callWebhook(selectedWorkflow.webhook_url, userMessage.content);
+      return;
+    }
+
+    // Run the workflow locally on the user's input
+    try {
+      const result = await WorkflowExecutor.execute(selectedWorkflow.n8n_json, userMessage.content, {
+        fetchImpl: allowLiveRequests ? undefined : sampleFetch
+      });
+      const sampled = allowLiveRequests ? '' : ' HTTP requests were answered with sample data.';
       const response = {
         type: 'workflow',
-        content: 'Workflow executed with editorial precision. Your automation has processed the request beautifully.',
+        content: result.status === 'success'
+          ? `Workflow executed ${result.order.length} node(s) and returned ${result.output.length} item(s).${sampled}`
+          : `Workflow stopped with an error: ${result.error}`,
         timestamp: new Date(),
-        result: {
-          status: 'success',
-          data: 'Processing completed'
-        }
+        result
       };
 
       setMessages(prev => [...prev, response]);
       
       toast({
-        title: "Workflow Executed",
-        description: "Your automation ran with sophisticated precision.",
+        title: result.status === 'success' ? "Workflow Executed" : "Workflow Failed",
+        description: result.status === 'success'
+          ? `Finished at "${result.lastNode}".`
+          : result.error,
+        variant: result.status === 'success' ? 'default' : 'destructive'
       });
-    }, 1000);
+    } catch (error) {
+      console.error('Workflow execution error:', error);
+      setMessages(prev => [...prev, {
+        type: 'workflow',
+        content: 'The workflow could not be executed locally.',
+        timestamp: new Date()
+      }]);
+    }
   };
 
+  const handleSendMessage = async () => {
+    if (!input.trim()) return;
+    const content = input;
+    setInput('');
+    await sendToWorkflow(content);
+  };
+
+  if (loading && workflows.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="text-stone-600">Loading your workflows...</p>
+      </div>
+    );
+  }
+
   if (workflows.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -96,7 +234,12 @@ export const InteractMode: React.FC<InteractModeProps> = ({ workflows }) => {
                 }`}
                 onClick={() => handleWorkflowSelect(workflow)}
               >
-                <h3 className="font-medium mb-2">{workflow.name}</h3>
+                <div className="flex items-start justify-between mb-2">
+                  <h3 className="font-medium">{workflow.name}</h3>
+                  <Badge variant="outline" className={`text-[10px] uppercase tracking-wider bg-white ${STATUS_STYLES[workflow.status]}`}>
+                    {workflow.status}
+                  </Badge>
+                </div>
                 <p className="text-sm opacity-70 line-clamp-2">{workflow.description}</p>
               </Card>
             ))}
@@ -108,60 +251,186 @@ export const InteractMode: React.FC<InteractModeProps> = ({ workflows }) => {
       <div className="flex-1 flex flex-col">
         {selectedWorkflow ? (
           <>
-            <div className="p-6 border-b border-stone-200">
-              <h3 className="text-lg font-medium text-stone-800">{selectedWorkflow.name}</h3>
-              <p className="text-sm text-stone-600 mt-1">Live workflow interaction</p>
-            </div>
-
-            <ScrollArea className="flex-1 p-6">
-              <div className="space-y-4 max-w-2xl">
-                {messages.map((message, index) => (
-                  <div key={index} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <Card className={`max-w-lg p-4 ${
-                      message.type === 'user' 
-                        ? 'bg-stone-800 text-white' 
-                        : message.type === 'system'
-                        ? 'bg-gradient-to-r from-stone-100 to-stone-50'
-                        : 'bg-white border-stone-200'
-                    }`}>
-                      <div className="flex items-start space-x-3">
-                        {message.type !== 'user' && (
-                          <div className="w-5 h-5 bg-gradient-to-br from-stone-800 to-stone-600 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                            <Sparkles className="w-2.5 h-2.5 text-white" />
-                          </div>
-                        )}
-                        <div className="flex-1">
-                          <p className="text-sm leading-relaxed">{message.content}</p>
-                          {message.result && (
-                            <div className="mt-2 p-2 bg-green-50 rounded text-xs text-green-800">
-                              Status: {message.result.status}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    </Card>
-                  </div>
-                ))}
+            <div className="p-6 border-b border-stone-200 flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-medium text-stone-800">{selectedWorkflow.name}</h3>
+                <p className="text-sm text-stone-600 mt-1 break-all">
+                  {selectedWorkflow.webhook_url
+                    ? `${webhookMethod} ${selectedWorkflow.webhook_url}: ${showForm ? 'fill in the fields it reads' : 'send text, JSON or key=value fields'}`
+                    : `Runs locally on your input: ${showForm ? 'fill in the fields it reads' : 'send text or JSON'}`}
+                </p>
               </div>
-            </ScrollArea>
-
-            <div className="p-6 border-t border-stone-200">
-              <div className="flex space-x-3">
-                <Input
-                  placeholder="Send data to your workflow..."
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-                  className="flex-1 border-stone-300 focus:border-stone-500"
-                />
-                <Button 
-                  onClick={handleSendMessage}
-                  className="bg-stone-800 hover:bg-stone-900"
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Button
+                  variant={view === 'chat' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('chat')}
                 >
-                  <Send className="w-4 h-4" />
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Chat
                 </Button>
+                <Button
+                  variant={view === 'history' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('history')}
+                >
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  History
+                </Button>
+                {selectedWorkflow.status !== 'draft' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleActive(selectedWorkflow)}
+                    className="border-stone-300"
+                  >
+                    <Power className="w-4 h-4 mr-2" />
+                    {selectedWorkflow.status === 'active' ? 'Deactivate' : 'Activate'}
+                  </Button>
+                )}
               </div>
             </div>
+
+            {view === 'history' ? (
+              <WorkflowAnalytics interactions={interactions} loading={interactionsLoading} />
+            ) : (
+              <>
+                <ScrollArea className="flex-1 p-6">
+                  <div className="space-y-4 max-w-2xl">
+                    {messages.map((message, index) => (
+                      <div key={index} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <Card className={`max-w-lg p-4 ${
+                          message.type === 'user' 
+                            ? 'bg-stone-800 text-white' 
+                            : message.type === 'system'
+                            ? 'bg-gradient-to-r from-stone-100 to-stone-50'
+                            : 'bg-white border-stone-200'
+                        }`}>
+                          <div className="flex items-start space-x-3">
+                            {message.type !== 'user' && (
+                              <div className="w-5 h-5 bg-gradient-to-br from-stone-800 to-stone-600 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                                <Sparkles className="w-2.5 h-2.5 text-white" />
+                              </div>
+                            )}
+                            <div className="flex-1">
+                              <p className="text-sm leading-relaxed">{message.content}</p>
+                              {message.webhook && (
+                                <div className="mt-2 space-y-2">
+                                  <div className={`flex justify-between p-2 rounded text-xs ${
+                                    message.webhook.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                                  }`}>
+                                    <span>Status: {message.webhook.status} {message.webhook.statusText}</span>
+                                    <span>{message.webhook.latencyMs}ms</span>
+                                  </div>
+                                  <pre className="text-xs text-stone-700 bg-stone-50 rounded p-2 overflow-x-auto max-h-48 whitespace-pre-wrap break-all">
+                                    {typeof message.webhook.body === 'string'
+                                      ? message.webhook.body || '(empty response)'
+                                      : JSON.stringify(message.webhook.body, null, 2)}
+                                  </pre>
+                                </div>
+                              )}
+                              {message.result && (
+                                <div className="mt-2 space-y-2">
+                                  <div className={`p-2 rounded text-xs ${
+                                    message.result.status === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                                  }`}>
+                                    Status: {message.result.status}
+                                  </div>
+                                  <div className="space-y-1">
+                                    {message.result.order.map((nodeName: string, runIndex: number) => {
+                                      const runs = message.result.runData[nodeName];
+                                      const run = runs[message.result.order.slice(0, runIndex).filter((name: string) => name === nodeName).length];
+                                      const itemCount = run.outputs.reduce((total: number, items: unknown[]) => total + items.length, 0);
+                                      return (
+                                        <div key={runIndex} className="flex justify-between text-xs text-stone-600">
+                                          <span>{nodeName}</span>
+                                          <span className={run.status === 'error' ? 'text-red-600' : ''}>
+                                            {run.status === 'error' ? run.error : `${itemCount} item(s)`}
+                                          </span>
+                                        </div>
+                                      );
+                                    })}
+                                  </div>
+                                  {Object.entries(message.result.runData as Record<string, NodeRun[]>).map(([nodeName, runs]) =>
+                                    runs.flatMap(run => run.logs || []).map((log, logIndex) => (
+                                      <p
+                                        key={`${nodeName}-${logIndex}`}
+                                        className={`p-1 bg-stone-50 rounded font-mono text-xs ${log.level === 'error' ? 'text-red-600' : 'text-stone-600'}`}
+                                      >
+                                        [{nodeName}] {log.message}
+                                      </p>
+                                    ))
+                                  )}
+                                  {message.result.output.length > 0 && (
+                                    <pre className="text-xs text-stone-700 bg-stone-50 rounded p-2 overflow-x-auto max-h-48 whitespace-pre-wrap break-all">
+                                      {JSON.stringify(message.result.output.map((item: { json: unknown }) => item.json), null, 2)}
+                                    </pre>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </Card>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+
+                <div className="p-6 border-t border-stone-200 space-y-3">
+                  {(inputSchema.fields.length > 0 || !selectedWorkflow.webhook_url) && (
+                    <div className="flex items-center justify-end gap-4">
+                      {!selectedWorkflow.webhook_url && (
+                        <div className="flex items-center gap-2 mr-auto">
+                          <Switch
+                            id="live-requests"
+                            checked={allowLiveRequests}
+                            onCheckedChange={setAllowLiveRequests}
+                          />
+                          <Label htmlFor="live-requests" className="text-xs text-stone-600">
+                            Send real HTTP requests
+                          </Label>
+                        </div>
+                      )}
+                      {inputSchema.fields.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setUseFreeText(!useFreeText)}
+                          className="text-xs text-stone-600"
+                        >
+                          <FileText className="w-3 h-3 mr-2" />
+                          {useFreeText ? 'Use form' : 'Use free text'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {showForm ? (
+                    // Remounted when the workflow or its fields change so the defaults match
+                    <WorkflowInputForm
+                      key={`${selectedWorkflow.id}:${inputSchema.fields.map(field => field.name).join('|')}`}
+                      schema={inputSchema}
+                      onSubmit={values => sendToWorkflow(JSON.stringify(values))}
+                    />
+                  ) : (
+                    <div className="flex space-x-3">
+                      <Input
+                        placeholder="Send data to your workflow..."
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+                        className="flex-1 border-stone-300 focus:border-stone-500"
+                      />
+                      <Button 
+                        onClick={handleSendMessage}
+                        className="bg-stone-800 hover:bg-stone-900"
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center">
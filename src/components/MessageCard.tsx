@@ -31,20 +31,25 @@ interface Message {
   content: string;
   timestamp: Date;
   workflow?: WorkflowData;
+  fixes?: string[];
 }
 
 interface MessageCardProps {
   message: Message;
   validationResults?: any;
   onExport: () => void;
+  onExportFixed?: () => void;
   onDeploy: () => void;
+  onSaveTemplate?: () => void;
 }
 
 export const MessageCard: React.FC<MessageCardProps> = ({
   message,
   validationResults,
   onExport,
-  onDeploy
+  onExportFixed,
+  onDeploy,
+  onSaveTemplate
 }) => {
   return (
     <div className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -68,7 +73,12 @@ export const MessageCard: React.FC<MessageCardProps> = ({
                 {validationResults && (
                   <ValidationStatus validationResults={validationResults} />
                 )}
-                <WorkflowActions onExport={onExport} onDeploy={onDeploy} />
+                <WorkflowActions
+                  onExport={onExport}
+                  onExportFixed={onExportFixed}
+                  onDeploy={onDeploy}
+                  onSaveTemplate={onSaveTemplate}
+                />
               </div>
             )}
           </div>
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Server } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { N8nInstance } from '@/hooks/useN8nInstance';
+
+interface N8nConnectionDialogProps {
+  instance: N8nInstance | null;
+  onSave: (baseUrl: string, apiKey: string) => Promise<N8nInstance | null>;
+  onDisconnect: () => Promise<boolean>;
+}
+
+export const N8nConnectionDialog: React.FC<N8nConnectionDialogProps> = ({ instance, onSave, onDisconnect }) => {
+  const [open, setOpen] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setBaseUrl(instance?.base_url || '');
+      setApiKey('');
+    }
+  }, [open, instance]);
+
+  // The connection is only stored once n8n has accepted the key; failures are toasted by onSave
+  const handleSave = async () => {
+    if (!baseUrl.trim() || !apiKey.trim()) return;
+
+    setIsTesting(true);
+    const saved = await onSave(baseUrl, apiKey.trim());
+    setIsTesting(false);
+
+    if (saved) {
+      toast({
+        title: "n8n Connected",
+        description: `Workflows will be deployed to ${saved.base_url}.`,
+      });
+      setOpen(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (await onDisconnect()) {
+      toast({
+        title: "n8n Disconnected",
+        description: "Deploys will only be saved in VODUE until you connect again.",
+      });
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" className="flex items-center space-x-2 px-4 py-2">
+          <Server className="w-4 h-4" />
+          <span className="text-xs uppercase tracking-wider">{instance ? 'n8n connected' : 'Connect n8n'}</span>
+          <span className={`w-2 h-2 rounded-full ${instance ? 'bg-green-500' : 'bg-stone-300'}`} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>n8n Connection</DialogTitle>
+          <DialogDescription>
+            Deploy Live pushes workflows to this instance through its REST API. Create an API key under Settings → n8n API.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="n8n-url">Instance URL</Label>
+            <Input
+              id="n8n-url"
+              placeholder="https://your-instance.app.n8n.cloud"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="n8n-key">API key</Label>
+            <Input
+              id="n8n-key"
+              type="password"
+              placeholder={instance ? 'Stored encrypted; enter it again to change the connection' : ''}
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {instance && (
+            <Button variant="outline" onClick={handleDisconnect}>
+              Disconnect
+            </Button>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={isTesting || !baseUrl.trim() || !apiKey.trim()}
+            className="bg-stone-800 hover:bg-stone-900"
+          >
+            {isTesting ? 'Testing...' : 'Test & Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { SaveTemplateInput, TemplateDifficulty } from '@/hooks/useWorkflowTemplates';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  defaultDescription?: string;
+  onSave: (input: SaveTemplateInput) => Promise<boolean>;
+}
+
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  open,
+  onOpenChange,
+  defaultName,
+  defaultDescription,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [tags, setTags] = useState('');
+  const [useCase, setUseCase] = useState('');
+  const [difficulty, setDifficulty] = useState<TemplateDifficulty>('beginner');
+  const [isPublic, setIsPublic] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setDescription(defaultDescription || '');
+    }
+  }, [open, defaultName, defaultDescription]);
+
+  const handleSave = async () => {
+    if (!name.trim() || !category.trim()) return;
+
+    setIsSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      description: description.trim(),
+      category: category.trim(),
+      tags: tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean),
+      useCase: useCase.trim() || undefined,
+      difficulty,
+      isPublic
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Templates appear in the gallery. Public templates are visible to every VODUE user.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea id="template-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-category">Category</Label>
+              <Input
+                id="template-category"
+                placeholder="Getting Started"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select value={difficulty} onValueChange={value => setDifficulty(value as TemplateDifficulty)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="beginner">Beginner</SelectItem>
+                  <SelectItem value="intermediate">Intermediate</SelectItem>
+                  <SelectItem value="advanced">Advanced</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-tags">Tags</Label>
+            <Input
+              id="template-tags"
+              placeholder="webhook, api, slack"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-use-case">Use case</Label>
+            <Input id="template-use-case" value={useCase} onChange={(e) => setUseCase(e.target.value)} />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="template-public" checked={isPublic} onCheckedChange={setIsPublic} />
+            <Label htmlFor="template-public">Share publicly</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || !category.trim()}
+            className="bg-stone-800 hover:bg-stone-900"
+          >
+            {isSaving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,13 +3,27 @@ import React from 'react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Sparkles, Code, Workflow, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sparkles, Code, Workflow, Zap, History, Plus, Trash2 } from 'lucide-react';
+import type { Conversation } from '@/hooks/useConversations';
 
 interface SidebarProps {
   currentMode: 'build' | 'interact';
+  conversations?: Conversation[];
+  activeConversationId?: string | null;
+  onSelectConversation?: (id: string) => void;
+  onNewConversation?: () => void;
+  onDeleteConversation?: (id: string) => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ currentMode }) => {
+export const Sidebar: React.FC<SidebarProps> = ({
+  currentMode,
+  conversations = [],
+  activeConversationId,
+  onSelectConversation,
+  onNewConversation,
+  onDeleteConversation
+}) => {
   const buildContent = {
     title: "The Art of Workflow Creation",
     sections: [
@@ -70,6 +84,57 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentMode }) => {
 
       <ScrollArea className="flex-1">
         <div className="p-6 space-y-6">
+          {currentMode === 'build' && onSelectConversation && (
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <History className="w-4 h-4 text-stone-600" />
+                  <h4 className="text-sm font-medium text-stone-800">History</h4>
+                </div>
+                <Button variant="ghost" size="sm" onClick={onNewConversation} className="h-7 px-2 text-xs">
+                  <Plus className="w-3 h-3 mr-1" />
+                  New
+                </Button>
+              </div>
+
+              {conversations.length === 0 ? (
+                <p className="text-xs text-stone-500">Your workflow conversations will appear here.</p>
+              ) : (
+                <div className="space-y-1">
+                  {conversations.map(conversation => (
+                    <div
+                      key={conversation.id}
+                      className={`group flex items-center rounded-md px-3 py-2 cursor-pointer transition-colors ${
+                        conversation.id === activeConversationId ? 'bg-stone-200/70' : 'hover:bg-stone-100'
+                      }`}
+                      onClick={() => onSelectConversation(conversation.id)}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-medium text-stone-800 truncate">{conversation.title}</p>
+                        <p className="text-[10px] text-stone-500">
+                          {new Date(conversation.updated_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {onDeleteConversation && (
+                        <button
+                          type="button"
+                          aria-label={`Delete ${conversation.title}`}
+                          className="opacity-0 group-hover:opacity-100 text-stone-400 hover:text-red-600 ml-2"
+                          onClick={event => {
+                            event.stopPropagation();
+                            onDeleteConversation(conversation.id);
+                          }}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {content.sections.map((section, index) => (
             <Card key={index} className="p-4 bg-white/50 border-stone-200">
               <div className="flex items-start space-x-3">
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Search, Sparkles } from 'lucide-react';
+import { WorkflowCanvas } from './WorkflowCanvas';
+import type { WorkflowTemplate } from '@/services/nodeService';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+interface TemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: WorkflowTemplate[];
+  loading?: boolean;
+  onUseTemplate: (template: WorkflowTemplate) => void;
+}
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  beginner: 'border-green-300 text-green-700',
+  intermediate: 'border-amber-300 text-amber-700',
+  advanced: 'border-red-300 text-red-700'
+};
+
+const templateWorkflow = (template: WorkflowTemplate) => {
+  const workflow = (template.n8n_workflow || {}) as unknown as Partial<N8nWorkflow>;
+  return { nodes: workflow.nodes || [], connections: workflow.connections || {} };
+};
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({ open, onOpenChange, templates, loading, onUseTemplate }) => {
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState('all');
+  const [difficulty, setDifficulty] = useState('all');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const categories = useMemo(
+    () => [...new Set(templates.map(template => template.category).filter(Boolean))].sort(),
+    [templates]
+  );
+  const tags = useMemo(
+    () => [...new Set(templates.flatMap(template => template.tags || []))].sort(),
+    [templates]
+  );
+
+  // Every selected tag must be present; the search matches name, description, use case and tags
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return templates.filter(template => {
+      if (category !== 'all' && template.category !== category) return false;
+      if (difficulty !== 'all' && template.difficulty !== difficulty) return false;
+      if (!selectedTags.every(tag => template.tags?.includes(tag))) return false;
+      if (!query) return true;
+      return [template.name, template.description, template.use_case, ...(template.tags || [])]
+        .some(text => text?.toLowerCase().includes(query));
+    });
+  }, [templates, search, category, difficulty, selectedTags]);
+
+  const selected = filtered.find(template => template.id === selectedId) || filtered[0] || null;
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(existing => existing !== tag) : [...prev, tag]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Template Gallery</DialogTitle>
+          <DialogDescription>Start from a proven workflow and refine it in BUILD mode.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-48">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+            <Input
+              placeholder="Search templates..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 h-9"
+            />
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="h-9 w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {categories.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={difficulty} onValueChange={setDifficulty}>
+            <SelectTrigger className="h-9 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any difficulty</SelectItem>
+              <SelectItem value="beginner">Beginner</SelectItem>
+              <SelectItem value="intermediate">Intermediate</SelectItem>
+              <SelectItem value="advanced">Advanced</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <Badge
+                key={tag}
+                variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer text-xs"
+                onClick={() => toggleTag(tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 flex gap-4">
+          <ScrollArea className="w-80 flex-shrink-0">
+            <div className="space-y-2 pr-3">
+              {loading && templates.length === 0 && <p className="text-sm text-stone-600">Loading templates...</p>}
+              {!loading && filtered.length === 0 && (
+                <p className="text-sm text-stone-600">No templates match these filters.</p>
+              )}
+              {filtered.map(template => (
+                <Card
+                  key={template.id}
+                  className={`p-3 cursor-pointer transition-all hover:shadow-md ${
+                    selected?.id === template.id ? 'bg-stone-800 text-white' : 'bg-white hover:bg-stone-50'
+                  }`}
+                  onClick={() => setSelectedId(template.id)}
+                >
+                  <div className="flex items-start justify-between mb-1">
+                    <h4 className="text-sm font-medium">{template.name}</h4>
+                    <span className="text-[10px] opacity-60 flex-shrink-0 ml-2">{template.usage_count} uses</span>
+                  </div>
+                  <p className="text-xs opacity-70 line-clamp-2">{template.description}</p>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {selected && (
+            <div className="flex-1 min-w-0 flex flex-col space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-medium text-stone-800">{selected.name}</h3>
+                  <div className="flex items-center space-x-2 mt-1">
+                    {selected.category && <span className="text-xs text-stone-500">{selected.category}</span>}
+                    {selected.difficulty && (
+                      <Badge variant="outline" className={`text-[10px] uppercase tracking-wider ${DIFFICULTY_STYLES[selected.difficulty] || ''}`}>
+                        {selected.difficulty}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Button onClick={() => onUseTemplate(selected)} className="bg-stone-800 hover:bg-stone-900">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Use this template
+                </Button>
+              </div>
+              {(selected.use_case || selected.description) && (
+                <p className="text-sm text-stone-600">{selected.use_case || selected.description}</p>
+              )}
+              <WorkflowCanvas workflow={templateWorkflow(selected)} className="flex-1 min-h-64" />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,14 +1,16 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, Eye } from 'lucide-react';
+import { BookmarkPlus, Download, Eye, Wrench } from 'lucide-react';
 
 interface WorkflowActionsProps {
   onExport: () => void;
+  onExportFixed?: () => void;
   onDeploy: () => void;
+  onSaveTemplate?: () => void;
 }
 
-export const WorkflowActions: React.FC<WorkflowActionsProps> = ({ onExport, onDeploy }) => {
+export const WorkflowActions: React.FC<WorkflowActionsProps> = ({ onExport, onExportFixed, onDeploy, onSaveTemplate }) => {
   return (
     <div className="flex space-x-2">
       <Button
@@ -19,6 +21,16 @@ export const WorkflowActions: React.FC<WorkflowActionsProps> = ({ onExport, onDe
         <Download className="w-4 h-4 mr-2" />
         Export JSON
       </Button>
+      {onExportFixed && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onExportFixed}
+        >
+          <Wrench className="w-4 h-4 mr-2" />
+          Download Fixed
+        </Button>
+      )}
       <Button
         size="sm"
         variant="outline"
@@ -27,6 +39,16 @@ export const WorkflowActions: React.FC<WorkflowActionsProps> = ({ onExport, onDe
         <Eye className="w-4 h-4 mr-2" />
         Deploy Live
       </Button>
+      {onSaveTemplate && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onSaveTemplate}
+        >
+          <BookmarkPlus className="w-4 h-4 mr-2" />
+          Save as Template
+        </Button>
+      )}
     </div>
   );
 };
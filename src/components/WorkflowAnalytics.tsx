@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ChevronDown } from 'lucide-react';
+import type { InteractionStatus, WorkflowInteraction } from '@/hooks/useWorkflowInteractions';
+import { InteractionStats } from '@/utils/interactionStats';
+
+interface WorkflowAnalyticsProps {
+  interactions: WorkflowInteraction[];
+  loading?: boolean;
+}
+
+const runsConfig = {
+  success: { label: 'Success', color: 'hsl(142 71% 45%)' },
+  error: { label: 'Error', color: 'hsl(0 72% 51%)' }
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  p50: { label: 'p50', color: 'hsl(30 6% 25%)' },
+  p95: { label: 'p95', color: 'hsl(25 5% 60%)' }
+} satisfies ChartConfig;
+
+const successRateConfig = {
+  successRate: { label: 'Success rate', color: 'hsl(142 71% 45%)' }
+} satisfies ChartConfig;
+
+const formatMs = (value: number | null) => (value === null ? '—' : `${value}ms`);
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const WorkflowAnalytics: React.FC<WorkflowAnalyticsProps> = ({ interactions, loading }) => {
+  const [status, setStatus] = useState<InteractionStatus | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filtered = useMemo(
+    () => InteractionStats.filter(interactions, { status, from: from || undefined, to: to || undefined }),
+    [interactions, status, from, to]
+  );
+  // Charts ignore the status filter, otherwise the success rate would always read 0% or 100%
+  const inRange = useMemo(
+    () => InteractionStats.filter(interactions, { from: from || undefined, to: to || undefined }),
+    [interactions, from, to]
+  );
+  const summary = useMemo(() => InteractionStats.summarize(inRange), [inRange]);
+  const daily = useMemo(
+    () => InteractionStats.daily(inRange).map(day => ({ ...day, successRate: Math.round(day.successRate * 100) })),
+    [inRange]
+  );
+
+  if (loading && interactions.length === 0) {
+    return <p className="p-6 text-sm text-stone-600">Loading run history...</p>;
+  }
+
+  if (interactions.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <p className="text-sm text-stone-600">No webhook runs recorded yet. Send a message to trigger this workflow.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="flex-1 p-6">
+      <div className="space-y-6 max-w-3xl">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-wide text-stone-500">Status</p>
+            <Select value={status} onValueChange={value => setStatus(value as InteractionStatus | 'all')}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All runs</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="error">Error</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-wide text-stone-500">From</p>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs uppercase tracking-wide text-stone-500">To</p>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 text-xs" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          {[
+            { label: 'Runs', value: String(summary.total) },
+            { label: 'Success rate', value: summary.total > 0 ? `${Math.round(summary.successRate * 100)}%` : '—' },
+            { label: 'p50 latency', value: formatMs(summary.p50) },
+            { label: 'p95 latency', value: formatMs(summary.p95) }
+          ].map(stat => (
+            <Card key={stat.label} className="p-3 bg-white/70 border-stone-200">
+              <p className="text-xs uppercase tracking-wide text-stone-500">{stat.label}</p>
+              <p className="text-xl font-light text-stone-800 mt-1">{stat.value}</p>
+            </Card>
+          ))}
+        </div>
+
+        {daily.length > 0 && (
+          <div className="space-y-4">
+            <Card className="p-4 bg-white/70 border-stone-200">
+              <h5 className="text-sm font-medium text-stone-800 mb-3">Runs per day</h5>
+              <ChartContainer config={runsConfig} className="h-48 w-full">
+                <BarChart data={daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="success" stackId="runs" fill="var(--color-success)" />
+                  <Bar dataKey="error" stackId="runs" fill="var(--color-error)" />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="p-4 bg-white/70 border-stone-200">
+              <h5 className="text-sm font-medium text-stone-800 mb-3">Latency (ms)</h5>
+              <ChartContainer config={latencyConfig} className="h-48 w-full">
+                <LineChart data={daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="p50" stroke="var(--color-p50)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="p95" stroke="var(--color-p95)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="p-4 bg-white/70 border-stone-200">
+              <h5 className="text-sm font-medium text-stone-800 mb-3">Success rate (%)</h5>
+              <ChartContainer config={successRateConfig} className="h-48 w-full">
+                <LineChart data={daily.filter(day => day.total > 0)}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <Line dataKey="successRate" stroke="var(--color-successRate)" strokeWidth={2} />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-stone-800 uppercase tracking-wide">
+            Runs ({filtered.length})
+          </h5>
+          {filtered.map(interaction => (
+            <Collapsible key={interaction.id}>
+              <Card className="bg-white/70 border-stone-200">
+                <CollapsibleTrigger className="w-full flex items-center justify-between p-3 text-left text-xs">
+                  <div className="flex items-center space-x-3">
+                    <Badge
+                      variant="outline"
+                      className={interaction.status === 'success' ? 'text-green-700 border-green-300' : 'text-red-700 border-red-300'}
+                    >
+                      {interaction.status}
+                    </Badge>
+                    <span className="text-stone-700">{new Date(interaction.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className="flex items-center space-x-3 text-stone-500">
+                    <span>{formatMs(interaction.execution_time_ms)}</span>
+                    <ChevronDown className="w-3 h-3" />
+                  </div>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="px-3 pb-3 space-y-2">
+                  {[
+                    { label: 'Input', value: interaction.input_data },
+                    { label: 'Output', value: interaction.output_data }
+                  ].map(section => (
+                    <div key={section.label}>
+                      <p className="text-xs uppercase tracking-wide text-stone-500 mb-1">{section.label}</p>
+                      <pre className="text-xs text-stone-700 bg-stone-50 rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap break-all">
+                        {JSON.stringify(section.value, null, 2)}
+                      </pre>
+                    </div>
+                  ))}
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          ))}
+        </div>
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import type { ValidationIssue } from '@/services/nodeService';
+
+interface WorkflowCanvasProps {
+  workflow: Pick<N8nWorkflow, 'nodes' | 'connections'>;
+  selectedNode?: string | null;
+  onSelectNode?: (nodeName: string | null) => void;
+  issues?: ValidationIssue[];
+  className?: string;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface Edge {
+  from: N8nNode;
+  to: N8nNode;
+  output: number;
+  outputCount: number;
+  label?: string;
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 56;
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 2.5;
+
+const outputLabels = (node: N8nNode, connectedOutputs: number): string[] => {
+  switch (node.type) {
+    case 'n8n-nodes-base.if':
+      return ['true', 'false'];
+    case 'n8n-nodes-base.splitInBatches':
+      return ['done', 'loop'];
+    case 'n8n-nodes-base.switch': {
+      const rules = node.parameters?.rules?.values || [];
+      const count = Math.max(rules.length, connectedOutputs, 1);
+      return Array.from({ length: count }, (_, index) => rules[index]?.outputKey || `output ${index}`);
+    }
+    default:
+      return Array.from({ length: Math.max(connectedOutputs, 1) }, () => '');
+  }
+};
+
+export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
+  workflow,
+  selectedNode,
+  onSelectNode,
+  issues = [],
+  className = ''
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number; moved: boolean } | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+
+  const nodes = useMemo(() => workflow.nodes || [], [workflow.nodes]);
+
+  const edges = useMemo(() => {
+    const byName = new Map(nodes.map(node => [node.name, node]));
+    const result: Edge[] = [];
+
+    Object.entries(workflow.connections || {}).forEach(([sourceName, connection]) => {
+      const source = byName.get(sourceName);
+      if (!source) return;
+      const labels = outputLabels(source, connection.main?.length || 0);
+
+      connection.main?.forEach((targets, output) => {
+        targets?.forEach(target => {
+          const destination = byName.get(target.node);
+          if (!destination) return;
+          result.push({
+            from: source,
+            to: destination,
+            output,
+            outputCount: labels.length,
+            label: labels[output] || undefined
+          });
+        });
+      });
+    });
+
+    return result;
+  }, [nodes, workflow.connections]);
+
+  // Issues pinned to the node they were reported on; workflow-level issues have no node
+  const issuesByNode = useMemo(() => {
+    const result = new Map<string, ValidationIssue[]>();
+    issues.forEach(issue => {
+      if (!issue.nodeName || issue.type === 'suggestion') return;
+      result.set(issue.nodeName, [...(result.get(issue.nodeName) || []), issue]);
+    });
+    return result;
+  }, [issues]);
+
+  const fitToView = useCallback(() => {
+    const svg = svgRef.current;
+    if (!svg || nodes.length === 0) return;
+
+    const { width, height } = svg.getBoundingClientRect();
+    const xs = nodes.map(node => node.position[0]);
+    const ys = nodes.map(node => node.position[1]);
+    const minX = Math.min(...xs) - 40;
+    const minY = Math.min(...ys) - 40;
+    const contentWidth = Math.max(...xs) + NODE_WIDTH + 40 - minX;
+    const contentHeight = Math.max(...ys) + NODE_HEIGHT + 40 - minY;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.min(width / contentWidth, height / contentHeight)));
+
+    setViewport({
+      scale,
+      x: (width - contentWidth * scale) / 2 - minX * scale,
+      y: (height - contentHeight * scale) / 2 - minY * scale
+    });
+  }, [nodes]);
+
+  useEffect(() => {
+    fitToView();
+  }, [fitToView]);
+
+  // Registered manually because React wheel listeners are passive and cannot prevent page scroll
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const pointerX = event.clientX - rect.left;
+      const pointerY = event.clientY - rect.top;
+
+      setViewport(current => {
+        const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * (event.deltaY < 0 ? 1.1 : 0.9)));
+        const ratio = scale / current.scale;
+        return {
+          scale,
+          x: pointerX - (pointerX - current.x) * ratio,
+          y: pointerY - (pointerY - current.y) * ratio
+        };
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomBy = (factor: number) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { width, height } = svg.getBoundingClientRect();
+
+    setViewport(current => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: width / 2 - (width / 2 - current.x) * ratio,
+        y: height / 2 - (height / 2 - current.y) * ratio
+      };
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: viewport.x, y: viewport.y, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.pointerX;
+    const dy = event.clientY - drag.pointerY;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+    setViewport(current => ({ ...current, x: drag.x + dx, y: drag.y + dy }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (drag?.moved) return;
+
+    // A click without dragging selects the node under the pointer, or clears the selection.
+    // The svg holds the pointer capture, so event.target is always the svg; hit-test instead.
+    const hit = document.elementFromPoint(event.clientX, event.clientY);
+    const target = hit && event.currentTarget.contains(hit) ? hit.closest('[data-node-name]') : null;
+    onSelectNode?.(target ? target.getAttribute('data-node-name') : null);
+  };
+
+  const edgePath = (edge: Edge) => {
+    const startX = edge.from.position[0] + NODE_WIDTH;
+    const startY = edge.from.position[1] + (NODE_HEIGHT * (edge.output + 1)) / (edge.outputCount + 1);
+    const endX = edge.to.position[0];
+    const endY = edge.to.position[1] + NODE_HEIGHT / 2;
+    const curve = Math.max(40, Math.abs(endX - startX) / 2);
+
+    // Backward edges (loops) swing below the nodes instead of cutting through them
+    if (endX <= startX) {
+      const drop = Math.max(startY, endY) + NODE_HEIGHT + 20;
+      return {
+        d: `M ${startX} ${startY} C ${startX + 60} ${startY}, ${startX + 60} ${drop}, ${startX} ${drop} L ${endX} ${drop} C ${endX - 60} ${drop}, ${endX - 60} ${endY}, ${endX} ${endY}`,
+        labelX: startX + 8,
+        labelY: startY - 6
+      };
+    }
+
+    return {
+      d: `M ${startX} ${startY} C ${startX + curve} ${startY}, ${endX - curve} ${endY}, ${endX} ${endY}`,
+      labelX: startX + 8,
+      labelY: startY - 6
+    };
+  };
+
+  return (
+    <div className={`relative rounded-md border border-stone-200 bg-stone-50 overflow-hidden ${className}`}>
+      <svg
+        ref={svgRef}
+        className="w-full h-full cursor-grab active:cursor-grabbing select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <defs>
+          <marker id="workflow-canvas-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-stone-400" />
+          </marker>
+          <pattern id="workflow-canvas-grid" width="20" height="20" patternUnits="userSpaceOnUse">
+            <circle cx="1" cy="1" r="1" className="fill-stone-200" />
+          </pattern>
+        </defs>
+        <rect width="100%" height="100%" fill="url(#workflow-canvas-grid)" />
+
+        <g transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+          {edges.map((edge, index) => {
+            const { d, labelX, labelY } = edgePath(edge);
+            return (
+              <g key={`${edge.from.name}-${edge.output}-${edge.to.name}-${index}`}>
+                <path d={d} fill="none" className="stroke-stone-400" strokeWidth={1.5} markerEnd="url(#workflow-canvas-arrow)" />
+                {edge.label && (
+                  <text x={labelX} y={labelY} className="fill-stone-500 text-[10px]">
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {nodes.map(node => {
+            const isSelected = node.name === selectedNode;
+            const nodeIssues = issuesByNode.get(node.name) || [];
+            const hasError = nodeIssues.some(issue => issue.type === 'error');
+            const outline = hasError ? 'stroke-red-500' : nodeIssues.length > 0 ? 'stroke-amber-500' : 'stroke-stone-300';
+            return (
+              <g
+                key={node.name}
+                data-node-name={node.name}
+                transform={`translate(${node.position[0]} ${node.position[1]})`}
+                className="cursor-pointer"
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={8}
+                  className={isSelected ? 'fill-stone-800 stroke-stone-900' : `fill-white ${outline}`}
+                  strokeWidth={isSelected || nodeIssues.length > 0 ? 2 : 1}
+                />
+                <text x={12} y={24} className={`text-xs font-medium ${isSelected ? 'fill-white' : 'fill-stone-800'}`}>
+                  {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+                </text>
+                <text x={12} y={42} className={`text-[10px] ${isSelected ? 'fill-stone-300' : 'fill-stone-500'}`}>
+                  {node.type.split('.').pop()}
+                </text>
+                {nodeIssues.length > 0 && (
+                  <g transform={`translate(${NODE_WIDTH} 0)`}>
+                    <title>{nodeIssues.map(issue => issue.message).join('\n')}</title>
+                    <circle r={9} className={hasError ? 'fill-red-500' : 'fill-amber-500'} />
+                    <text textAnchor="middle" dy="0.35em" className="fill-white text-[10px] font-medium">
+                      {nodeIssues.length}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute top-2 right-2 flex space-x-1">
+        <Button size="icon" variant="outline" className="h-7 w-7 bg-white" onClick={() => zoomBy(1.2)}>
+          <ZoomIn className="w-3 h-3" />
+        </Button>
+        <Button size="icon" variant="outline" className="h-7 w-7 bg-white" onClick={() => zoomBy(1 / 1.2)}>
+          <ZoomOut className="w-3 h-3" />
+        </Button>
+        <Button size="icon" variant="outline" className="h-7 w-7 bg-white" onClick={fitToView}>
+          <Maximize2 className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Send } from 'lucide-react';
+import { InputSchemaInference, type InputSchema } from '@/utils/inputSchema';
+
+interface WorkflowInputFormProps {
+  schema: InputSchema;
+  onSubmit: (values: Record<string, unknown>) => void | Promise<void>;
+}
+
+export const WorkflowInputForm: React.FC<WorkflowInputFormProps> = ({ schema, onSubmit }) => {
+  const resolver = useMemo(() => zodResolver(InputSchemaInference.toZod(schema.fields)), [schema.fields]);
+  const defaultValues = useMemo(() => InputSchemaInference.defaultValues(schema.fields), [schema.fields]);
+  const form = useForm<Record<string, unknown>>({ resolver, defaultValues });
+
+  // Blank optional fields are left out rather than sent as undefined or empty strings
+  const handleSubmit = async (values: Record<string, unknown>) => {
+    await onSubmit(JSON.parse(JSON.stringify(values)));
+    form.reset(defaultValues);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 max-h-64 overflow-y-auto pr-1">
+          {schema.fields.map(field => (
+            <FormField
+              key={field.name}
+              control={form.control}
+              name={field.name}
+              render={({ field: control }) => (
+                <FormItem className={field.type === 'object' || field.type === 'array' ? 'col-span-2' : ''}>
+                  <FormLabel className="text-xs uppercase tracking-wide text-stone-600">
+                    {field.name}
+                    {!field.required && <span className="ml-1 normal-case tracking-normal text-stone-400">(optional)</span>}
+                  </FormLabel>
+                  <FormControl>
+                    {field.type === 'boolean' ? (
+                      <Switch checked={Boolean(control.value)} onCheckedChange={control.onChange} className="block" />
+                    ) : field.type === 'object' || field.type === 'array' ? (
+                      <Textarea
+                        {...control}
+                        value={String(control.value ?? '')}
+                        placeholder={field.type === 'array' ? '[ ]' : '{ }'}
+                        className="font-mono text-xs border-stone-300"
+                      />
+                    ) : (
+                      <Input
+                        {...control}
+                        value={String(control.value ?? '')}
+                        type={field.type === 'number' ? 'number' : 'text'}
+                        className="border-stone-300 focus:border-stone-500"
+                      />
+                    )}
+                  </FormControl>
+                  <FormDescription className="text-xs">Read by {field.sources.join(', ')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={form.formState.isSubmitting} className="bg-stone-800 hover:bg-stone-900">
+            <Send className="w-4 h-4 mr-2" />
+            {schema.method ? `Send ${schema.method}` : 'Run'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -1,9 +1,21 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, CheckCircle, Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle, Info, Loader2, Play } from 'lucide-react';
+import { WorkflowCanvas } from './WorkflowCanvas';
+import type { ValidationIssue } from '@/services/nodeService';
+import { sampleFetch, WorkflowExecutor, type ExecutionResult } from '@/utils/workflowExecutor';
+import { N8nExpression, type ExpressionResult } from '@/utils/n8nExpression';
+import { samplePlanInput } from '@/utils/workflowPlan';
+
+interface ResolvedExpression extends ExpressionResult {
+  path: string;
+  expression: string;
+  reached: boolean;
+}
 
 interface WorkflowPreviewProps {
   workflow: any;
@@ -13,6 +25,65 @@ interface WorkflowPreviewProps {
 export const WorkflowPreview: React.FC<WorkflowPreviewProps> = ({ workflow, validationResults }) => {
   const errors = validationResults?.issues?.filter((issue: any) => issue.type === 'error') || [];
   const warnings = validationResults?.issues?.filter((issue: any) => issue.type === 'warning') || [];
+  const workflowJson = workflow.json || workflow;
+  const [selectedNodeName, setSelectedNodeName] = useState<string | null>(null);
+  const selectedNode = workflowJson.nodes?.find((node: any) => node.name === selectedNodeName);
+  const selectedNodeIssues: ValidationIssue[] = validationResults?.issues?.filter((issue: ValidationIssue) => issue.nodeName === selectedNodeName) || [];
+
+  const [sampleRun, setSampleRun] = useState<ExecutionResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [resolvedExpressions, setResolvedExpressions] = useState<ResolvedExpression[]>([]);
+  const currentJson = useRef(workflowJson);
+  currentJson.current = workflowJson;
+  const hasExpressions = N8nExpression.collect(selectedNode?.parameters || {}).length > 0;
+
+  useEffect(() => {
+    setSelectedNodeName(null);
+  }, [workflow.id]);
+
+  // A sample run belongs to the workflow it ran on
+  useEffect(() => {
+    setSampleRun(null);
+  }, [workflowJson]);
+
+  // Imported, pasted and template workflows are untrusted, so they only run when asked to
+  const runSample = async () => {
+    const ranOn = workflowJson;
+    setIsRunning(true);
+    try {
+      const result = await WorkflowExecutor.execute(ranOn, samplePlanInput(workflow.plan), { fetchImpl: sampleFetch });
+      if (currentJson.current === ranOn) setSampleRun(result);
+    } catch (error) {
+      console.error('Error running workflow on sample data:', error);
+      setSampleRun(null);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Resolve the selected node's expressions against what the sample run fed into it
+  useEffect(() => {
+    const expressions = selectedNode && sampleRun ? N8nExpression.collect(selectedNode.parameters || {}) : [];
+    if (expressions.length === 0) {
+      setResolvedExpressions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const runs = sampleRun.runData[selectedNode.name];
+    const items = runs?.[0]?.input[0] || [];
+    const data = { items, item: items[0], itemIndex: 0, nodes: WorkflowExecutor.nodeOutputs(sampleRun.runData) };
+
+    N8nExpression.evaluateAll(expressions.map(entry => entry.expression), data)
+      .then(results => results.map((result, index) => ({ ...expressions[index], reached: !!runs, ...result })))
+      .catch(error => expressions.map(entry => ({ ...entry, reached: !!runs, error: error instanceof Error ? error.message : String(error) })))
+      .then(resolved => {
+        if (!cancelled) setResolvedExpressions(resolved);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedNode, sampleRun]);
 
   return (
     <div className="h-full flex flex-col">
@@ -92,29 +163,78 @@ export const WorkflowPreview: React.FC<WorkflowPreviewProps> = ({ workflow, vali
           )}
 
           <div className="space-y-3">
-            <h5 className="text-sm font-medium text-stone-800 uppercase tracking-wide">
-              Flow Structure
-            </h5>
-            
-            {workflow.nodes?.map((node: any, index: number) => (
-              <div key={node.id} className="relative">
-                <Card className="p-3 bg-white hover:bg-stone-50 transition-colors">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-stone-400 rounded-full"></div>
-                    <div className="flex-1">
-                      <p className="text-sm font-medium text-stone-800">{node.name}</p>
-                      <p className="text-xs text-stone-500">{node.type}</p>
-                    </div>
-                  </div>
-                </Card>
-                
-                {index < (workflow.nodes?.length || 0) - 1 && (
-                  <div className="flex justify-center py-2">
-                    <div className="w-px h-4 bg-stone-300"></div>
+            <div className="flex items-center justify-between">
+              <h5 className="text-sm font-medium text-stone-800 uppercase tracking-wide">
+                Flow Structure
+              </h5>
+              <Button variant="outline" size="sm" onClick={runSample} disabled={isRunning}>
+                {isRunning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Play className="w-3 h-3 mr-1" />}
+                Run on sample data
+              </Button>
+            </div>
+            {sampleRun && (
+              <p className={`text-xs ${sampleRun.status === 'error' ? 'text-red-700' : 'text-stone-500'}`}>
+                {sampleRun.status === 'error'
+                  ? `Sample run failed: ${sampleRun.error}`
+                  : `Sample run finished after ${sampleRun.order.length} node runs.`}
+              </p>
+            )}
+
+            <WorkflowCanvas
+              workflow={workflowJson}
+              selectedNode={selectedNodeName}
+              onSelectNode={setSelectedNodeName}
+              issues={validationResults?.issues}
+              className="h-72"
+            />
+
+            {selectedNode ? (
+              <Card className="p-3 bg-white">
+                <p className="text-sm font-medium text-stone-800">{selectedNode.name}</p>
+                <p className="text-xs text-stone-500 mb-2">
+                  {selectedNode.type} · v{selectedNode.typeVersion}
+                </p>
+                {selectedNodeIssues.map((issue, index) => (
+                  <p
+                    key={index}
+                    className={`text-xs mb-1 ${issue.type === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                  >
+                    {issue.message}
+                    {issue.suggestion && <span className="text-stone-500"> — {issue.suggestion}</span>}
+                  </p>
+                ))}
+                <pre className="text-xs text-stone-700 bg-stone-50 rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap break-all">
+                  {JSON.stringify(selectedNode.parameters || {}, null, 2)}
+                </pre>
+                {resolvedExpressions.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-xs font-medium text-stone-800 uppercase tracking-wide">Sample values</p>
+                    {resolvedExpressions.map(resolved => (
+                      <div key={resolved.path} className="text-xs">
+                        <p className="text-stone-500 break-all">{resolved.path}</p>
+                        {resolved.error ? (
+                          <p className="text-red-700 break-all">{resolved.error}</p>
+                        ) : (
+                          <p className="text-stone-800 font-mono break-all">
+                            {resolved.value === undefined ? 'undefined' : JSON.stringify(resolved.value)}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    {!resolvedExpressions[0].reached && (
+                      <p className="text-xs text-stone-500">This node was not reached with sample data, so $json is empty.</p>
+                    )}
                   </div>
                 )}
-              </div>
-            ))}
+                {hasExpressions && !sampleRun && (
+                  <p className="mt-3 text-xs text-stone-500">Run the workflow on sample data to see what its expressions resolve to.</p>
+                )}
+              </Card>
+            ) : (
+              <p className="text-xs text-stone-500">
+                Drag to pan, scroll to zoom, click a node to inspect its parameters and issues.
+              </p>
+            )}
           </div>
 
           <Card className="p-4 bg-gradient-to-r from-stone-800 to-stone-700 text-white">
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RotateCcw } from 'lucide-react';
+import type { WorkflowVersion, WorkflowVersionSource } from '@/hooks/useWorkflowVersions';
+import { WorkflowDiff, type LineChange, type ParameterChange } from '@/utils/workflowDiff';
+
+interface WorkflowVersionHistoryProps {
+  versions: WorkflowVersion[];
+  loading?: boolean;
+  onRollback: (version: WorkflowVersion) => void;
+}
+
+const SOURCE_LABELS: Record<WorkflowVersionSource, string> = {
+  prompt: 'Prompt',
+  manual: 'Manual edit',
+  auto_fix: 'Auto-fix'
+};
+
+const versionLabel = (version: WorkflowVersion) =>
+  `v${version.version_number} · ${SOURCE_LABELS[version.source]} · ${new Date(version.created_at).toLocaleString()}`;
+
+// Changed lines with one line of context either side; longer unchanged runs collapse to "…"
+const LineDiff: React.FC<{ lines: LineChange[] }> = ({ lines }) => {
+  const changed = (index: number) => !!lines[index] && lines[index].kind !== 'unchanged';
+  const visible = lines.map((_line, index) => changed(index - 1) || changed(index) || changed(index + 1));
+
+  return (
+    <div className="bg-white/70 rounded p-1">
+      {lines.map((line, index) => {
+        if (!visible[index]) {
+          return visible[index - 1] ? <p key={index} className="text-stone-400">…</p> : null;
+        }
+        const style = line.kind === 'added' ? 'text-green-700' : line.kind === 'removed' ? 'text-red-700' : 'text-stone-500';
+        const marker = line.kind === 'added' ? '+' : line.kind === 'removed' ? '−' : ' ';
+        return (
+          <p key={index} className={`whitespace-pre-wrap ${style}`}>
+            <span className="inline-block w-8 text-stone-400">{line.afterLine ?? line.beforeLine}</span>
+            {marker} {line.text}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+const ChangeDetail: React.FC<{ change: ParameterChange }> = ({ change }) => (
+  <div className="font-mono break-all">
+    <p className="text-stone-600">{change.path}</p>
+    {change.lines ? (
+      <LineDiff lines={change.lines} />
+    ) : (
+      <>
+        <p className="text-red-700">− {WorkflowDiff.formatValue(change.before)}</p>
+        <p className="text-green-700">+ {WorkflowDiff.formatValue(change.after)}</p>
+      </>
+    )}
+  </div>
+);
+
+export const WorkflowVersionHistory: React.FC<WorkflowVersionHistoryProps> = ({ versions, loading, onRollback }) => {
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Versions arrive newest first; default to comparing the latest against the one before it
+  const latestId = versions[0]?.id || null;
+  const previousId = versions[1]?.id || null;
+  useEffect(() => {
+    setCompareId(latestId);
+    setBaseId(previousId || latestId);
+  }, [latestId, previousId]);
+
+  const base = versions.find(version => version.id === baseId);
+  const compare = versions.find(version => version.id === compareId);
+
+  const diff = useMemo(
+    () => (base && compare ? WorkflowDiff.compare(base.n8n_json, compare.n8n_json) : null),
+    [base, compare]
+  );
+
+  if (loading && versions.length === 0) {
+    return <p className="p-6 text-sm text-stone-600">Loading version history...</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="p-6 text-center">
+        <History className="w-6 h-6 text-stone-400 mx-auto mb-2" />
+        <p className="text-sm text-stone-600">Versions are saved with every prompt, auto-fix and rollback.</p>
+      </div>
+    );
+  }
+
+  const renderSelect = (value: string | null, onChange: (id: string) => void, label: string) => (
+    <div className="space-y-1">
+      <p className="text-xs uppercase tracking-wide text-stone-500">{label}</p>
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Select a version" />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map(version => (
+            <SelectItem key={version.id} value={version.id} className="text-xs">
+              {versionLabel(version)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-6 border-b border-stone-200">
+        <h3 className="text-lg font-light text-stone-800 mb-2">VERSION HISTORY</h3>
+        <p className="text-sm text-stone-600">What changed, and when</p>
+      </div>
+
+      <ScrollArea className="flex-1 p-6">
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {versions.map((version, index) => (
+              <Card key={version.id} className="p-3 bg-white/70 border-stone-200">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-stone-800">v{version.version_number}</span>
+                      <Badge variant="outline" className="text-[10px]">{SOURCE_LABELS[version.source]}</Badge>
+                      {index === 0 && <Badge variant="outline" className="text-[10px] text-green-700 border-green-300">Current</Badge>}
+                    </div>
+                    <p className="text-xs text-stone-500 mt-1">{new Date(version.created_at).toLocaleString()}</p>
+                    {version.summary && <p className="text-xs text-stone-600 mt-1 line-clamp-2">{version.summary}</p>}
+                  </div>
+                  {index > 0 && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onRollback(version)}>
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <div className="space-y-3">
+              <h5 className="text-sm font-medium text-stone-800 uppercase tracking-wide">Compare</h5>
+              {renderSelect(baseId, setBaseId, 'From')}
+              {renderSelect(compareId, setCompareId, 'To')}
+
+              {diff && !WorkflowDiff.hasChanges(diff) && (
+                <p className="text-xs text-stone-500">No structural differences.</p>
+              )}
+
+              {diff && WorkflowDiff.hasChanges(diff) && (
+                <div className="space-y-2 text-xs">
+                  {diff.addedNodes.map(node => (
+                    <div key={`added-${node.name}`} className="p-2 rounded bg-green-50 text-green-800">
+                      + {node.name} <span className="opacity-70">({node.type})</span>
+                    </div>
+                  ))}
+                  {diff.removedNodes.map(node => (
+                    <div key={`removed-${node.name}`} className="p-2 rounded bg-red-50 text-red-800">
+                      − {node.name} <span className="opacity-70">({node.type})</span>
+                    </div>
+                  ))}
+                  {diff.changedNodes.map(node => (
+                    <div key={`changed-${node.name}`} className="p-2 rounded bg-amber-50 text-amber-900 space-y-1">
+                      <p className="font-medium">~ {node.previousName ? `${node.previousName} → ${node.name}` : node.name}</p>
+                      {node.changes.filter(change => change.path !== 'name').map(change => (
+                        <ChangeDetail key={change.path} change={change} />
+                      ))}
+                    </div>
+                  ))}
+                  {diff.addedConnections.map(connection => (
+                    <div key={`connected-${connection.from}-${connection.output}-${connection.to}`} className="p-2 rounded bg-green-50 text-green-800">
+                      + {connection.from}{connection.output > 0 ? ` [${connection.output}]` : ''} → {connection.to}
+                    </div>
+                  ))}
+                  {diff.removedConnections.map(connection => (
+                    <div key={`disconnected-${connection.from}-${connection.output}-${connection.to}`} className="p-2 rounded bg-red-50 text-red-800">
+                      − {connection.from}{connection.output > 0 ? ` [${connection.output}]` : ''} → {connection.to}
+                    </div>
+                  ))}
+                  {diff.settingsChanges.length > 0 && (
+                    <div className="p-2 rounded bg-stone-100 text-stone-800 space-y-1">
+                      <p className="font-medium">Settings</p>
+                      {diff.settingsChanges.map(change => (
+                        <ChangeDetail key={change.path} change={change} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
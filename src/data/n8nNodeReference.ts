@@ -1,5 +1,6 @@
 
 export interface N8nNode {
+  id?: string;
   name: string;
   type: string;
   typeVersion: number;
@@ -7,6 +8,9 @@ export interface N8nNode {
   parameters: Record<string, any>;
   credentials?: Record<string, string>;
   webhookId?: string;
+  disabled?: boolean;
+  continueOnFail?: boolean;
+  onError?: 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput';
 }
 
 export interface N8nConnection {
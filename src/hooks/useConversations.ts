@@ -4,7 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
-interface Conversation {
+export interface Conversation {
   id: string;
   title: string;
   mode: 'build' | 'interact';
@@ -4,8 +4,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
-interface Message {
+export interface StoredMessage {
   id: string;
+  conversation_id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: string;
@@ -13,18 +14,23 @@ interface Message {
 }
 
 export const useMessages = (conversationId?: string) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<StoredMessage[]>([]);
   const [loading, setLoading] = useState(true);
+  // Which conversation the current messages belong to, so callers can tell stale data apart
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
 
   const fetchMessages = async () => {
     if (!user || !conversationId) {
       setMessages([]);
+      setLoadedConversationId(null);
       setLoading(false);
       return;
     }
 
+    setLoading(true);
+
     try {
       const { data, error } = await supabase
         .from('messages')
@@ -43,6 +49,7 @@ export const useMessages = (conversationId?: string) => {
       }
 
       setMessages(data || []);
+      setLoadedConversationId(conversationId);
     } catch (error) {
       console.error('Error fetching messages:', error);
     } finally {
@@ -50,8 +57,9 @@ export const useMessages = (conversationId?: string) => {
     }
   };
 
-  const addMessage = async (content: string, role: 'user' | 'assistant', metadata?: any) => {
-    if (!user || !conversationId) return null;
+  // targetConversationId covers the first turn, saved before the new id reaches this hook
+  const addMessage = async (content: string, role: 'user' | 'assistant', metadata?: any, targetConversationId = conversationId) => {
+    if (!user || !targetConversationId) return null;
 
     try {
       const { data, error } = await supabase
@@ -59,7 +67,7 @@ export const useMessages = (conversationId?: string) => {
         .insert({
           content,
           role,
-          conversation_id: conversationId,
+          conversation_id: targetConversationId,
           user_id: user.id,
           metadata: metadata || {},
         })
@@ -76,7 +84,9 @@ export const useMessages = (conversationId?: string) => {
         return null;
       }
 
-      setMessages(prev => [...prev, data]);
+      if (targetConversationId === conversationId) {
+        setMessages(prev => [...prev, data]);
+      }
       return data;
     } catch (error) {
       console.error('Error adding message:', error);
@@ -91,6 +101,7 @@ export const useMessages = (conversationId?: string) => {
   return {
     messages,
     loading,
+    loadedConversationId,
     addMessage,
     refetch: fetchMessages,
   };
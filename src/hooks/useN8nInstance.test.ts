@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockN8nProxy, startMockN8nServer, type MockN8nServer } from '@/test/mockN8nServer';
+import { useN8nInstance } from './useN8nInstance';
+
+const mocks = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  toast: vi.fn(),
+  user: { id: 'user-1' },
+  row: null as Record<string, unknown> | null
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({ maybeSingle: async () => ({ data: mocks.row, error: null }) }),
+      delete: () => ({ eq: async () => ({ error: null }) })
+    }),
+    functions: { invoke: (name: string, options: { body: Record<string, unknown> }) => mocks.invoke(name, options.body) }
+  }
+}));
+vi.mock('@/contexts/AuthContext', () => ({ useAuth: () => ({ user: mocks.user }) }));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast: mocks.toast }) }));
+
+let server: MockN8nServer;
+
+beforeEach(async () => {
+  server = await startMockN8nServer();
+  mocks.invoke.mockImplementation(mockN8nProxy(server));
+  mocks.toast.mockReset();
+  mocks.row = null;
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+describe('useN8nInstance', () => {
+  it('saves through the proxy and talks to n8n without the key', async () => {
+    const { result } = renderHook(() => useN8nInstance());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.saveInstance(server.baseUrl, server.apiKey);
+    });
+    const created = await result.current.client.createWorkflow({ name: 'Empty', nodes: [], connections: {}, active: false, settings: {} });
+
+    expect(result.current.instance).toMatchObject({ id: 'instance-1', base_url: server.baseUrl });
+    expect(result.current.instance).not.toHaveProperty('api_key');
+    expect(server.workflows.get(created.id)).toMatchObject({ name: 'Empty' });
+  });
+
+  it('shows why a connection was refused', async () => {
+    const { result } = renderHook(() => useN8nInstance());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let saved: unknown;
+    await act(async () => {
+      saved = await result.current.saveInstance(server.baseUrl, 'wrong');
+    });
+
+    expect(saved).toBeNull();
+    expect(result.current.client).toBeNull();
+    expect(mocks.toast).toHaveBeenCalledWith(expect.objectContaining({ description: 'n8n rejected the API key' }));
+  });
+
+  it('loads the stored connection', async () => {
+    mocks.row = { id: 'instance-1', base_url: server.baseUrl, created_at: '', updated_at: '' };
+
+    const { result } = renderHook(() => useN8nInstance());
+    await waitFor(() => expect(result.current.instance).not.toBeNull());
+
+    await act(async () => {
+      await result.current.deleteInstance();
+    });
+    expect(result.current.instance).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { edgeFunctionErrorMessage } from '@/services/edgeFunctions';
+import { N8N_PROXY_FUNCTION, N8nApiClient } from '@/services/n8nApiClient';
+
+// The API key is never read back; it stays encrypted server-side
+export interface N8nInstance {
+  id: string;
+  base_url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const useN8nInstance = () => {
+  const [instance, setInstance] = useState<N8nInstance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchInstance = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('n8n_instances')
+        .select('id, base_url, created_at, updated_at')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching n8n instance:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load n8n connection",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setInstance(data);
+    } catch (error) {
+      console.error('Error fetching n8n instance:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // n8n-proxy tests the key against the instance before storing it
+  const saveInstance = async (baseUrl: string, apiKey: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.functions.invoke(N8N_PROXY_FUNCTION, {
+        body: { action: 'connect', baseUrl, apiKey },
+      });
+
+      if (error) {
+        console.error('Error saving n8n instance:', error);
+        toast({
+          title: "Connection Failed",
+          description: await edgeFunctionErrorMessage(error),
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      const saved = (data as { instance: N8nInstance }).instance;
+      setInstance(saved);
+      return saved;
+    } catch (error) {
+      console.error('Error saving n8n instance:', error);
+      return null;
+    }
+  };
+
+  const deleteInstance = async () => {
+    if (!instance) return false;
+
+    try {
+      const { error } = await supabase
+        .from('n8n_instances')
+        .delete()
+        .eq('id', instance.id);
+
+      if (error) {
+        console.error('Error deleting n8n instance:', error);
+        return false;
+      }
+
+      setInstance(null);
+      return true;
+    } catch (error) {
+      console.error('Error deleting n8n instance:', error);
+      return false;
+    }
+  };
+
+  const client = useMemo(
+    () => (instance ? N8nApiClient.viaProxy(instance.base_url) : null),
+    [instance]
+  );
+
+  useEffect(() => {
+    fetchInstance();
+  }, [user]);
+
+  return {
+    instance,
+    client,
+    loading,
+    saveInstance,
+    deleteInstance,
+    refetch: fetchInstance,
+  };
+};
@@ -1,8 +1,17 @@
 
 import { useState } from 'react';
-import { NodeSeeder } from '@/utils/nodeSeeder';
+import { NodeSeeder, type NodeSeedFailure } from '@/utils/nodeSeeder';
+import { NodeDescriptionImporter } from '@/utils/nodeDescriptionImporter';
+import { NodeService } from '@/services/nodeService';
 import { useToast } from '@/hooks/use-toast';
 
+// Names a few of the failed nodes and every distinct reason, e.g. missing catalog admin rights
+const describeFailures = (failed: NodeSeedFailure[]): string => {
+  const nodes = failed.slice(0, 3).map(failure => failure.node).join(', ');
+  const reasons = [...new Set(failed.map(failure => failure.reason))].join('; ');
+  return `${failed.length} failed (${nodes}${failed.length > 3 ? '…' : ''}): ${reasons}.`;
+};
+
 export const useNodeSeeding = () => {
   const [isSeeding, setIsSeeding] = useState(false);
   const [seedingProgress, setSeedingProgress] = useState<string>('');
@@ -14,7 +23,10 @@ export const useNodeSeeding = () => {
 
     try {
       setSeedingProgress('Seeding node definitions...');
-      await NodeSeeder.seedNodeDefinitions();
+      const { failed } = await NodeSeeder.seedNodeDefinitions();
+      if (failed.length > 0) {
+        throw new Error(`Node definitions: ${describeFailures(failed)}`);
+      }
       
       setSeedingProgress('Seeding workflow templates...');
       await NodeSeeder.seedWorkflowTemplates();
@@ -32,7 +44,42 @@ export const useNodeSeeding = () => {
       
       toast({
         title: "Seeding Error",
-        description: "Failed to seed database with node definitions",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSeeding(false);
+    }
+  };
+
+  // Loads n8n's own node descriptions, e.g. n8n-nodes-base/dist/types/nodes.json
+  const importNodeDescriptions = async (file: File) => {
+    setIsSeeding(true);
+    setSeedingProgress(`Reading node definitions from ${file.name}...`);
+
+    try {
+      const { definitions, skipped } = NodeDescriptionImporter.parse(await file.text());
+      setSeedingProgress(`Importing ${definitions.length} node definitions...`);
+      const { saved, failed } = await NodeSeeder.saveNodeDefinitions(definitions);
+      NodeService.invalidateCache();
+
+      setSeedingProgress(failed.length > 0 ? 'Import finished with errors' : 'Import completed successfully!');
+      toast({
+        title: "Node Catalog Imported",
+        description: [
+          `${saved} node definition(s) saved.`,
+          failed.length > 0 ? describeFailures(failed) : '',
+          skipped > 0 ? `${skipped} entr${skipped === 1 ? 'y was' : 'ies were'} not node descriptions.` : ''
+        ].filter(Boolean).join(' '),
+        variant: failed.length > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      console.error('Node import error:', error);
+      setSeedingProgress('Import failed');
+
+      toast({
+        title: "Import Error",
+        description: (error as Error).message,
         variant: "destructive"
       });
     } finally {
@@ -43,6 +90,7 @@ export const useNodeSeeding = () => {
   return {
     isSeeding,
     seedingProgress,
-    seedDatabase
+    seedDatabase,
+    importNodeDescriptions
   };
 };
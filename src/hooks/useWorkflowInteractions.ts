@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+
+export type InteractionStatus = 'success' | 'error';
+
+export interface WorkflowInteraction {
+  id: string;
+  workflow_id: string;
+  input_data: Json | null;
+  output_data: Json | null;
+  execution_time_ms: number | null;
+  status: InteractionStatus;
+  timestamp: string;
+}
+
+export interface RecordInteractionInput {
+  input_data: Json;
+  output_data: Json;
+  execution_time_ms: number;
+  status: InteractionStatus;
+}
+
+export const useWorkflowInteractions = (workflowId?: string) => {
+  const [interactions, setInteractions] = useState<WorkflowInteraction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchInteractions = async () => {
+    if (!user || !workflowId) {
+      setInteractions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workflow_interactions')
+        .select('*')
+        .eq('workflow_id', workflowId)
+        .order('timestamp', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching workflow interactions:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load workflow runs",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setInteractions(data || []);
+    } catch (error) {
+      console.error('Error fetching workflow interactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recordInteraction = async (interaction: RecordInteractionInput) => {
+    if (!user || !workflowId) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('workflow_interactions')
+        .insert({
+          ...interaction,
+          workflow_id: workflowId,
+          user_id: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording workflow interaction:', error);
+        return null;
+      }
+
+      setInteractions(prev => [data, ...prev]);
+      return data;
+    } catch (error) {
+      console.error('Error recording workflow interaction:', error);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    fetchInteractions();
+  }, [user, workflowId]);
+
+  return {
+    interactions,
+    loading,
+    recordInteraction,
+    refetch: fetchInteractions,
+  };
+};
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { NodeService, type WorkflowTemplate } from '@/services/nodeService';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+export type TemplateDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface SaveTemplateInput {
+  name: string;
+  description: string;
+  category: string;
+  tags: string[];
+  useCase?: string;
+  difficulty: TemplateDifficulty;
+  isPublic: boolean;
+}
+
+// Public templates and the user's own, most used first
+export const useWorkflowTemplates = () => {
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchTemplates = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('workflow_templates')
+        .select('*')
+        .order('usage_count', { ascending: false })
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching workflow templates:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load templates",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching workflow templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTemplate = async (input: SaveTemplateInput, workflow: N8nWorkflow) => {
+    if (!user) return null;
+
+    try {
+      const template = await NodeService.saveWorkflowAsTemplate(
+        input.name,
+        input.description,
+        workflow,
+        input.category,
+        input.tags,
+        input.useCase,
+        input.difficulty,
+        input.isPublic
+      );
+      setTemplates(prev => [...prev, template]);
+      return template;
+    } catch (error) {
+      console.error('Error saving workflow template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  // Usage is counted on a best-effort basis; a failed count never blocks using the template
+  const recordUsage = async (templateId: string) => {
+    try {
+      const usageCount = await NodeService.incrementTemplateUsage(templateId);
+      if (usageCount !== null) {
+        setTemplates(prev => prev.map(template =>
+          template.id === templateId ? { ...template, usage_count: usageCount } : template
+        ));
+      }
+    } catch (error) {
+      console.error('Error recording template usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [user]);
+
+  return {
+    templates,
+    loading,
+    saveTemplate,
+    recordUsage,
+    refetch: fetchTemplates,
+  };
+};
@@ -0,0 +1,120 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+export type WorkflowVersionSource = 'prompt' | 'manual' | 'auto_fix';
+
+export interface WorkflowVersion {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  version_number: number;
+  n8n_json: N8nWorkflow;
+  source: WorkflowVersionSource;
+  summary?: string | null;
+  created_at: string;
+}
+
+export const useWorkflowVersions = (workflowId?: string) => {
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // Read when an insert finishes, since the workflow shown may have changed while it was in flight
+  const workflowIdRef = useRef(workflowId);
+  workflowIdRef.current = workflowId;
+
+  const fetchVersions = async () => {
+    if (!user || !workflowId) {
+      setVersions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .select('*')
+        .eq('workflow_id', workflowId)
+        .order('version_number', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching workflow versions:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load version history",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // n8n_json is stored as generic JSON; versions are only ever written from N8nWorkflow objects
+      setVersions((data || []) as unknown as WorkflowVersion[]);
+    } catch (error) {
+      console.error('Error fetching workflow versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // targetWorkflowId covers a workflow saved in the same turn, before its id reaches this hook
+  const createVersion = async (
+    n8nJson: N8nWorkflow,
+    source: WorkflowVersionSource,
+    summary?: string,
+    targetWorkflowId = workflowId
+  ) => {
+    if (!user || !targetWorkflowId) return null;
+
+    try {
+      // version_number is assigned by the database, so concurrent saves cannot collide
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .insert({
+          workflow_id: targetWorkflowId,
+          user_id: user.id,
+          n8n_json: n8nJson as unknown as Json,
+          source,
+          summary,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating workflow version:', error);
+        toast({
+          title: "Error",
+          description: "Failed to save workflow version",
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      const version = data as unknown as WorkflowVersion;
+      if (targetWorkflowId === workflowIdRef.current) {
+        // Concurrent saves can finish out of order, so keep the list newest first by number
+        setVersions(prev => prev.some(existing => existing.id === version.id)
+          ? prev
+          : [version, ...prev].sort((a, b) => b.version_number - a.version_number));
+      }
+      return version;
+    } catch (error) {
+      console.error('Error creating workflow version:', error);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [user, workflowId]);
+
+  return {
+    versions,
+    loading,
+    createVersion,
+    refetch: fetchVersions,
+  };
+};
@@ -4,25 +4,30 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
-interface Workflow {
+export type WorkflowStatus = 'draft' | 'deployed' | 'active';
+
+export interface Workflow {
   id: string;
   name: string;
   description?: string;
   n8n_json?: any;
   frontend_code?: string;
   webhook_url?: string;
-  status: 'draft' | 'deployed' | 'active';
+  n8n_workflow_id?: string | null;
+  status: WorkflowStatus;
   is_public: boolean;
+  conversation_id?: string | null;
   created_at: string;
 }
 
-interface CreateWorkflowInput {
+export interface CreateWorkflowInput {
   name: string;
   description?: string;
   n8n_json?: any;
   frontend_code?: string;
   webhook_url?: string;
-  status?: 'draft' | 'deployed' | 'active';
+  n8n_workflow_id?: string;
+  status?: WorkflowStatus;
   is_public?: boolean;
   conversation_id?: string;
 }
@@ -72,6 +77,7 @@ export const useWorkflows = () => {
           n8n_json: workflow.n8n_json,
           frontend_code: workflow.frontend_code,
           webhook_url: workflow.webhook_url,
+          n8n_workflow_id: workflow.n8n_workflow_id,
           status: workflow.status || 'draft',
           is_public: workflow.is_public || false,
           conversation_id: workflow.conversation_id,
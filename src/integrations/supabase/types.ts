@@ -9,6 +9,21 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      catalog_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       conversations: {
         Row: {
           created_at: string
@@ -89,10 +104,46 @@ export type Database = {
           },
         ]
       }
+      n8n_instances: {
+        Row: {
+          api_key_secret_id: string
+          base_url: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          api_key_secret_id: string
+          base_url: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          api_key_secret_id?: string
+          base_url?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "n8n_instances_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       node_definitions: {
         Row: {
           category: string | null
           created_at: string
+          credentials: Json
           deprecated: boolean
           description: string | null
           display_name: string
@@ -102,12 +153,14 @@ export type Database = {
           node_type: string
           parameters_schema: Json | null
           replaced_by: string | null
+          type_versions: Json
           updated_at: string
-          version: string | null
+          version: string
         }
         Insert: {
           category?: string | null
           created_at?: string
+          credentials?: Json
           deprecated?: boolean
           description?: string | null
           display_name: string
@@ -117,12 +170,14 @@ export type Database = {
           node_type: string
           parameters_schema?: Json | null
           replaced_by?: string | null
+          type_versions?: Json
           updated_at?: string
-          version?: string | null
+          version?: string
         }
         Update: {
           category?: string | null
           created_at?: string
+          credentials?: Json
           deprecated?: boolean
           description?: string | null
           display_name?: string
@@ -132,8 +187,9 @@ export type Database = {
           node_type?: string
           parameters_schema?: Json | null
           replaced_by?: string | null
+          type_versions?: Json
           updated_at?: string
-          version?: string | null
+          version?: string
         }
         Relationships: []
       }
@@ -141,33 +197,42 @@ export type Database = {
         Row: {
           default_value: string | null
           description: string | null
+          display_name: string | null
+          display_options: Json
           id: string
           node_definition_id: string
           options: Json | null
           parameter_name: string
           parameter_type: string
+          position: number
           required: boolean
           validation_rules: Json | null
         }
         Insert: {
           default_value?: string | null
           description?: string | null
+          display_name?: string | null
+          display_options?: Json
           id?: string
           node_definition_id: string
           options?: Json | null
           parameter_name: string
           parameter_type: string
+          position?: number
           required?: boolean
           validation_rules?: Json | null
         }
         Update: {
           default_value?: string | null
           description?: string | null
+          display_name?: string | null
+          display_options?: Json
           id?: string
           node_definition_id?: string
           options?: Json | null
           parameter_name?: string
           parameter_type?: string
+          position?: number
           required?: boolean
           validation_rules?: Json | null
         }
@@ -267,6 +332,7 @@ export type Database = {
           usage_count: number
           use_case: string | null
           user_id: string
+          variables: Json
         }
         Insert: {
           category?: string | null
@@ -281,6 +347,7 @@ export type Database = {
           usage_count?: number
           use_case?: string | null
           user_id: string
+          variables?: Json
         }
         Update: {
           category?: string | null
@@ -295,6 +362,7 @@ export type Database = {
           usage_count?: number
           use_case?: string | null
           user_id?: string
+          variables?: Json
         }
         Relationships: [
           {
@@ -306,6 +374,54 @@ export type Database = {
           },
         ]
       }
+      workflow_versions: {
+        Row: {
+          created_at: string
+          id: string
+          n8n_json: Json
+          source: Database["public"]["Enums"]["workflow_version_source"]
+          summary: string | null
+          user_id: string
+          version_number: number
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          n8n_json?: Json
+          source: Database["public"]["Enums"]["workflow_version_source"]
+          summary?: string | null
+          user_id: string
+          version_number?: number
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          n8n_json?: Json
+          source?: Database["public"]["Enums"]["workflow_version_source"]
+          summary?: string | null
+          user_id?: string
+          version_number?: number
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_versions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_versions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflows: {
         Row: {
           conversation_id: string | null
@@ -315,6 +431,7 @@ export type Database = {
           id: string
           is_public: boolean
           n8n_json: Json | null
+          n8n_workflow_id: string | null
           name: string
           status: Database["public"]["Enums"]["workflow_status"]
           user_id: string
@@ -328,6 +445,7 @@ export type Database = {
           id?: string
           is_public?: boolean
           n8n_json?: Json | null
+          n8n_workflow_id?: string | null
           name: string
           status?: Database["public"]["Enums"]["workflow_status"]
           user_id: string
@@ -341,6 +459,7 @@ export type Database = {
           id?: string
           is_public?: boolean
           n8n_json?: Json | null
+          n8n_workflow_id?: string | null
           name?: string
           status?: Database["public"]["Enums"]["workflow_status"]
           user_id?: string
@@ -368,7 +487,32 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_n8n_connection: {
+        Args: { p_user_id: string }
+        Returns: {
+          api_key: string
+          base_url: string
+        }[]
+      }
+      increment_template_usage: {
+        Args: { template_id: string }
+        Returns: number
+      }
+      is_catalog_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      save_n8n_instance: {
+        Args: { p_user_id: string; p_base_url: string; p_api_key: string }
+        Returns: {
+          api_key_secret_id: string
+          base_url: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       conversation_mode: "build" | "interact"
@@ -376,6 +520,7 @@ export type Database = {
       message_role: "user" | "assistant"
       subscription_tier: "free" | "pro"
       workflow_status: "draft" | "deployed" | "active"
+      workflow_version_source: "prompt" | "manual" | "auto_fix"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -496,6 +641,7 @@ export const Constants = {
       message_role: ["user", "assistant"],
       subscription_tier: ["free", "pro"],
       workflow_status: ["draft", "deployed", "active"],
+      workflow_version_source: ["prompt", "manual", "auto_fix"],
     },
   },
 } as const
@@ -1,30 +1,79 @@
-
 import React, { useState } from 'react';
 import { Header } from '@/components/Header';
 import { BuildMode } from '@/components/BuildMode';
 import { InteractMode } from '@/components/InteractMode';
 import { Sidebar } from '@/components/Sidebar';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { useConversations } from '@/hooks/useConversations';
+import { useWorkflows } from '@/hooks/useWorkflows';
+import { useN8nInstance } from '@/hooks/useN8nInstance';
 
 const Index = () => {
   const [currentMode, setCurrentMode] = useState<'build' | 'interact'>('build');
-  const [workflows, setWorkflows] = useState([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const { conversations, createConversation, updateConversation, deleteConversation } = useConversations();
+  const { workflows, loading: workflowsLoading, createWorkflow, updateWorkflow } = useWorkflows();
+  const { instance: n8nInstance, client: n8nClient, saveInstance, deleteInstance } = useN8nInstance();
+
+  // Most recently continued first; updateConversation only patches updated_at in place
+  const buildConversations = conversations
+    .filter(conversation => conversation.mode === 'build')
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+  const handleCreateConversation = async (title: string) => {
+    const conversation = await createConversation(title, 'build');
+    return conversation?.id ?? null;
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    const deleted = await deleteConversation(id);
+    if (deleted && id === activeConversationId) {
+      setActiveConversationId(null);
+    }
+  };
 
   return (
     <ProtectedRoute>
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-stone-100">
-        <Header currentMode={currentMode} onModeChange={setCurrentMode} />
+        <Header
+          currentMode={currentMode}
+          onModeChange={setCurrentMode}
+          n8nInstance={n8nInstance}
+          onSaveN8nInstance={saveInstance}
+          onDisconnectN8n={deleteInstance}
+        />
         
         <div className="flex h-screen pt-16">
           <main className="flex-1 flex">
             {currentMode === 'build' ? (
-              <BuildMode workflows={workflows} onWorkflowCreate={setWorkflows} />
+              <BuildMode
+                workflows={workflows}
+                onCreateWorkflow={createWorkflow}
+                onUpdateWorkflow={updateWorkflow}
+                n8nClient={n8nClient}
+                conversationId={activeConversationId}
+                onCreateConversation={handleCreateConversation}
+                onConversationStarted={setActiveConversationId}
+                onTurnSaved={id => updateConversation(id, { updated_at: new Date().toISOString() })}
+              />
             ) : (
-              <InteractMode workflows={workflows} />
+              <InteractMode
+                workflows={workflows}
+                loading={workflowsLoading}
+                onUpdateWorkflow={updateWorkflow}
+                n8nClient={n8nClient}
+              />
             )}
           </main>
           
-          <Sidebar currentMode={currentMode} />
+          <Sidebar
+            currentMode={currentMode}
+            conversations={buildConversations}
+            activeConversationId={activeConversationId}
+            onSelectConversation={setActiveConversationId}
+            onNewConversation={() => setActiveConversationId(null)}
+            onDeleteConversation={handleDeleteConversation}
+          />
         </div>
       </div>
     </ProtectedRoute>
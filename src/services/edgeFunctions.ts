@@ -0,0 +1,20 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Calls a Supabase edge function; secrets such as API keys stay on the function's side
+export type EdgeFunctionInvoker = (functionName: string, body: Record<string, unknown>) => Promise<{ data: unknown; error: unknown }>;
+
+export const invokeEdgeFunction: EdgeFunctionInvoker = (functionName, body) => supabase.functions.invoke(functionName, { body });
+
+// Non-2xx responses surface as a FunctionsHttpError whose context is the function's Response
+export const edgeFunctionErrorMessage = async (error: unknown): Promise<string> => {
+  const context = (error as { context?: unknown })?.context;
+  if (context instanceof Response) {
+    try {
+      const body = await context.json();
+      if (typeof body?.error === 'string') return body.error;
+    } catch {
+      // Not a JSON body; fall back to the client's message
+    }
+  }
+  return error instanceof Error ? error.message : String(error);
+};
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { mockN8nProxy, startMockN8nServer, type MockN8nServer } from '@/test/mockN8nServer';
+import { N8nApiClient } from './n8nApiClient';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}): N8nNode => ({
+  id: '',
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+const workflow = {
+  name: 'Orders',
+  active: false,
+  nodes: [node('Webhook', 'n8n-nodes-base.webhook', { path: '/orders' }), node('Reply', 'n8n-nodes-base.respondToWebhook')],
+  connections: { Webhook: { main: [[{ node: 'Reply', type: 'main', index: 0 }]] } },
+  settings: {},
+  tags: ['sales']
+} as N8nWorkflow;
+
+let server: MockN8nServer;
+
+beforeEach(async () => {
+  server = await startMockN8nServer();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+describe('N8nApiClient', () => {
+  it('sends the API key and only the writable workflow fields', async () => {
+    const client = new N8nApiClient({ baseUrl: `${server.baseUrl}/api/v1/`, apiKey: server.apiKey });
+
+    const created = await client.createWorkflow(workflow);
+    await client.activateWorkflow(created.id);
+
+    expect(server.requests[0].headers['x-n8n-api-key']).toBe(server.apiKey);
+    expect(Object.keys(server.requests[0].body as object).sort()).toEqual(['connections', 'name', 'nodes', 'settings']);
+    expect((server.requests[0].body as N8nWorkflow).nodes.every(sent => sent.id)).toBe(true);
+    expect(server.workflows.get(created.id)?.active).toBe(true);
+  });
+
+  it('drops unset query options', async () => {
+    const client = new N8nApiClient({ baseUrl: server.baseUrl, apiKey: server.apiKey });
+
+    const page = await client.listExecutions({ workflowId: '3', limit: 5, cursor: undefined });
+
+    expect(server.requests[0].url).toBe('/api/v1/executions?workflowId=3&limit=5');
+    expect(page.data[0]).toMatchObject({ workflowId: '3', status: 'success' });
+  });
+
+  it('explains rejected keys, failed requests and unreachable instances', async () => {
+    await expect(new N8nApiClient({ baseUrl: server.baseUrl, apiKey: 'wrong' }).testConnection())
+      .rejects.toThrow('n8n rejected the API key: unauthorized');
+    await expect(new N8nApiClient({ baseUrl: server.baseUrl, apiKey: server.apiKey }).getWorkflow('missing'))
+      .rejects.toThrow('n8n request GET /workflows/missing failed with status 404: Not Found');
+
+    const unreachable = new N8nApiClient({ baseUrl: 'http://127.0.0.1:9', apiKey: server.apiKey });
+    await expect(unreachable.testConnection()).rejects.toThrow(/^Could not reach n8n at http:\/\/127\.0\.0\.1:9/);
+  });
+
+  it('builds production webhook URLs from the instance URL', () => {
+    const client = new N8nApiClient({ baseUrl: 'https://n8n.example.com/', apiKey: 'key' });
+
+    expect(client.webhookUrls(workflow)).toEqual(['https://n8n.example.com/webhook/orders']);
+    expect(N8nApiClient.canActivate(workflow)).toBe(true);
+    expect(N8nApiClient.canActivate({ nodes: [node('Start', 'n8n-nodes-base.manualTrigger')] })).toBe(false);
+  });
+
+  it('goes through the proxy without holding the key', async () => {
+    const invoke = mockN8nProxy(server);
+    await invoke('n8n-proxy', { action: 'connect', baseUrl: server.baseUrl, apiKey: server.apiKey });
+    const client = N8nApiClient.viaProxy(server.baseUrl, invoke);
+
+    const created = await client.createWorkflow(workflow);
+    const updated = await client.updateWorkflow(created.id, { ...workflow, name: 'Orders v2' });
+
+    expect(updated.name).toBe('Orders v2');
+    await expect(client.getWorkflow('missing')).rejects.toThrow('failed with status 404');
+    await expect(N8nApiClient.viaProxy(server.baseUrl, mockN8nProxy(server)).testConnection())
+      .rejects.toThrow('No n8n instance is connected');
+  });
+});
@@ -0,0 +1,210 @@
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+import { edgeFunctionErrorMessage, invokeEdgeFunction, type EdgeFunctionInvoker } from './edgeFunctions';
+
+export type N8nQuery = Record<string, string | number | boolean | undefined>;
+
+export interface N8nApiRequest {
+  method: string;
+  path: string;
+  query: N8nQuery;
+  body?: unknown;
+}
+
+// The upstream status and parsed body; transports only throw when n8n could not be reached
+export interface N8nApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export type N8nTransport = (request: N8nApiRequest) => Promise<N8nApiResponse>;
+
+// Talks to n8n directly with the key, or through a transport such as the n8n-proxy function
+export interface N8nApiConfig {
+  baseUrl: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+  transport?: N8nTransport;
+}
+
+export interface N8nRemoteWorkflow extends N8nWorkflow {
+  id: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type N8nExecutionStatus = 'success' | 'error' | 'crashed' | 'running' | 'waiting' | 'canceled' | 'new' | 'unknown';
+
+export interface N8nExecution {
+  id: string;
+  workflowId: string;
+  finished: boolean;
+  mode: string;
+  status?: N8nExecutionStatus;
+  startedAt: string;
+  stoppedAt?: string | null;
+  data?: unknown;
+}
+
+export interface N8nPage<T> {
+  data: T[];
+  nextCursor?: string | null;
+}
+
+export interface ListExecutionsOptions {
+  workflowId?: string;
+  status?: 'success' | 'error' | 'waiting';
+  includeData?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+// Fields the public API accepts when creating or updating a workflow; anything else is rejected
+const WRITABLE_FIELDS = ['name', 'nodes', 'connections', 'settings', 'staticData'] as const;
+
+// Trigger types that can be activated on their own; a manual trigger alone cannot
+const ACTIVATABLE_TRIGGER = /(webhook|trigger|cron|schedule|interval|poll)$/i;
+
+export const N8N_PROXY_FUNCTION = 'n8n-proxy';
+
+// Client for the n8n public REST API (/api/v1), authenticated with a per-user API key
+export class N8nApiClient {
+  private readonly baseUrl: string;
+  private readonly transport: N8nTransport;
+
+  constructor(private readonly config: N8nApiConfig) {
+    this.baseUrl = N8nApiClient.normalizeBaseUrl(config.baseUrl);
+    this.transport = config.transport || (request => this.fetchDirect(request));
+  }
+
+  // Browsers cannot call n8n themselves (CORS, and the key stays server-side), so they go through the proxy
+  static viaProxy(baseUrl: string, invoke: EdgeFunctionInvoker = invokeEdgeFunction): N8nApiClient {
+    return new N8nApiClient({
+      baseUrl,
+      transport: async request => {
+        const { data, error } = await invoke(N8N_PROXY_FUNCTION, { action: 'request', ...request });
+        if (error) {
+          throw new Error(await edgeFunctionErrorMessage(error));
+        }
+        return data as N8nApiResponse;
+      }
+    });
+  }
+
+  // Accepts the editor URL as users copy it, with or without a trailing /api/v1
+  static normalizeBaseUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+  }
+
+  static canActivate(workflow: Pick<N8nWorkflow, 'nodes'>): boolean {
+    return (workflow.nodes || []).some(node =>
+      !node.disabled && node.type !== 'n8n-nodes-base.manualTrigger' && ACTIVATABLE_TRIGGER.test(node.type)
+    );
+  }
+
+  // Production webhook URLs of every Webhook node on this instance, in node order
+  webhookUrls(workflow: Pick<N8nWorkflow, 'nodes'>): string[] {
+    return (workflow.nodes || [])
+      .filter(node => node.type === 'n8n-nodes-base.webhook' && !node.disabled)
+      .map(node => String(node.parameters?.path || node.webhookId || '').replace(/^\/+/, ''))
+      .filter(path => path.length > 0)
+      .map(path => `${this.baseUrl}/webhook/${path}`);
+  }
+
+  async testConnection(): Promise<void> {
+    await this.listWorkflows({ limit: 1 });
+  }
+
+  listWorkflows(options: { active?: boolean; limit?: number; cursor?: string } = {}): Promise<N8nPage<N8nRemoteWorkflow>> {
+    return this.request('GET', '/workflows', undefined, options);
+  }
+
+  getWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('GET', `/workflows/${encodeURIComponent(id)}`);
+  }
+
+  createWorkflow(workflow: N8nWorkflow): Promise<N8nRemoteWorkflow> {
+    return this.request('POST', '/workflows', N8nApiClient.toPayload(workflow));
+  }
+
+  updateWorkflow(id: string, workflow: N8nWorkflow): Promise<N8nRemoteWorkflow> {
+    return this.request('PUT', `/workflows/${encodeURIComponent(id)}`, N8nApiClient.toPayload(workflow));
+  }
+
+  activateWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('POST', `/workflows/${encodeURIComponent(id)}/activate`);
+  }
+
+  deactivateWorkflow(id: string): Promise<N8nRemoteWorkflow> {
+    return this.request('POST', `/workflows/${encodeURIComponent(id)}/deactivate`);
+  }
+
+  listExecutions(options: ListExecutionsOptions = {}): Promise<N8nPage<N8nExecution>> {
+    return this.request('GET', '/executions', undefined, { ...options });
+  }
+
+  getExecution(id: string, includeData = false): Promise<N8nExecution> {
+    return this.request('GET', `/executions/${encodeURIComponent(id)}`, undefined, { includeData });
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, query: N8nQuery = {}): Promise<T> {
+    const response = await this.transport({ method, path, query, body });
+
+    if (response.status < 200 || response.status >= 300) {
+      const message = (response.body as { message?: unknown } | null)?.message;
+      const detail = typeof message === 'string' ? `: ${message}` : '';
+      if (response.status === 401) {
+        throw new Error(`n8n rejected the API key${detail}`);
+      }
+      throw new Error(`n8n request ${method} ${path} failed with status ${response.status}${detail}`);
+    }
+
+    return response.body as T;
+  }
+
+  private async fetchDirect({ method, path, query, body }: N8nApiRequest): Promise<N8nApiResponse> {
+    const fetchImpl = this.config.fetchImpl || fetch;
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${this.baseUrl}/api/v1${path}${search ? `?${search}` : ''}`, {
+        method,
+        headers: {
+          'Accept': 'application/json',
+          'X-N8N-API-KEY': this.config.apiKey || '',
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+    } catch (error) {
+      throw new Error(`Could not reach n8n at ${this.baseUrl}: ${(error as Error).message}`);
+    }
+
+    const text = await response.text();
+    try {
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    } catch {
+      // Error bodies are not always JSON
+      return { status: response.status, body: null };
+    }
+  }
+
+  // Only writable fields are sent; node ids are filled in since the editor relies on them
+  private static toPayload(workflow: N8nWorkflow): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+    WRITABLE_FIELDS.forEach(field => {
+      if (workflow[field] !== undefined) payload[field] = workflow[field];
+    });
+
+    return {
+      ...payload,
+      nodes: (workflow.nodes || []).map(node => ({ ...node, id: node.id || crypto.randomUUID() })),
+      connections: workflow.connections || {},
+      settings: workflow.settings || {}
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { NodeDefinitionSeed } from '@/utils/nodeSeeder';
+import { NodeService } from './nodeService';
+
+const catalog = vi.hoisted(() => ({ extra: [] as Array<{ node_type: string; parameterCount: number }> }));
+
+// The seeded catalog plus any extra definitions, served the way PostgREST does: at most 1000 rows
+// per response
+vi.mock('@/integrations/supabase/client', () => {
+  const rows = async (table: string) => {
+    const { NodeSeeder } = await import('@/utils/nodeSeeder');
+    const seeds = ([
+      ...NodeSeeder.COMPREHENSIVE_NODE_DEFINITIONS,
+      ...catalog.extra.map(({ node_type, parameterCount }) => ({
+        node_type,
+        display_name: node_type,
+        category: 'Test',
+        description: '',
+        version: '1',
+        parameters_schema: {},
+        example_config: {},
+        parameters: Array.from({ length: parameterCount }, (_, index) => ({
+          parameter_name: `field${index}`,
+          parameter_type: 'string',
+          required: true,
+          description: ''
+        }))
+      }))
+    ] as NodeDefinitionSeed[]).map((seed, index) => ({ ...seed, id: `definition-${index}` }));
+    if (table === 'node_definitions') {
+      return seeds.map(({ parameters, ...definition }) => ({ ...definition, type_versions: definition.type_versions || [Number(definition.version)] }));
+    }
+    if (table === 'node_parameters') {
+      return seeds.flatMap(seed => seed.parameters.map((parameter, position) => ({ ...parameter, node_definition_id: seed.id, position })));
+    }
+    return [];
+  };
+  return {
+    supabase: {
+      from: (table: string) => {
+        let window: [number, number] = [0, 999];
+        const query = {
+          select: () => query,
+          order: () => query,
+          eq: () => query,
+          range: (from: number, to: number) => {
+            window = [from, Math.min(to, from + 999)];
+            return query;
+          },
+          then: (resolve: (result: { data: unknown[]; error: null }) => void) =>
+            rows(table).then(data => resolve({ data: data.slice(window[0], window[1] + 1), error: null }))
+        };
+        return query;
+      }
+    }
+  };
+});
+
+const node = (type: string, typeVersion: number, parameters: Record<string, unknown>) => ({ id: 'node-1', name: 'Node', type, typeVersion, parameters });
+
+describe('NodeService.validateNode', () => {
+  it('checks current Set and HTTP Request versions against their own layouts', async () => {
+    const set = await NodeService.validateNode(node('n8n-nodes-base.set', 3.4, {
+      mode: 'manual',
+      assignments: { assignments: [{ id: 'a', name: 'status', value: 'done', type: 'string' }] },
+      includeOtherFields: true,
+      options: {}
+    }));
+    const http = await NodeService.validateNode(node('n8n-nodes-base.httpRequest', 4.2, { method: 'GET', url: 'https://example.com' }));
+
+    expect(set).toEqual([]);
+    expect(http).toEqual([]);
+  });
+
+  it('only warns about versions the catalog does not list', async () => {
+    const issues = await NodeService.validateNode(node('n8n-nodes-base.set', 3.9, { assignments: {} }));
+
+    expect(issues).toEqual([expect.objectContaining({
+      type: 'warning',
+      message: 'Node "Node" uses typeVersion 3.9 of "n8n-nodes-base.set", which is not in the node catalog, so its parameters were not checked.'
+    })]);
+  });
+
+  it('still reports missing parameters for catalogued versions', async () => {
+    const issues = await NodeService.validateNode(node('n8n-nodes-base.set', 3.2, {}));
+
+    expect(issues.map(issue => issue.message)).toContain('Missing required parameter "fields" in node "Node"');
+  });
+});
+
+describe('NodeService.validateNode display options', () => {
+  it('does not require a parameter that is hidden', async () => {
+    const issues = await NodeService.validateNode(node('n8n-nodes-base.httpRequest', 4.2, {
+      url: 'https://example.com',
+      sendBody: true,
+      specifyBody: 'keypair'
+    }));
+
+    expect(issues).toEqual([]);
+  });
+
+  it('warns about a parameter that is set but hidden', async () => {
+    const issues = await NodeService.validateNode(node('n8n-nodes-base.httpRequest', 4.2, {
+      url: 'https://example.com',
+      jsonBody: '{"name": "test"}'
+    }));
+
+    expect(issues).toEqual([expect.objectContaining({
+      type: 'warning',
+      path: 'parameters.jsonBody',
+      message: 'Parameter "jsonBody" in node "Node" is set but not used: it only applies when sendBody is true and specifyBody is json'
+    })]);
+  });
+});
+
+describe('NodeService.validateNode nested parameters', () => {
+  const issuesOf = async (parameters: Record<string, unknown>) =>
+    (await NodeService.validateNode(node('n8n-nodes-base.set', 3.2, parameters)))
+      .map(issue => ({ type: issue.type, path: issue.path, message: issue.message }));
+
+  it('reports errors at the path of the fixedCollection entry they occur in', async () => {
+    const issues = await issuesOf({
+      fields: {
+        values: [
+          { name: 'status', type: 'stringValue', stringValue: 'done' },
+          { name: 'due', type: 'dateValue' },
+          { type: 'stringValue', stringValue: 'unnamed' }
+        ]
+      }
+    });
+
+    expect(issues).toEqual([
+      {
+        type: 'error',
+        path: 'parameters.fields.values[1].type',
+        message: 'Invalid value for parameter "fields.values[1].type": Invalid option "dateValue"'
+      },
+      {
+        type: 'error',
+        path: 'parameters.fields.values[2].name',
+        message: 'Missing required parameter "fields.values[2].name" in node "Node"'
+      }
+    ]);
+  });
+
+  it('reports wrongly typed values inside nested groups', async () => {
+    const issues = await issuesOf({
+      fields: {
+        values: [
+          { name: 'count', type: 'numberValue', numberValue: 'many' },
+          { name: 'active', type: 'booleanValue', booleanValue: 'yes' }
+        ]
+      }
+    });
+
+    expect(issues).toEqual([
+      {
+        type: 'error',
+        path: 'parameters.fields.values[0].numberValue',
+        message: 'Invalid value for parameter "fields.values[0].numberValue": Expected numeric value'
+      },
+      {
+        type: 'error',
+        path: 'parameters.fields.values[1].booleanValue',
+        message: 'Invalid value for parameter "fields.values[1].booleanValue": Expected boolean value'
+      }
+    ]);
+  });
+
+  it('warns about unknown keys and groups inside nested parameters', async () => {
+    const issues = await issuesOf({
+      fields: {
+        values: [{ name: 'status', type: 'stringValue', stringValue: 'done', colour: 'red' }],
+        extras: []
+      }
+    });
+
+    expect(issues).toEqual([
+      {
+        type: 'warning',
+        path: 'parameters.fields.values[0].colour',
+        message: 'Unknown parameter "fields.values[0].colour" in node "Node"'
+      },
+      {
+        type: 'warning',
+        path: 'parameters.fields.extras',
+        message: 'Unknown parameter "fields.extras" in node "Node"'
+      }
+    ]);
+  });
+
+  it('rejects entries of the wrong shape', async () => {
+    const issues = await issuesOf({ fields: { values: [{ name: 'status' }, 'status'] } });
+
+    expect(issues).toEqual([{
+      type: 'error',
+      path: 'parameters.fields.values[1]',
+      message: 'Invalid value for parameter "fields.values[1]": Expected an object'
+    }]);
+  });
+});
+
+describe('NodeService.loadNodeDefinitions', () => {
+  it('reads every parameter of a catalog larger than one response', async () => {
+    catalog.extra = Array.from({ length: 300 }, (_, index) => ({ node_type: `test.node${index}`, parameterCount: 5 }));
+    NodeService.invalidateCache();
+
+    const last = await NodeService.getNodeDefinition('test.node299');
+    const issues = await NodeService.validateNode({ id: 'node-1', name: 'Node', type: 'test.node299', typeVersion: 1, parameters: {} });
+
+    expect(last?.parameters).toHaveLength(5);
+    expect(issues.filter(issue => issue.type === 'error')).toHaveLength(5);
+  });
+});
@@ -1,10 +1,16 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import { N8nExpression } from '@/utils/n8nExpression';
+import { NodeVersionUpgrader } from '@/utils/nodeVersionUpgrader';
+import { DisplayOptions } from '@/utils/displayOptions';
+import { WorkflowGraphAnalyzer } from '@/utils/workflowGraphAnalyzer';
+import type { NodeDisplayOptions } from '@/utils/nodeSeeder';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
 import type { Database } from '@/integrations/supabase/types';
 
 type NodeDefinition = Database['public']['Tables']['node_definitions']['Row'];
 type NodeParameter = Database['public']['Tables']['node_parameters']['Row'];
-type WorkflowTemplate = Database['public']['Tables']['workflow_templates']['Row'];
+export type WorkflowTemplate = Database['public']['Tables']['workflow_templates']['Row'];
 
 export interface NodeWithParameters extends NodeDefinition {
   parameters: NodeParameter[];
@@ -14,11 +20,47 @@ export interface ValidationIssue {
   type: 'error' | 'warning' | 'suggestion';
   nodeId?: string;
   nodeName?: string;
+  // Where in the node the problem is, e.g. "parameters.fields.values[1].type"
+  path?: string;
   message: string;
   suggestion?: string;
   autoFix?: boolean;
 }
 
+// A parameter as stored in node_parameters, or nested in its options: a collection lists its
+// children under "properties", a fixedCollection its named groups of children under "groups"
+export interface ParameterSchema {
+  parameter_name: string;
+  parameter_type: string;
+  required?: boolean;
+  description?: string | null;
+  default_value?: string | null;
+  options?: unknown;
+  validation_rules?: unknown;
+  display_options?: unknown;
+}
+
+interface ParameterGroupSchema {
+  name: string;
+  display_name?: string;
+  properties: ParameterSchema[];
+}
+
+interface ValidatedNode {
+  name: string;
+  typeVersion?: number;
+  parameters?: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Rows per catalog request; matches PostgREST's default max-rows
+const CATALOG_PAGE_SIZE = 1000;
+
+// Value types the filter parameter's operators compare as
+const FILTER_OPERATOR_TYPES = ['string', 'number', 'boolean', 'dateTime', 'array', 'object', 'any'];
+
 export interface WorkflowValidationResult {
   isValid: boolean;
   issues: ValidationIssue[];
@@ -26,19 +68,40 @@ export interface WorkflowValidationResult {
 }
 
 export class NodeService {
-  private static nodeDefinitionsCache: Map<string, NodeWithParameters> = new Map();
+  // Every catalogued version of each node type, oldest first
+  private static nodeDefinitionsCache: Map<string, NodeWithParameters[]> = new Map();
   private static templateCache: WorkflowTemplate[] = [];
   private static cacheExpiry = 5 * 60 * 1000; // 5 minutes
   private static lastCacheUpdate = 0;
 
+  // The newest version of each node type
   static async getNodeDefinitions(): Promise<NodeWithParameters[]> {
     await this.refreshCacheIfNeeded();
-    return Array.from(this.nodeDefinitionsCache.values());
+    return Array.from(this.nodeDefinitionsCache.values(), versions => versions[versions.length - 1]);
   }
 
-  static async getNodeDefinition(nodeType: string): Promise<NodeWithParameters | null> {
+  // The definition covering typeVersion, or the newest one when no version is given. A version
+  // the catalog does not list falls back to the closest older definition, whose parameters may
+  // differ: check coversVersion before treating it as that version's schema.
+  static async getNodeDefinition(nodeType: string, typeVersion?: number): Promise<NodeWithParameters | null> {
     await this.refreshCacheIfNeeded();
-    return this.nodeDefinitionsCache.get(nodeType) || null;
+    const versions = this.nodeDefinitionsCache.get(nodeType) || [];
+    if (versions.length === 0) return null;
+    if (typeVersion === undefined) return versions[versions.length - 1];
+
+    return versions.find(definition => this.coversVersion(definition, typeVersion))
+      || [...versions].reverse().find(definition => Number(definition.version) <= typeVersion)
+      || versions[0];
+  }
+
+  static async getNodeVersions(nodeType: string): Promise<NodeWithParameters[]> {
+    await this.refreshCacheIfNeeded();
+    return this.nodeDefinitionsCache.get(nodeType) || [];
+  }
+
+  static coversVersion(definition: NodeDefinition, typeVersion: number): boolean {
+    const typeVersions = Array.isArray(definition.type_versions) ? definition.type_versions : [];
+    return Number(definition.version) === typeVersion || typeVersions.includes(typeVersion);
   }
 
   static async getWorkflowTemplates(category?: string): Promise<WorkflowTemplate[]> {
@@ -83,6 +146,12 @@ export class NodeService {
     const connectionIssues = this.validateConnections(workflow);
     issues.push(...connectionIssues);
 
+    // Check the shape of the graph: triggers, reachability, cycles and branch wiring
+    issues.push(...WorkflowGraphAnalyzer.analyze(workflow));
+
+    // Validate expressions and the nodes they reference
+    issues.push(...this.validateExpressions(workflow));
+
     // Check for workflow patterns and suggest improvements
     const suggestions = await this.suggestImprovements(workflow);
     issues.push(...suggestions);
@@ -96,7 +165,7 @@ export class NodeService {
 
   static async validateNode(node: any): Promise<ValidationIssue[]> {
     const issues: ValidationIssue[] = [];
-    const nodeDefinition = await this.getNodeDefinition(node.type);
+    const nodeDefinition = await this.getNodeDefinition(node.type, node.typeVersion);
 
     if (!nodeDefinition) {
       // Check if it's a deprecated node with a replacement
@@ -133,7 +202,38 @@ export class NodeService {
       });
     }
 
-    // Validate parameters
+    // Check the node's typeVersion against the catalogued ones
+    if (typeof node.typeVersion === 'number') {
+      const latest = await this.getNodeDefinition(node.type);
+      const upgradeTarget = this.upgradeTarget(node, latest);
+
+      if (upgradeTarget !== null) {
+        issues.push({
+          type: 'warning',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Node "${node.name}" uses ${nodeDefinition.display_name} v${node.typeVersion}; v${latest.version} is current.`,
+          suggestion: `Upgrade to v${upgradeTarget}`,
+          autoFix: true
+        });
+      } else if (!this.coversVersion(nodeDefinition, node.typeVersion)) {
+        issues.push({
+          type: 'warning',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Node "${node.name}" uses typeVersion ${node.typeVersion} of "${node.type}", which is not in the node catalog, so its parameters were not checked.`,
+          suggestion: `Import the current node catalog, or use typeVersion ${latest.version}`
+        });
+      }
+
+      // Parameter layouts change between versions, so another version's schema would report
+      // errors in a valid node
+      if (!this.coversVersion(nodeDefinition, node.typeVersion)) {
+        return issues;
+      }
+    }
+
+    // Validate parameters against the definition of the node's own typeVersion
     const parameterIssues = await this.validateNodeParameters(node, nodeDefinition);
     issues.push(...parameterIssues);
 
@@ -141,44 +241,200 @@ export class NodeService {
   }
 
   static async validateNodeParameters(node: any, nodeDefinition: NodeWithParameters): Promise<ValidationIssue[]> {
+    return this.validateParameterGroup(node, node.parameters || {}, nodeDefinition.parameters, 'parameters')
+      .map(issue => ({ ...issue, nodeId: node.id, nodeName: node.name }));
+  }
+
+  // Checks sibling parameters: the node's own, a collection's, or one fixedCollection entry's.
+  // Keys the schema does not list are reported only when strict, since the seeded catalog does
+  // not describe every top-level parameter.
+  private static validateParameterGroup(
+    node: ValidatedNode,
+    values: Record<string, unknown>,
+    parameters: ParameterSchema[],
+    path: string,
+    strict = false
+  ): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
-    const nodeParams = node.parameters || {};
+    const context = {
+      values: DisplayOptions.withDefaults(parameters, values),
+      root: node.parameters || {},
+      typeVersion: node.typeVersion
+    };
+
+    // n8n can list a name several times with different displayOptions, e.g. "operation" per
+    // resource; a value applies when any of them is shown
+    const isShown = (param: ParameterSchema) =>
+      DisplayOptions.isShown(param.display_options as NodeDisplayOptions, context);
+    const shownNames = new Set(parameters.filter(isShown).map(param => param.parameter_name));
+    const warnedNames = new Set<string>();
 
     // Check required parameters
-    for (const param of nodeDefinition.parameters) {
-      if (param.required && (nodeParams[param.parameter_name] === undefined || nodeParams[param.parameter_name] === '')) {
+    for (const param of parameters) {
+      const paramPath = `${path}.${param.parameter_name}`;
+      const label = this.parameterLabel(paramPath);
+      const value = values[param.parameter_name];
+
+      if (!isShown(param)) {
+        if (value !== undefined && !shownNames.has(param.parameter_name) && !warnedNames.has(param.parameter_name)) {
+          warnedNames.add(param.parameter_name);
+          issues.push({
+            type: 'warning',
+            path: paramPath,
+            message: `Parameter "${label}" in node "${node.name}" is set but not used: it only applies when ${DisplayOptions.describe(param.display_options as NodeDisplayOptions)}`,
+            suggestion: `Remove ${label} or change the parameters it depends on`
+          });
+        }
+        continue;
+      }
+
+      if (param.required && (value === undefined || value === '')) {
         issues.push({
           type: 'error',
-          nodeId: node.id,
-          nodeName: node.name,
-          message: `Missing required parameter "${param.parameter_name}" in node "${node.name}"`,
-          suggestion: `Add value for ${param.parameter_name}: ${param.description}`
+          path: paramPath,
+          message: `Missing required parameter "${label}" in node "${node.name}"`,
+          suggestion: `Add value for ${label}: ${param.description || ''}`
         });
       }
 
-      // Validate parameter types and rules
-      if (nodeParams[param.parameter_name] !== undefined) {
-        const validationResult = this.validateParameterValue(
-          nodeParams[param.parameter_name],
-          param
-        );
-        
-        if (!validationResult.isValid) {
+      // Validate parameter types and rules, descending into nested values
+      if (value !== undefined) {
+        issues.push(...this.validateParameterTree(node, value, param, paramPath));
+      }
+    }
+
+    if (strict) {
+      Object.keys(values)
+        .filter(key => !parameters.some(param => param.parameter_name === key))
+        .forEach(key => {
           issues.push({
-            type: 'error',
-            nodeId: node.id,
-            nodeName: node.name,
-            message: `Invalid value for parameter "${param.parameter_name}": ${validationResult.message}`,
-            suggestion: validationResult.suggestion
+            type: 'warning',
+            path: `${path}.${key}`,
+            message: `Unknown parameter "${this.parameterLabel(`${path}.${key}`)}" in node "${node.name}"`,
+            suggestion: `Use one of: ${[...new Set(parameters.map(param => param.parameter_name))].join(', ')}`
           });
-        }
+        });
+    }
+
+    return issues;
+  }
+
+  private static validateParameterTree(node: ValidatedNode, value: unknown, param: ParameterSchema, path: string): ValidationIssue[] {
+    // Expressions are resolved at run time, so only literal values are checked
+    if (typeof value === 'string' && value.startsWith('=')) return [];
+
+    const schema = isRecord(param.options) ? param.options : {};
+    const invalid = (message: string, suggestion?: string, at = path): ValidationIssue[] => [{
+      type: 'error',
+      path: at,
+      message: `Invalid value for parameter "${this.parameterLabel(at)}": ${message}`,
+      suggestion
+    }];
+
+    switch (param.parameter_type) {
+      case 'collection': {
+        if (!isRecord(value)) return invalid('Expected an object', 'Provide an object of named options');
+        const properties = Array.isArray(schema.properties) ? schema.properties as ParameterSchema[] : [];
+        return properties.length > 0 ? this.validateParameterGroup(node, value, properties, path, true) : [];
+      }
+
+      case 'fixedCollection': {
+        if (!isRecord(value)) return invalid('Expected an object', 'Provide an object keyed by group name');
+        const groups = Array.isArray(schema.groups) ? schema.groups as ParameterGroupSchema[] : [];
+        if (groups.length === 0) return [];
+
+        return Object.entries(value).flatMap(([key, entries]) => {
+          const groupPath = `${path}.${key}`;
+          const group = groups.find(candidate => candidate.name === key);
+          if (!group) {
+            return [{
+              type: 'warning' as const,
+              path: groupPath,
+              message: `Unknown parameter "${this.parameterLabel(groupPath)}" in node "${node.name}"`,
+              suggestion: `Use one of: ${groups.map(candidate => candidate.name).join(', ')}`
+            }];
+          }
+          if (!schema.multipleValues) {
+            return isRecord(entries)
+              ? this.validateParameterGroup(node, entries, group.properties, groupPath, true)
+              : invalid('Expected an object', undefined, groupPath);
+          }
+          if (!Array.isArray(entries)) return invalid('Expected a list', `Wrap the ${key} entries in an array`, groupPath);
+
+          return entries.flatMap((entry, index) => isRecord(entry)
+            ? this.validateParameterGroup(node, entry, group.properties, `${groupPath}[${index}]`, true)
+            : invalid('Expected an object', undefined, `${groupPath}[${index}]`));
+        });
+      }
+
+      case 'multiOptions': {
+        if (!Array.isArray(value)) return invalid('Expected a list', 'Provide an array of options');
+        const options = Array.isArray(schema.options) ? schema.options : [];
+        if (options.length === 0) return [];
+        return value.flatMap((entry, index) => options.includes(entry)
+          ? []
+          : invalid(`Invalid option "${entry}"`, `Choose from: ${options.join(', ')}`, `${path}[${index}]`));
+      }
+
+      case 'filter':
+        return this.validateFilter(value, path, invalid);
+
+      default: {
+        const validationResult = this.validateParameterValue(value, param);
+        return validationResult.isValid ? [] : invalid(validationResult.message, validationResult.suggestion);
       }
     }
+  }
+
+  // n8n's filter parameter (If v2, Switch v3 rules): { options, conditions: [{ leftValue,
+  // rightValue, operator: { type, operation } }], combinator }
+  private static validateFilter(
+    value: unknown,
+    path: string,
+    invalid: (message: string, suggestion?: string, at?: string) => ValidationIssue[]
+  ): ValidationIssue[] {
+    if (!isRecord(value)) return invalid('Expected an object with conditions');
+
+    const issues: ValidationIssue[] = [];
+    if (value.combinator !== undefined && value.combinator !== 'and' && value.combinator !== 'or') {
+      issues.push(...invalid(`Invalid option "${value.combinator}"`, 'Choose from: and, or', `${path}.combinator`));
+    }
+    // The single condition older generated workflows keep under options is still read as-is
+    if (value.conditions === undefined) return issues;
+    if (!Array.isArray(value.conditions)) {
+      return [...issues, ...invalid('Expected a list of conditions', undefined, `${path}.conditions`)];
+    }
+
+    value.conditions.forEach((condition, index) => {
+      const conditionPath = `${path}.conditions[${index}]`;
+      const operator = isRecord(condition) ? condition.operator : undefined;
+      if (!isRecord(condition)) {
+        issues.push(...invalid('Expected an object', undefined, conditionPath));
+      } else if (!isRecord(operator)) {
+        issues.push(...invalid('Missing operator', 'Add an operator like { type: "string", operation: "equals" }', `${conditionPath}.operator`));
+      } else {
+        if (!FILTER_OPERATOR_TYPES.includes(String(operator.type))) {
+          issues.push(...invalid(
+            `Invalid operator type "${operator.type}"`,
+            `Choose from: ${FILTER_OPERATOR_TYPES.join(', ')}`,
+            `${conditionPath}.operator.type`
+          ));
+        }
+        if (typeof operator.operation !== 'string' || !operator.operation) {
+          issues.push(...invalid('Missing operation', 'Name the comparison, e.g. "equals"', `${conditionPath}.operator.operation`));
+        }
+      }
+    });
 
     return issues;
   }
 
-  static validateParameterValue(value: any, parameter: NodeParameter): { isValid: boolean; message?: string; suggestion?: string } {
+  // "parameters.fields.values[1].type" is shown as "fields.values[1].type"
+  private static parameterLabel(path: string): string {
+    return path.replace(/^parameters\./, '');
+  }
+
+  static validateParameterValue(value: any, parameter: ParameterSchema): { isValid: boolean; message?: string; suggestion?: string } {
     const rules = parameter.validation_rules as any || {};
     
     // Type validation
@@ -199,6 +455,12 @@ export class NodeService {
         if (typeof value !== 'number' && isNaN(Number(value))) {
           return { isValid: false, message: 'Expected numeric value', suggestion: 'Provide a number' };
         }
+        if (typeof rules.minValue === 'number' && Number(value) < rules.minValue) {
+          return { isValid: false, message: `Minimum value is ${rules.minValue}`, suggestion: `Use ${rules.minValue} or more` };
+        }
+        if (typeof rules.maxValue === 'number' && Number(value) > rules.maxValue) {
+          return { isValid: false, message: `Maximum value is ${rules.maxValue}`, suggestion: `Use ${rules.maxValue} or less` };
+        }
         break;
         
       case 'boolean':
@@ -209,7 +471,8 @@ export class NodeService {
         
       case 'options':
         const options = (parameter.options as any)?.options || [];
-        if (!options.includes(value)) {
+        // Options loaded from the service at edit time have no static list to check against
+        if (options.length > 0 && !options.includes(value)) {
           return { 
             isValid: false, 
             message: `Invalid option "${value}"`, 
@@ -251,6 +514,40 @@ export class NodeService {
     return issues;
   }
 
+  static validateExpressions(workflow: Pick<N8nWorkflow, 'nodes'>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const nodeNames = new Set(workflow.nodes?.map(node => node.name) || []);
+
+    workflow.nodes?.forEach(node => {
+      N8nExpression.collect(node.parameters || {}).forEach(({ path, expression }) => {
+        const syntaxError = N8nExpression.validate(expression);
+        if (syntaxError) {
+          issues.push({
+            type: 'error',
+            nodeId: node.id,
+            nodeName: node.name,
+            message: `Parameter "${path}" of "${node.name}" has an invalid expression: ${syntaxError}`,
+            suggestion: 'Fix the JavaScript inside {{ }}'
+          });
+        }
+
+        N8nExpression.referencedNodes(expression)
+          .filter(name => !nodeNames.has(name))
+          .forEach(name => {
+            issues.push({
+              type: 'error',
+              nodeId: node.id,
+              nodeName: node.name,
+              message: `Parameter "${path}" of "${node.name}" references missing node "${name}"`,
+              suggestion: 'Point the expression at an existing node or add the missing node'
+            });
+          });
+      });
+    });
+
+    return issues;
+  }
+
   static async suggestImprovements(workflow: any): Promise<ValidationIssue[]> {
     const suggestions: ValidationIssue[] = [];
     
@@ -300,20 +597,41 @@ export class NodeService {
       return modernNode;
     }
 
+    const upgradeTarget = this.upgradeTarget(node, await this.getNodeDefinition(node.type));
+    if (upgradeTarget !== null) {
+      return NodeVersionUpgrader.upgrade(node, upgradeTarget);
+    }
+
     return null;
   }
 
+  // The newest version the upgrader can move an older node to that the latest definition covers
+  private static upgradeTarget(node: { type: string; typeVersion?: number }, latest: NodeWithParameters | null): number | null {
+    if (!latest || typeof node.typeVersion !== 'number' || this.coversVersion(latest, node.typeVersion)) return null;
+
+    const reachable = NodeVersionUpgrader.reachableVersions(node.type, node.typeVersion)
+      .filter(version => this.coversVersion(latest, version));
+    return reachable.length > 0 ? reachable[reachable.length - 1] : null;
+  }
+
   static async findDeprecatedNode(nodeType: string, nodeName?: string): Promise<NodeDefinition | null> {
     const { data } = await supabase
       .from('node_definitions')
       .select('*')
       .eq('node_type', nodeType)
       .eq('deprecated', true)
-      .single();
+      .limit(1)
+      .maybeSingle();
     
     return data;
   }
 
+  // Forces the next lookup to reload, e.g. after the catalog was imported
+  static invalidateCache(): void {
+    this.lastCacheUpdate = 0;
+    this.nodeDefinitionsCache.clear();
+  }
+
   static async refreshCacheIfNeeded(): Promise<void> {
     const now = Date.now();
     if (now - this.lastCacheUpdate < this.cacheExpiry && this.nodeDefinitionsCache.size > 0) {
@@ -329,28 +647,47 @@ export class NodeService {
   }
 
   static async loadNodeDefinitions(): Promise<void> {
-    const { data: definitions } = await supabase
-      .from('node_definitions')
-      .select('*')
-      .order('display_name');
+    const definitions = await this.fetchAllRows(
+      (from, to) => supabase.from('node_definitions').select('*').order('display_name').order('id').range(from, to)
+    );
 
-    const { data: parameters } = await supabase
-      .from('node_parameters')
-      .select('*');
+    const parameters = await this.fetchAllRows(
+      (from, to) => supabase.from('node_parameters').select('*').order('id').range(from, to)
+    );
 
     if (definitions && parameters) {
       this.nodeDefinitionsCache.clear();
       
       definitions.forEach(definition => {
         const nodeParameters = parameters.filter(param => param.node_definition_id === definition.id);
-        this.nodeDefinitionsCache.set(definition.node_type, {
-          ...definition,
-          parameters: nodeParameters
-        });
+        const versions = this.nodeDefinitionsCache.get(definition.node_type) || [];
+        this.nodeDefinitionsCache.set(
+          definition.node_type,
+          [...versions, { ...definition, parameters: nodeParameters }]
+            .sort((a, b) => Number(a.version) - Number(b.version))
+        );
       });
     }
   }
 
+  // PostgREST caps every response (1000 rows by default), so an imported catalog's parameters are
+  // read page by page until a short page comes back. Returns null when any page fails.
+  private static async fetchAllRows<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+  ): Promise<T[] | null> {
+    const rows: T[] = [];
+
+    for (let from = 0; ; from += CATALOG_PAGE_SIZE) {
+      const { data, error } = await page(from, from + CATALOG_PAGE_SIZE - 1);
+      if (error || !data) {
+        console.error('Error loading node catalog:', error);
+        return null;
+      }
+      rows.push(...data);
+      if (data.length < CATALOG_PAGE_SIZE) return rows;
+    }
+  }
+
   static async loadWorkflowTemplates(): Promise<void> {
     const { data } = await supabase
       .from('workflow_templates')
@@ -372,11 +709,11 @@ export class NodeService {
     useCase?: string,
     difficulty: 'beginner' | 'intermediate' | 'advanced' = 'beginner',
     isPublic = false
-  ): Promise<void> {
+  ): Promise<WorkflowTemplate> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
-    await supabase
+    const { data, error } = await supabase
       .from('workflow_templates')
       .insert({
         user_id: user.id,
@@ -388,12 +725,23 @@ export class NodeService {
         use_case: useCase,
         difficulty,
         is_public: isPublic
-      });
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // Returns the new count, or null when the template is neither public nor the user's own
+  static async incrementTemplateUsage(templateId: string): Promise<number | null> {
+    const { data, error } = await supabase.rpc('increment_template_usage', { template_id: templateId });
+    if (error) throw new Error(error.message);
+    return data ?? null;
   }
 
   static async recommendNodes(intent: string, currentNodes: any[] = []): Promise<NodeDefinition[]> {
-    await this.refreshCacheIfNeeded();
-    const allNodes = Array.from(this.nodeDefinitionsCache.values());
+    const allNodes = await this.getNodeDefinitions();
     
     // Simple intent-based recommendation
     const recommendations: NodeDefinition[] = [];
@@ -426,6 +774,16 @@ export class NodeService {
       if (setNode) recommendations.push(setNode);
     }
 
+    // Nodes named in the intent, e.g. "post to slack" or "append to google sheets"
+    const words = lowerIntent.split(/[^a-z0-9]+/).filter(word => word.length > 2);
+    allNodes
+      .filter(node => !node.deprecated && !recommendations.includes(node))
+      .filter(node => {
+        const name = node.display_name.toLowerCase();
+        return name.split(/[^a-z0-9]+/).filter(Boolean).every(part => words.includes(part)) || words.includes(name.replace(/\s+/g, ''));
+      })
+      .forEach(node => recommendations.push(node));
+
     return recommendations.slice(0, 5); // Return top 5 recommendations
   }
 }
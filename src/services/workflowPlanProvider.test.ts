@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { NodeWithParameters } from './nodeService';
+import { checkPlanAgainstCatalog, describeCatalog, FakePlanProvider, SupabasePlanProvider, type PlanFunctionInvoker } from './workflowPlanProvider';
+import { step, type WorkflowPlan } from '@/utils/workflowPlan';
+
+const definition = (nodeType: string, displayName: string, parameters: Array<[string, string, boolean]> = []): NodeWithParameters => ({
+  id: nodeType,
+  node_type: nodeType,
+  display_name: displayName,
+  version: '1',
+  type_versions: [1],
+  category: null,
+  credentials: [],
+  deprecated: false,
+  description: null,
+  example_config: null,
+  icon: null,
+  parameters_schema: null,
+  replaced_by: null,
+  created_at: '',
+  updated_at: '',
+  parameters: parameters.map(([name, type, required], position) => ({
+    id: `${nodeType}.${name}`,
+    node_definition_id: nodeType,
+    parameter_name: name,
+    parameter_type: type,
+    required,
+    position,
+    default_value: null,
+    description: null,
+    display_name: null,
+    display_options: {},
+    options: null,
+    validation_rules: null
+  }))
+});
+
+const catalog = [
+  definition('n8n-nodes-base.code', 'Code', [['jsCode', 'string', true]]),
+  definition('n8n-nodes-base.if', 'If'),
+  { ...definition('n8n-nodes-base.function', 'Function'), deprecated: true }
+];
+
+const plan: WorkflowPlan = {
+  name: 'Check Input',
+  trigger: step('Every Hour', 'n8n-nodes-base.scheduleTrigger'),
+  blocks: [
+    {
+      kind: 'branch',
+      name: 'Has Email',
+      nodeType: 'n8n-nodes-base.if',
+      parameters: {},
+      paths: [{ label: 'true', blocks: [step('Normalize', 'n8n-nodes-base.code', { jsCode: 'return items;' })] }]
+    },
+    { kind: 'loop', name: 'Each Row', batchSize: 5, body: [] }
+  ]
+};
+
+describe('checkPlanAgainstCatalog', () => {
+  it('accepts catalogued types, triggers and loops', () => {
+    expect(checkPlanAgainstCatalog(plan, catalog)).toBe(plan);
+  });
+
+  it('rejects a nested node whose type is not in the catalog', () => {
+    const unknown = JSON.parse(JSON.stringify(plan)) as WorkflowPlan;
+    const branch = unknown.blocks[0];
+    if (branch.kind === 'branch') branch.paths[0].blocks[0] = step('Post', 'n8n-nodes-base.slack');
+
+    expect(() => checkPlanAgainstCatalog(unknown, catalog)).toThrow('Plan node "Post" uses unknown type "n8n-nodes-base.slack"');
+  });
+
+  it('skips the check while the catalog is empty', () => {
+    const unknown = { ...plan, blocks: [step('Post', 'n8n-nodes-base.slack')] };
+    expect(checkPlanAgainstCatalog(unknown, [])).toBe(unknown);
+  });
+});
+
+describe('describeCatalog', () => {
+  it('lists current node types with their required parameters', () => {
+    expect(describeCatalog(catalog)).toBe([
+      '- n8n-nodes-base.code (Code, v1) params: jsCode*: string',
+      '- n8n-nodes-base.if (If, v1)'
+    ].join('\n'));
+  });
+});
+
+describe('SupabasePlanProvider', () => {
+  it('sends the description and catalog summary and checks the returned plan', async () => {
+    const calls: Array<[string, Record<string, unknown>]> = [];
+    const invoke: PlanFunctionInvoker = async (functionName, body) => {
+      calls.push([functionName, body]);
+      return { data: { plan: JSON.parse(JSON.stringify(plan)) }, error: null };
+    };
+
+    const result = await new SupabasePlanProvider('plan-fn', invoke).generatePlan({ description: 'check emails', catalog });
+
+    expect(calls).toEqual([['plan-fn', { description: 'check emails', catalog: describeCatalog(catalog) }]]);
+    expect(result.blocks.map(block => block.name)).toEqual(['Has Email', 'Each Row']);
+  });
+
+  it('reports the error the function returned', async () => {
+    const response = new Response(JSON.stringify({ error: 'No plan model is configured' }), { status: 503 });
+    const invoke: PlanFunctionInvoker = async () => ({ data: null, error: Object.assign(new Error('non-2xx'), { context: response }) });
+
+    await expect(new SupabasePlanProvider('plan-fn', invoke).generatePlan({ description: 'x', catalog }))
+      .rejects.toThrow('Plan provider request failed: No plan model is configured');
+  });
+
+  it('rejects plans that do not parse or use unknown types', async () => {
+    const reply = (data: unknown): PlanFunctionInvoker => async () => ({ data, error: null });
+
+    await expect(new SupabasePlanProvider('plan-fn', reply({})).generatePlan({ description: 'x', catalog }))
+      .rejects.toThrow('Plan provider returned no plan');
+    await expect(new SupabasePlanProvider('plan-fn', reply({ plan: { trigger: { name: 'Start' } } })).generatePlan({ description: 'x', catalog }))
+      .rejects.toThrow('missing a nodeType');
+    await expect(new SupabasePlanProvider('plan-fn', reply({ plan: { ...plan, blocks: [step('Post', 'n8n-nodes-base.slack')] } })).generatePlan({ description: 'x', catalog }))
+      .rejects.toThrow('unknown type "n8n-nodes-base.slack"');
+  });
+});
+
+describe('FakePlanProvider', () => {
+  it('returns registered plans and records requests', async () => {
+    const provider = new FakePlanProvider({ 'check emails': plan });
+
+    expect(await provider.generatePlan({ description: 'check emails', catalog })).toEqual(plan);
+    expect((await provider.generatePlan({ description: 'other', catalog: [] })).name).toBe('Fake Workflow');
+    expect(provider.requests.map(request => request.description)).toEqual(['check emails', 'other']);
+  });
+});
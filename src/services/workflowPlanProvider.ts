@@ -0,0 +1,107 @@
+import type { NodeWithParameters } from './nodeService';
+import { edgeFunctionErrorMessage, invokeEdgeFunction, type EdgeFunctionInvoker } from './edgeFunctions';
+import { listPlanBlocks, parseWorkflowPlan, type WorkflowPlan } from '@/utils/workflowPlan';
+
+export interface WorkflowPlanRequest {
+  description: string;
+  catalog: NodeWithParameters[];
+}
+
+export interface WorkflowPlanProvider {
+  readonly name: string;
+  generatePlan(request: WorkflowPlanRequest): Promise<WorkflowPlan>;
+}
+
+// Plans come from an edge function, so the model's API key stays in the function's secrets
+export type PlanFunctionInvoker = EdgeFunctionInvoker;
+
+export class SupabasePlanProvider implements WorkflowPlanProvider {
+  readonly name = 'supabase';
+
+  constructor(
+    private readonly functionName = 'generate-workflow-plan',
+    private readonly invoke: PlanFunctionInvoker = invokeEdgeFunction
+  ) {}
+
+  async generatePlan(request: WorkflowPlanRequest): Promise<WorkflowPlan> {
+    const { data, error } = await this.invoke(this.functionName, {
+      description: request.description,
+      catalog: describeCatalog(request.catalog)
+    });
+
+    if (error) {
+      throw new Error(`Plan provider request failed: ${await edgeFunctionErrorMessage(error)}`);
+    }
+
+    const plan = (data as { plan?: unknown } | null)?.plan;
+    if (!plan) {
+      throw new Error('Plan provider returned no plan');
+    }
+
+    return checkPlanAgainstCatalog(parseWorkflowPlan(plan), request.catalog);
+  }
+}
+
+// Deterministic provider for tests and offline demos: returns registered plans verbatim
+export class FakePlanProvider implements WorkflowPlanProvider {
+  readonly name = 'fake';
+  readonly requests: WorkflowPlanRequest[] = [];
+
+  constructor(private readonly plans: Record<string, WorkflowPlan> = {}) {}
+
+  async generatePlan(request: WorkflowPlanRequest): Promise<WorkflowPlan> {
+    this.requests.push(request);
+
+    const plan = this.plans[request.description];
+    if (plan) {
+      return checkPlanAgainstCatalog(parseWorkflowPlan(JSON.parse(JSON.stringify(plan))), request.catalog);
+    }
+
+    return {
+      name: 'Fake Workflow',
+      trigger: { kind: 'step', name: 'Manual Trigger', nodeType: 'n8n-nodes-base.manualTrigger', parameters: {} },
+      blocks: [
+        {
+          kind: 'step',
+          name: 'Process Data',
+          nodeType: 'n8n-nodes-base.code',
+          parameters: { mode: 'runOnceForAllItems', jsCode: 'return $input.all();' }
+        }
+      ]
+    };
+  }
+}
+
+export const describeCatalog = (catalog: NodeWithParameters[]): string => {
+  return catalog
+    .filter(definition => !definition.deprecated)
+    .map(definition => {
+      const params = definition.parameters
+        .map(param => `${param.parameter_name}${param.required ? '*' : ''}: ${param.parameter_type}`)
+        .join(', ');
+      return `- ${definition.node_type} (${definition.display_name}, v${definition.version || '1'})${params ? ` params: ${params}` : ''}`;
+    })
+    .join('\n');
+};
+
+// Triggers and loops are not always part of the seeded catalog, so only other unknown types are rejected
+export const checkPlanAgainstCatalog = (plan: WorkflowPlan, catalog: NodeWithParameters[]): WorkflowPlan => {
+  const knownTypes = new Set(catalog.map(definition => definition.node_type));
+  if (knownTypes.size === 0) {
+    return plan;
+  }
+
+  listPlanBlocks(plan).forEach(block => {
+    if (block.kind !== 'loop' && !knownTypes.has(block.nodeType) && !/trigger|cron/i.test(block.nodeType)) {
+      throw new Error(`Plan node "${block.name}" uses unknown type "${block.nodeType}"`);
+    }
+  });
+
+  return plan;
+};
+
+// VITE_PLAN_FUNCTION names the deployed edge function; without it generation stays offline
+export const createPlanProviderFromEnv = (): WorkflowPlanProvider | null => {
+  const functionName = import.meta.env.VITE_PLAN_FUNCTION;
+  return functionName ? new SupabasePlanProvider(functionName) : null;
+};
@@ -0,0 +1,137 @@
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { EdgeFunctionInvoker } from '@/services/edgeFunctions';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface MockN8nServer {
+  baseUrl: string;
+  apiKey: string;
+  requests: RecordedRequest[];
+  workflows: Map<string, Record<string, unknown>>;
+  close(): Promise<void>;
+}
+
+const WRITABLE_FIELDS = ['name', 'nodes', 'connections', 'settings', 'staticData'];
+
+// A local stand-in for the parts of the n8n public API the app uses, with n8n's status codes
+export const startMockN8nServer = async (apiKey = 'n8n-test-key'): Promise<MockN8nServer> => {
+  const requests: RecordedRequest[] = [];
+  const workflows = new Map<string, Record<string, unknown>>();
+  let nextId = 1;
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push({ method: req.method || 'GET', url: `${url.pathname}${url.search}`, headers: req.headers, body });
+
+      const reply = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      if (req.headers['x-n8n-api-key'] !== apiKey) {
+        return reply(401, { message: 'unauthorized' });
+      }
+
+      const [, id, action] = url.pathname.match(/^\/api\/v1\/workflows(?:\/([^/]+))?(?:\/(activate|deactivate))?$/) || [];
+      if (url.pathname.startsWith('/api/v1/workflows')) {
+        if (req.method === 'GET' && !id) {
+          return reply(200, { data: [...workflows.values()], nextCursor: null });
+        }
+        if ((req.method === 'POST' && !id) || (req.method === 'PUT' && id && !action)) {
+          const extra = Object.keys(body || {}).find(field => !WRITABLE_FIELDS.includes(field));
+          if (extra) {
+            return reply(400, { message: 'request/body must NOT have additional properties' });
+          }
+          if (id && !workflows.has(id)) {
+            return reply(404, { message: 'Not Found' });
+          }
+          const workflowId = id || String(nextId++);
+          const workflow = { ...(workflows.get(workflowId) || { active: false }), ...body, id: workflowId };
+          workflows.set(workflowId, workflow);
+          return reply(200, workflow);
+        }
+        const workflow = workflows.get(id);
+        if (!workflow) {
+          return reply(404, { message: 'Not Found' });
+        }
+        if (req.method === 'POST' && action) {
+          workflow.active = action === 'activate';
+        }
+        return reply(200, workflow);
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/v1/executions') {
+        return reply(200, { data: [{ id: '7', workflowId: url.searchParams.get('workflowId'), finished: true, mode: 'webhook', status: 'success', startedAt: '2025-06-01T09:30:00.000Z' }], nextCursor: null });
+      }
+
+      reply(404, { message: 'Not Found' });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    apiKey,
+    requests,
+    workflows,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+// Plays the n8n-proxy edge function: connect checks the key, request forwards with the stored key
+export const mockN8nProxy = (server: MockN8nServer): EdgeFunctionInvoker => {
+  let storedKey: string | null = null;
+
+  const forward = async (apiKey: string, method: string, path: string, query: Record<string, unknown> = {}, body?: unknown) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+    const response = await fetch(`${server.baseUrl}/api/v1${path}${search ? `?${search}` : ''}`, {
+      method,
+      headers: { 'X-N8N-API-KEY': apiKey, ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}) },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const failure = (status: number, error: string) => ({
+    data: null,
+    error: Object.assign(new Error('Edge Function returned a non-2xx status code'), {
+      context: new Response(JSON.stringify({ error }), { status })
+    })
+  });
+
+  return async (_functionName, payload) => {
+    if (payload.action === 'connect') {
+      const test = await forward(String(payload.apiKey), 'GET', '/workflows', { limit: 1 });
+      if (test.status === 401) {
+        return failure(400, 'n8n rejected the API key');
+      }
+      storedKey = String(payload.apiKey);
+      const now = new Date(2025, 5, 1).toISOString();
+      return { data: { instance: { id: 'instance-1', base_url: payload.baseUrl, created_at: now, updated_at: now } }, error: null };
+    }
+
+    if (!storedKey) {
+      return failure(404, 'No n8n instance is connected');
+    }
+    return {
+      data: await forward(storedKey, String(payload.method), String(payload.path), payload.query as Record<string, unknown>, payload.body),
+      error: null
+    };
+  };
+};
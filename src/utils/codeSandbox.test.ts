@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { CodeSandbox } from './codeSandbox';
+
+const items = [{ json: { name: 'Ada', total: 3 } }, { json: { name: 'Grace', total: 5 } }];
+
+describe('CodeSandbox.run', () => {
+  it('runs once for all items with the n8n globals and captures logs', async () => {
+    const result = await CodeSandbox.run(
+      'console.log("count", items.length);\nreturn [{ json: { sum: $input.all().reduce((total, item) => total + item.json.total, 0) } }];',
+      { items }
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.items).toEqual([{ json: { sum: 8 } }]);
+    expect(result.logs).toEqual([{ level: 'log', message: 'count 2' }]);
+  });
+
+  it('runs once per item and reads upstream nodes', async () => {
+    const result = await CodeSandbox.run('return { greeting: `${$("Config").json.prefix} ${$json.name}` };', {
+      mode: 'runOnceForEachItem',
+      items,
+      nodes: { Config: [{ json: { prefix: 'Hi' } }] }
+    });
+
+    expect(result.items).toEqual([{ json: { greeting: 'Hi Ada' } }, { json: { greeting: 'Hi Grace' } }]);
+  });
+
+  it('reports the failing line', async () => {
+    const result = await CodeSandbox.run('const value = 1;\nthrow new Error("boom");', { items });
+
+    expect(result).toMatchObject({ status: 'error', error: 'boom', line: 2 });
+  });
+
+  it('does not reach host objects through the payload or the global object', async () => {
+    const escapes = [
+      'return [{ json: { leaked: typeof items.constructor.constructor("return process")() } }];',
+      'return [{ json: { leaked: typeof (function () { return this; })().process } }];',
+      'return [{ json: { leaked: typeof $input.all.constructor("return this")().process } }];'
+    ];
+
+    for (const code of escapes) {
+      const result = await CodeSandbox.run(code, { items });
+      expect(result.items[0]?.json.leaked ?? result.error).not.toBe('object');
+    }
+
+    const built = await CodeSandbox.run('return { value: (() => {}).constructor("return 1")() };', { items });
+    expect(built.error).toBe('Building functions from strings is disabled in the sandbox');
+  });
+
+  it('rejects dynamic imports', async () => {
+    const result = await CodeSandbox.run('const fs = await import /* x */ ("node:fs");\nreturn [];', { items });
+
+    expect(result).toMatchObject({ status: 'error', error: 'import() is not available in Code nodes' });
+  });
+
+  it('stops loops before and after an await', async () => {
+    const sync = await CodeSandbox.run('while (true) {}', { items, timeoutMs: 200 });
+    const afterAwait = await CodeSandbox.run('await null;\nwhile (true) {}', { items, timeoutMs: 200 });
+
+    expect(sync.error).toBe('Code execution timed out after 200ms');
+    expect(afterAwait.error).toBe('Code execution timed out after 200ms');
+  });
+
+  it('fails code that waits on a promise that never settles', async () => {
+    const result = await CodeSandbox.run('await new Promise(() => {});\nreturn [];', { items, timeoutMs: 200 });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toMatch(/never finished/);
+  });
+});
@@ -0,0 +1,403 @@
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+export type CodeMode = 'runOnceForAllItems' | 'runOnceForEachItem';
+
+export interface SandboxItem {
+  json: Record<string, unknown>;
+}
+
+export interface SandboxLog {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+}
+
+export interface CodeRunOptions {
+  mode?: CodeMode;
+  items: SandboxItem[];
+  // Latest output of upstream nodes, for $node["Name"] and $("Name")
+  nodes?: Record<string, SandboxItem[]>;
+  timeoutMs?: number;
+}
+
+export interface CodeRunResult {
+  status: 'success' | 'error';
+  items: SandboxItem[];
+  logs: SandboxLog[];
+  error?: string;
+  line?: number;
+  executionTime: number;
+}
+
+export interface CodeSmokeTest {
+  node: string;
+  result: CodeRunResult;
+}
+
+interface SandboxPayload {
+  code: string;
+  mode: CodeMode;
+  items: SandboxItem[];
+  nodes: Record<string, SandboxItem[]>;
+  now: number;
+}
+
+// A self-contained function the sandbox runs with cloned input; it returns its result as a string
+// and calls harden() once it has compiled the untrusted code, before running it
+export type SandboxRunner<P> = (payload: P, harden: () => void) => Promise<string> | string;
+
+interface SandboxReply {
+  result?: string;
+  failure?: string;
+  timedOut?: boolean;
+}
+
+interface ThreadWorker {
+  on(event: 'message', listener: (reply: SandboxReply) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  on(event: 'exit', listener: (code: number) => void): void;
+  terminate(): Promise<number>;
+}
+
+interface WorkerThreads {
+  Worker: new (source: string, options: { eval: true; workerData: unknown; resourceLimits: Record<string, number> }) => ThreadWorker;
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+// Worker threads take a moment to start; the vm timeout inside them is the precise limit
+const THREAD_GRACE_MS = 1000;
+
+// Code that imports modules could load and run anything, and import() cannot be removed like a global
+const DYNAMIC_IMPORT = /\bimport\s*(?:\/\*[\s\S]*?\*\/\s*|\/\/[^\n]*\n\s*)*\(/;
+
+// Self-contained like the runners: strips everything from the global scope that reaches the
+// network, other contexts or the host, and stops code from being built out of strings.
+// Properties are deleted up the prototype chain, since Worker globals live on prototypes.
+function hardenScope(): void {
+  const scope = globalThis as unknown as Record<string, unknown>;
+  const blocked = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'WebTransport', 'EventSource', 'Request',
+    'importScripts', 'postMessage', 'close', 'Worker', 'SharedWorker', 'BroadcastChannel', 'MessageChannel',
+    'indexedDB', 'caches', 'navigator', 'location', 'FontFace', 'fonts', 'process', 'require', 'module',
+    'eval', 'Function'
+  ];
+
+  blocked.forEach(name => {
+    for (let target: Record<string, unknown> | null = scope; target; target = Object.getPrototypeOf(target)) {
+      if (target !== Object.prototype && Object.prototype.hasOwnProperty.call(target, name)) {
+        try {
+          delete target[name];
+        } catch {
+          // Non-configurable; overwritten below
+        }
+      }
+    }
+    if (name in scope) {
+      try {
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+      } catch {
+        // Checked below
+      }
+    }
+    if (scope[name] !== undefined) {
+      throw new Error(`Sandbox could not remove "${name}"`);
+    }
+  });
+
+  // Strings passed to timers are evaluated like eval
+  ['setTimeout', 'setInterval'].forEach(name => {
+    const timer = scope[name];
+    if (typeof timer !== 'function') return;
+    Object.defineProperty(scope, name, {
+      value: (handler: unknown, ...args: unknown[]) => {
+        if (typeof handler !== 'function') throw new TypeError(`${name} only accepts a function`);
+        return timer.call(scope, handler, ...args);
+      },
+      writable: false,
+      configurable: false
+    });
+  });
+
+  // (function () {}).constructor("...") is Function by another name
+  const refuse = function () {
+    throw new EvalError('Building functions from strings is disabled in the sandbox');
+  };
+  [function () { /* plain */ }, async function () { /* async */ }, function* () { yield; }, async function* () { yield; }]
+    .forEach(fn => {
+      Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: refuse, writable: false, configurable: false });
+    });
+}
+
+// Self-contained on purpose: its source is shipped to a Worker or a vm context as a string,
+// so it must not reference anything outside its own body.
+function sandboxRunner(payload: SandboxPayload, harden: () => void): Promise<string> {
+  const logs: SandboxLog[] = [];
+  const format = (args: unknown[]) => args
+    .map(arg => {
+      if (typeof arg === 'string') return arg;
+      try {
+        return JSON.stringify(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+  const capture = (level: SandboxLog['level']) => (...args: unknown[]) => {
+    logs.push({ level, message: format(args) });
+  };
+  const sandboxConsole = { log: capture('log'), info: capture('info'), warn: capture('warn'), error: capture('error'), debug: capture('debug') };
+
+  const items = payload.items;
+  const nodes = payload.nodes;
+  const nodeData = (name: string) => {
+    if (!(name in nodes)) throw new Error(`Referenced node "${name}" has not been executed`);
+    const output = nodes[name];
+    return { json: output[0] ? output[0].json : {}, item: output[0], all: () => output, first: () => output[0], last: () => output[output.length - 1] };
+  };
+  const globalsFor = (index: number): Record<string, unknown> => ({
+    $input: { item: items[index], all: () => items, first: () => items[0], last: () => items[items.length - 1] },
+    $json: items[index] ? items[index].json : {},
+    $itemIndex: index,
+    $node: new Proxy({}, { get: (_target, name) => (typeof name === 'string' ? nodeData(name) : undefined) }),
+    $: nodeData,
+    $items: (name?: string) => (name ? nodeData(name).all() : items),
+    $now: new Date(payload.now),
+    items,
+    item: items[index],
+    console: sandboxConsole
+  });
+  const names = Object.keys(globalsFor(0));
+
+  const normalize = (result: unknown): SandboxItem[] => {
+    if (result === undefined || result === null) return [];
+    const entries = Array.isArray(result) ? result : [result];
+    return entries.map(entry => {
+      if (!entry || typeof entry !== 'object') {
+        throw new Error(`Code must return objects or items, got ${entry === null ? 'null' : typeof entry}`);
+      }
+      const record = entry as Record<string, unknown>;
+      return { json: (record.json && typeof record.json === 'object' ? record.json : record) as Record<string, unknown> };
+    });
+  };
+
+  const run = async () => {
+    // Compiled before the scope is hardened, since hardening removes the Function constructor
+    const AsyncFunction = Object.getPrototypeOf(async function () { /* marker */ }).constructor;
+    const fn = new AsyncFunction(...names, payload.code);
+    harden();
+    const exec = (globals: Record<string, unknown>) => fn.apply({}, names.map(name => globals[name]));
+
+    if (payload.mode === 'runOnceForEachItem') {
+      const output: SandboxItem[] = [];
+      for (let index = 0; index < items.length; index++) {
+        output.push(...normalize(await exec(globalsFor(index))));
+      }
+      return output;
+    }
+    return normalize(await exec(globalsFor(0)));
+  };
+
+  return run().then(
+    output => JSON.stringify({ items: output, logs }),
+    error => {
+      // AsyncFunction prepends two lines to the body, so stack lines are offset by two
+      const stack = error && error.stack ? String(error.stack) : '';
+      const match = stack.match(/, <anonymous>:(\d+):\d+\)/);
+      return JSON.stringify({
+        items: [],
+        logs,
+        error: error instanceof Error ? error.message : String(error),
+        line: match ? Number(match[1]) - 2 : undefined
+      });
+    }
+  );
+}
+
+// Runs Code node JavaScript away from the app: in a Worker in the browser and in a worker thread
+// under Node. Both only get cloned data and are terminated when the time limit passes.
+export class CodeSandbox {
+  static async run(code: string, options: CodeRunOptions): Promise<CodeRunResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const startedAt = Date.now();
+
+    if (this.usesDynamicImport(code)) {
+      return { status: 'error', items: [], logs: [], error: 'import() is not available in Code nodes', executionTime: 0 };
+    }
+
+    const payload: SandboxPayload = {
+      code,
+      mode: options.mode || 'runOnceForAllItems',
+      items: JSON.parse(JSON.stringify(options.items)),
+      nodes: JSON.parse(JSON.stringify(options.nodes || {})),
+      now: Date.now()
+    };
+
+    let raw: string;
+    try {
+      raw = await this.isolate(sandboxRunner, payload, timeoutMs);
+    } catch (error) {
+      return {
+        status: 'error',
+        items: [],
+        logs: [],
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: Date.now() - startedAt
+      };
+    }
+
+    const parsed = JSON.parse(raw) as Omit<CodeRunResult, 'status' | 'executionTime'>;
+    return {
+      ...parsed,
+      status: parsed.error ? 'error' : 'success',
+      executionTime: Date.now() - startedAt
+    };
+  }
+
+  // Runs every Code node of a workflow against the same sample items
+  static async smokeTest(workflow: Pick<N8nWorkflow, 'nodes'>, sampleItems: SandboxItem[] = [{ json: {} }]): Promise<CodeSmokeTest[]> {
+    const codeNodes = (workflow.nodes || []).filter(node => node.type === 'n8n-nodes-base.code' && !node.disabled);
+    const results: CodeSmokeTest[] = [];
+
+    for (const node of codeNodes) {
+      const result = await this.run(String(node.parameters?.jsCode ?? ''), {
+        mode: node.parameters?.mode === 'runOnceForEachItem' ? 'runOnceForEachItem' : 'runOnceForAllItems',
+        items: sampleItems
+      });
+      results.push({ node: node.name, result });
+    }
+
+    return results;
+  }
+
+  static usesDynamicImport(code: string): boolean {
+    return DYNAMIC_IMPORT.test(code);
+  }
+
+  // Runs a self-contained runner on a structured clone of the payload and returns its string
+  // result; rejects when no sandbox is available, the runner fails or time runs out
+  static isolate<P>(runner: SandboxRunner<P>, payload: P, timeoutMs: number, label = 'Code execution'): Promise<string> {
+    if (typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL?.createObjectURL === 'function') {
+      return this.runInWorker(runner, payload, timeoutMs, label);
+    }
+    return this.runInThread(runner, payload, timeoutMs, label);
+  }
+
+  private static timeoutError(label: string, timeoutMs: number): Error {
+    return new Error(`${label} timed out after ${timeoutMs}ms`);
+  }
+
+  private static settle(reply: SandboxReply, label: string, timeoutMs: number): string {
+    if (reply.timedOut) throw this.timeoutError(label, timeoutMs);
+    if (typeof reply.result !== 'string') throw new Error(reply.failure || 'Sandbox returned no result');
+    return reply.result;
+  }
+
+  // postMessage is kept in a closure before the runner hardens the Worker's global scope
+  private static runInWorker<P>(runner: SandboxRunner<P>, payload: P, timeoutMs: number, label: string): Promise<string> {
+    const source = [
+      'const post = self.postMessage.bind(self);',
+      `const runner = ${runner.toString()};`,
+      `const harden = ${hardenScope.toString()};`,
+      'self.onmessage = event => Promise.resolve()',
+      '  .then(() => runner(event.data, harden))',
+      '  .then(result => post({ result }), error => post({ failure: String(error && error.message || error) }));'
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    return new Promise<string>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        reject(this.timeoutError(label, timeoutMs));
+      }, timeoutMs);
+
+      worker.onmessage = event => {
+        finish();
+        try {
+          resolve(this.settle(event.data as SandboxReply, label, timeoutMs));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      worker.onerror = event => {
+        finish();
+        reject(new Error(event.message || 'Sandbox worker failed'));
+      };
+      worker.postMessage(payload);
+    });
+  }
+
+  // The thread runs the runner in a fresh vm context that only holds the payload as a JSON
+  // string, so no host object (and no host Function constructor) is reachable from inside.
+  // With microtaskMode "afterEvaluate" the vm timeout also covers code after an await;
+  // terminating the thread is the backstop.
+  private static async runInThread<P>(runner: SandboxRunner<P>, payload: P, timeoutMs: number, label: string): Promise<string> {
+    let threads: WorkerThreads | null = null;
+    try {
+      // Kept out of the browser bundle: only resolvable when running under Node
+      const specifier = 'node:worker_threads';
+      threads = await import(/* @vite-ignore */ specifier);
+    } catch {
+      threads = null;
+    }
+    if (!threads) {
+      throw new Error('No sandbox is available to run code in this environment');
+    }
+
+    const contextSource = [
+      'Promise.resolve()',
+      `  .then(() => (${runner.toString()})(JSON.parse(payload), ${hardenScope.toString()}))`,
+      '  .then(value => { globalThis.result = value; }, error => { globalThis.failure = String(error && error.message || error); });'
+    ].join('\n');
+    const threadSource = [
+      "const { parentPort, workerData } = require('node:worker_threads');",
+      "const vm = require('node:vm');",
+      'const context = { payload: workerData.payload };',
+      'try {',
+      "  vm.runInNewContext(workerData.source, context, { timeout: workerData.timeoutMs, microtaskMode: 'afterEvaluate' });",
+      "  if (typeof context.result === 'string') parentPort.postMessage({ result: context.result });",
+      "  else parentPort.postMessage({ failure: typeof context.failure === 'string' ? context.failure : 'Code never finished: it waits for something that cannot happen in the sandbox' });",
+      '} catch (error) {',
+      '  const message = String(error && error.message || error);',
+      '  parentPort.postMessage(/timed out/i.test(message) ? { timedOut: true } : { failure: message });',
+      '}'
+    ].join('\n');
+
+    const worker = new threads.Worker(threadSource, {
+      eval: true,
+      workerData: { source: contextSource, payload: JSON.stringify(payload), timeoutMs },
+      resourceLimits: { maxOldGenerationSizeMb: 128, maxYoungGenerationSizeMb: 32 }
+    });
+
+    return new Promise<string>((resolve, reject) => {
+      let settled = false;
+      const finish = (outcome: () => string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate();
+        try {
+          resolve(outcome());
+        } catch (error) {
+          reject(error);
+        }
+      };
+      const timer = setTimeout(() => finish(() => {
+        throw this.timeoutError(label, timeoutMs);
+      }), timeoutMs + THREAD_GRACE_MS);
+
+      worker.on('message', reply => finish(() => this.settle(reply, label, timeoutMs)));
+      worker.on('error', error => finish(() => {
+        throw new Error(`Sandbox thread failed: ${error.message}`);
+      }));
+      worker.on('exit', code => finish(() => {
+        throw new Error(`Sandbox thread exited with code ${code}`);
+      }));
+    });
+  }
+}
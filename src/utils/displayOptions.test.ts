@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DisplayOptions } from './displayOptions';
+
+describe('DisplayOptions.isShown', () => {
+  it('shows a parameter when every show key has one of its values', () => {
+    const options = { show: { sendBody: [true], specifyBody: ['json'] } };
+
+    expect(DisplayOptions.isShown(options, { values: { sendBody: true, specifyBody: 'json' } })).toBe(true);
+    expect(DisplayOptions.isShown(options, { values: { sendBody: true, specifyBody: 'keypair' } })).toBe(false);
+    expect(DisplayOptions.isShown(options, { values: {} })).toBe(false);
+    expect(DisplayOptions.isShown(undefined, { values: {} })).toBe(true);
+  });
+
+  it('hides a parameter when any hide key matches', () => {
+    const options = { show: { resource: ['message'] }, hide: { operation: ['delete', 'archive'] } };
+
+    expect(DisplayOptions.isShown(options, { values: { resource: 'message', operation: 'send' } })).toBe(true);
+    expect(DisplayOptions.isShown(options, { values: { resource: 'message', operation: 'archive' } })).toBe(false);
+  });
+
+  it('evaluates conditions, versions and root parameters', () => {
+    const options = { show: { '@version': [{ _cnd: { gte: 2 } }], '/authentication': ['oAuth2Api'] } };
+    const root = { authentication: 'oAuth2Api' };
+
+    expect(DisplayOptions.isShown(options, { values: {}, root, typeVersion: 2.1 })).toBe(true);
+    expect(DisplayOptions.isShown(options, { values: {}, root, typeVersion: 1 })).toBe(false);
+    expect(DisplayOptions.isShown(options, { values: {}, root: { authentication: 'none' }, typeVersion: 2 })).toBe(false);
+  });
+});
+
+describe('DisplayOptions.withDefaults', () => {
+  it('fills in typed defaults for parameters that are not set', () => {
+    const parameters = [
+      { parameter_name: 'sendBody', parameter_type: 'boolean', default_value: 'false' },
+      { parameter_name: 'timeout', parameter_type: 'number', default_value: '30' },
+      { parameter_name: 'specifyBody', parameter_type: 'options', default_value: 'keypair' }
+    ];
+
+    expect(DisplayOptions.withDefaults(parameters, { specifyBody: 'json' })).toEqual({
+      sendBody: false,
+      timeout: 30,
+      specifyBody: 'json'
+    });
+  });
+});
+
+describe('DisplayOptions.describe', () => {
+  it('names the conditions a parameter depends on', () => {
+    expect(DisplayOptions.describe({ show: { sendBody: [true], specifyBody: ['json'] } }))
+      .toBe('sendBody is true and specifyBody is json');
+    expect(DisplayOptions.describe({ show: { '@version': [{ _cnd: { gte: 2 } }] }, hide: { mode: ['raw', 'expression'] } }))
+      .toBe('typeVersion is at least 2 and mode is not raw nor expression');
+  });
+});
@@ -0,0 +1,135 @@
+import type { NodeDisplayOptions } from '@/utils/nodeSeeder';
+
+interface DefaultedParameter {
+  parameter_name: string;
+  parameter_type: string;
+  default_value?: string | null;
+}
+
+export interface DisplayContext {
+  // Values of the parameters next to the one being checked, with defaults filled in
+  values: Record<string, unknown>;
+  // The node's top-level parameters, which "/name" keys refer to from inside collections
+  root?: Record<string, unknown>;
+  typeVersion?: number;
+}
+
+// n8n's condition objects, e.g. { _cnd: { gte: 2 } }, used next to plain values
+type DisplayCondition = { _cnd: Record<string, unknown> };
+
+const isCondition = (value: unknown): value is DisplayCondition =>
+  Boolean(value) && typeof value === 'object' && '_cnd' in (value as object);
+
+const CONDITIONS: Record<string, (actual: unknown, expected: unknown) => boolean> = {
+  eq: (actual, expected) => actual === expected,
+  not: (actual, expected) => actual !== expected,
+  gt: (actual, expected) => Number(actual) > Number(expected),
+  gte: (actual, expected) => Number(actual) >= Number(expected),
+  lt: (actual, expected) => Number(actual) < Number(expected),
+  lte: (actual, expected) => Number(actual) <= Number(expected),
+  startsWith: (actual, expected) => String(actual ?? '').startsWith(String(expected)),
+  endsWith: (actual, expected) => String(actual ?? '').endsWith(String(expected)),
+  includes: (actual, expected) => String(actual ?? '').includes(String(expected)),
+  regex: (actual, expected) => new RegExp(String(expected)).test(String(actual ?? '')),
+  exists: actual => actual !== undefined && actual !== null && actual !== ''
+};
+
+const CONDITION_LABELS: Record<string, string> = {
+  eq: 'is',
+  not: 'is not',
+  gt: 'is above',
+  gte: 'is at least',
+  lt: 'is below',
+  lte: 'is at most',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  includes: 'contains',
+  regex: 'matches',
+  exists: 'is set'
+};
+
+// Evaluates n8n displayOptions: a parameter applies when every "show" key has one of its listed
+// values and no "hide" key does. "@version" keys match the node's typeVersion.
+export class DisplayOptions {
+  static isShown(options: NodeDisplayOptions | null | undefined, context: DisplayContext): boolean {
+    const { show = {}, hide = {} } = options || {};
+    return Object.entries(show).every(([key, expected]) => this.matches(this.valueOf(key, context), expected))
+      && !Object.entries(hide).some(([key, expected]) => this.matches(this.valueOf(key, context), expected));
+  }
+
+  static isConditional(options: NodeDisplayOptions | null | undefined): boolean {
+    return Object.keys(options?.show || {}).length > 0 || Object.keys(options?.hide || {}).length > 0;
+  }
+
+  // e.g. "sendBody is true and specifyBody is json"
+  static describe(options: NodeDisplayOptions | null | undefined): string {
+    const describeEntry = (key: string, expected: unknown[], negate: boolean) => {
+      const name = key === '@version' ? 'typeVersion' : key.replace(/^\//, '');
+      const plain = expected.filter(value => !isCondition(value)).map(String);
+      const alternatives = [
+        ...(plain.length > 0 ? [`${negate ? 'is not' : 'is'} ${plain.join(negate ? ' nor ' : ' or ')}`] : []),
+        ...expected.filter(isCondition).map(value => {
+          const [operator, operand] = Object.entries(value._cnd)[0] || [];
+          const label = CONDITION_LABELS[operator] || operator;
+          const text = operator === 'exists' ? label : `${label} ${String(operand)}`;
+          return negate ? `not (${text})` : text;
+        })
+      ];
+      return `${name} ${alternatives.join(negate ? ' and ' : ' or ')}`;
+    };
+
+    return [
+      ...Object.entries(options?.show || {}).map(([key, expected]) => describeEntry(key, expected, false)),
+      ...Object.entries(options?.hide || {}).map(([key, expected]) => describeEntry(key, expected, true))
+    ].join(' and ');
+  }
+
+  // Parameter values as n8n sees them: set values, else each parameter's default
+  static withDefaults(parameters: DefaultedParameter[], values: Record<string, unknown>): Record<string, unknown> {
+    const defaults: Record<string, unknown> = {};
+    parameters.forEach(parameter => {
+      if (!(parameter.parameter_name in defaults)) {
+        const value = this.defaultOf(parameter);
+        if (value !== undefined) defaults[parameter.parameter_name] = value;
+      }
+    });
+    return { ...defaults, ...values };
+  }
+
+  // default_value is stored as text
+  static defaultOf(parameter: DefaultedParameter): unknown {
+    const raw = parameter.default_value;
+    if (raw === undefined || raw === null) return undefined;
+
+    switch (parameter.parameter_type) {
+      case 'boolean':
+        return raw === 'true';
+      case 'number':
+        return raw === '' ? undefined : Number(raw);
+      case 'collection':
+      case 'fixedCollection':
+      case 'multiOptions':
+      case 'json':
+        try {
+          return JSON.parse(raw);
+        } catch {
+          return raw;
+        }
+      default:
+        return raw;
+    }
+  }
+
+  private static valueOf(key: string, context: DisplayContext): unknown {
+    if (key === '@version') return context.typeVersion;
+    if (key.startsWith('/')) return (context.root || context.values)[key.slice(1)];
+    return context.values[key];
+  }
+
+  private static matches(actual: unknown, expected: unknown[]): boolean {
+    return (expected || []).some(value => {
+      if (!isCondition(value)) return value === actual;
+      return Object.entries(value._cnd).every(([operator, operand]) => CONDITIONS[operator]?.(actual, operand) ?? false);
+    });
+  }
+}
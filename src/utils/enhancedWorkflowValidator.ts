@@ -1,5 +1,6 @@
 
 import { NodeService, type ValidationIssue, type WorkflowValidationResult } from '@/services/nodeService';
+import { WorkflowLayout } from './workflowLayout';
 
 export interface EnhancedValidationResult extends WorkflowValidationResult {
   performanceScore: number;
@@ -215,6 +216,12 @@ export class EnhancedWorkflowValidator {
       }
     }
     
-    return { fixed: fixedWorkflow, changes };
+    // Re-run the layout so overlapping or hand-placed nodes open tidy in the n8n editor
+    const laidOut = WorkflowLayout.apply(fixedWorkflow);
+    if (WorkflowLayout.hasChanged(fixedWorkflow, laidOut)) {
+      changes.push('Rearranged node positions');
+    }
+    
+    return { fixed: laidOut, changes };
   }
 }
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nNode } from '@/data/n8nNodeReference';
+import { FrontendCodeGenerator, type FrontendSource } from './frontendGenerator';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+const source: FrontendSource = {
+  name: 'Order intake',
+  webhook_url: 'https://n8n.example.com/webhook/orders',
+  n8n_json: {
+    nodes: [
+      node('Webhook', 'n8n-nodes-base.webhook', { httpMethod: 'PUT', path: 'orders' }),
+      node('Prepare', 'n8n-nodes-base.set', {
+        assignments: {
+          assignments: [
+            { name: 'amount', value: '={{ $json.body.amount }}', type: 'number' },
+            { name: 'email', value: '={{ $json.body.customer.email }}', type: 'string' },
+            { name: 'express', value: '={{ $json.body.express }}', type: 'boolean' },
+            { name: 'items', value: '={{ $json.body.items }}', type: 'array' },
+            { name: 'note', value: '={{ $json.body.note || "" }}', type: 'string' }
+          ]
+        }
+      })
+    ],
+    connections: { Webhook: { main: [[{ node: 'Prepare', type: 'main', index: 0 }]] } }
+  }
+};
+
+const expectedFields = [
+  { name: 'amount', type: 'number', required: true },
+  { name: 'customer.email', type: 'string', required: true },
+  { name: 'express', type: 'boolean', required: true },
+  { name: 'items', type: 'array', required: true },
+  { name: 'note', type: 'string', required: false }
+];
+
+// Runs the generated client helpers, which only touch the network in callWorkflow
+const clientOf = (code: string) => {
+  const helpers = code.slice(code.indexOf('const WEBHOOK_URL'), code.indexOf('const initialValues'));
+  return new Function(`${helpers}\nreturn { WEBHOOK_URL, METHOD, FIELDS, toPayload };`)() as {
+    WEBHOOK_URL: string;
+    METHOD: string;
+    FIELDS: unknown[];
+    toPayload: (values: Record<string, unknown>) => unknown;
+  };
+};
+
+describe('FrontendCodeGenerator.generateReact', () => {
+  it('builds the form and payload from the inferred input schema', () => {
+    const code = FrontendCodeGenerator.generateReact(source);
+    const client = clientOf(code);
+
+    expect(code).toContain('export default function OrderIntakeForm()');
+    expect(client.WEBHOOK_URL).toBe('https://n8n.example.com/webhook/orders');
+    expect(client.METHOD).toBe('PUT');
+    expect(client.FIELDS).toEqual(expectedFields);
+    expect(client.toPayload({ amount: '12.5', 'customer.email': 'a@b.test', express: true, items: '[1, 2]', note: ' ' })).toEqual({
+      amount: 12.5,
+      customer: { email: 'a@b.test' },
+      express: true,
+      items: [1, 2]
+    });
+    expect(() => client.toPayload({ amount: 'many', 'customer.email': 'a@b.test', items: '[]' })).toThrow('amount must be a number');
+    expect(() => client.toPayload({ amount: '1', items: '[]' })).toThrow('customer.email is required');
+  });
+
+  it('falls back to a message field and a placeholder URL', () => {
+    const code = FrontendCodeGenerator.generateReact({
+      name: '2nd flow',
+      n8n_json: { nodes: [node('Webhook', 'n8n-nodes-base.webhook', { path: '/intake' })], connections: {} }
+    });
+    const client = clientOf(code);
+
+    expect(code).toContain('export default function Workflow2ndFlowForm()');
+    expect(code).toContain('// Replace with the production webhook URL of your n8n instance');
+    expect(client.WEBHOOK_URL).toBe('https://your-n8n-instance/webhook/intake');
+    expect(client.METHOD).toBe('GET');
+    expect(client.FIELDS).toEqual([{ name: 'message', type: 'string', required: true }]);
+  });
+});
+
+describe('FrontendCodeGenerator.generateHtml', () => {
+  it('renders one input per inferred field', () => {
+    const code = FrontendCodeGenerator.generateHtml(source);
+
+    expect(code).toContain('<p class="endpoint">PUT https://n8n.example.com/webhook/orders</p>');
+    expect(code).toContain('<input type="number" id="field-amount" name="amount" step="any" required />');
+    expect(code).toContain('<input type="text" id="field-customer-email" name="customer.email" required />');
+    expect(code).toContain('<label class="checkbox"><input type="checkbox" id="field-express" name="express" /> express</label>');
+    expect(code).toContain('<textarea id="field-items" name="items" placeholder="[ ]" required></textarea>');
+    expect(code).toContain('<label for="field-note">note (optional)');
+    expect(code).toContain(`const FIELDS = ${JSON.stringify(expectedFields, null, 2)};`);
+    expect(FrontendCodeGenerator.formatOf(code)).toBe('html');
+  });
+
+  it('escapes the workflow name and URL', () => {
+    const code = FrontendCodeGenerator.generateHtml({ ...source, name: '<b>Orders</b>', webhook_url: 'https://x.test/</script>' });
+
+    expect(code).toContain('<title>&lt;b&gt;Orders&lt;/b&gt;</title>');
+    expect(code).toContain('const WEBHOOK_URL = "https://x.test/\\u003c/script>";');
+    expect(code.match(/<\/script>/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,356 @@
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+import { InputSchemaInference, type InputField } from '@/utils/inputSchema';
+
+export type FrontendFormat = 'react' | 'html';
+
+export interface FrontendSource {
+  name: string;
+  n8n_json?: Pick<N8nWorkflow, 'nodes' | 'connections'> | null;
+  webhook_url?: string | null;
+}
+
+// Workflows that read no fields still get one free-text field
+const FALLBACK_FIELDS: InputField[] = [{ name: 'message', type: 'string', required: true, sources: [] }];
+
+// Shared by both formats: form values to the webhook payload, and the webhook call itself
+const CLIENT_HELPERS = `function setPath(target, path, value) {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    current[key] = current[key] && typeof current[key] === 'object' ? current[key] : {};
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+// Converts raw form values to typed values; blank optional fields are left out
+function toPayload(values) {
+  const payload = {};
+  FIELDS.forEach(field => {
+    const raw = values[field.name];
+    if (field.type === 'boolean') {
+      setPath(payload, field.name, Boolean(raw));
+      return;
+    }
+    if (raw === undefined || String(raw).trim() === '') {
+      if (field.required) throw new Error(field.name + ' is required');
+      return;
+    }
+    let value = raw;
+    if (field.type === 'number') {
+      value = Number(raw);
+      if (Number.isNaN(value)) throw new Error(field.name + ' must be a number');
+    } else if (field.type === 'object' || field.type === 'array') {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        throw new Error(field.name + ' must be valid JSON');
+      }
+    }
+    setPath(payload, field.name, value);
+  });
+  return payload;
+}
+
+async function callWorkflow(payload) {
+  const url = new URL(WEBHOOK_URL);
+  const init = { method: METHOD, headers: { Accept: 'application/json, text/plain, */*' } };
+  if (['GET', 'HEAD', 'DELETE'].includes(METHOD)) {
+    Object.entries(payload).forEach(([key, value]) => {
+      url.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+    });
+  } else {
+    init.headers['Content-Type'] = 'application/json';
+    init.body = JSON.stringify(payload);
+  }
+
+  const response = await fetch(url.toString(), init);
+  const text = await response.text();
+  let body = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Plain text response
+  }
+  return { ok: response.ok, status: response.status, statusText: response.statusText, body };
+}
+
+function formatBody(body) {
+  return typeof body === 'string' ? body || '(empty response)' : JSON.stringify(body, null, 2);
+}`;
+
+const STYLES = `body { font-family: system-ui, sans-serif; background: #fafaf9; color: #292524; margin: 0; }
+main { max-width: 40rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1 { font-weight: 300; margin: 0 0 0.25rem; }
+.endpoint { font-size: 0.75rem; color: #78716c; word-break: break-all; margin: 0 0 1.5rem; }
+form { display: grid; gap: 1rem; }
+label { display: grid; gap: 0.25rem; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #57534e; }
+label.checkbox { display: flex; align-items: center; gap: 0.5rem; }
+input, textarea { font: inherit; font-size: 0.875rem; padding: 0.5rem; border: 1px solid #d6d3d1; border-radius: 0.375rem; text-transform: none; }
+textarea { font-family: ui-monospace, monospace; min-height: 5rem; }
+button { justify-self: end; padding: 0.5rem 1.25rem; border: 0; border-radius: 0.375rem; background: #292524; color: white; cursor: pointer; }
+button:disabled { opacity: 0.6; }
+.status { margin: 1.5rem 0 0.5rem; padding: 0.5rem; border-radius: 0.375rem; font-size: 0.75rem; }
+.status.ok { background: #f0fdf4; color: #166534; }
+.status.error { background: #fef2f2; color: #991b1b; }
+pre { font-size: 0.75rem; background: white; border: 1px solid #e7e5e4; border-radius: 0.375rem; padding: 0.75rem; white-space: pre-wrap; word-break: break-all; }`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// JSON is valid JS, but "</script>" inside a string would still end the script element
+const toScriptLiteral = (value: unknown) => JSON.stringify(value, null, 2).replace(/</g, '\\u003c');
+
+const indent = (text: string, spaces: number) =>
+  text.split('\n').map(line => (line ? ' '.repeat(spaces) + line : line)).join('\n');
+
+// Generates a standalone page or React component that calls the workflow's webhook with a form
+// matching its inferred input schema, and renders the response
+export class FrontendCodeGenerator {
+  static generate(workflow: FrontendSource, format: FrontendFormat): string {
+    return format === 'react' ? this.generateReact(workflow) : this.generateHtml(workflow);
+  }
+
+  // Stored code does not record its format, but the two outputs start differently
+  static formatOf(code: string | null | undefined): FrontendFormat | null {
+    if (!code) return null;
+    return code.trimStart().startsWith('<!DOCTYPE html>') ? 'html' : 'react';
+  }
+
+  static fileName(name: string, format: FrontendFormat): string {
+    return format === 'react' ? `${this.componentName(name)}.jsx` : `${name.replace(/[^a-z0-9]/gi, '_')}.html`;
+  }
+
+  // A document the preview iframe can load. React components are compiled in the frame with Babel.
+  static previewDocument(code: string): string {
+    if (this.formatOf(code) === 'html') return code;
+
+    const component = code.match(/export default function (\w+)/)?.[1] || 'App';
+    const body = code
+      .replace(/^import .*;\n/gm, '')
+      .replace('export default function', 'function')
+      .replace(/<\/script/gi, '<\\/script');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<script src="https://unpkg.com/react@18/umd/react.development.js" crossorigin></script>
+<script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js" crossorigin></script>
+<script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
+</head>
+<body>
+<div id="root"></div>
+<script type="text/babel">
+const { useState } = React;
+${body}
+ReactDOM.createRoot(document.getElementById('root')).render(<${component} />);
+</script>
+</body>
+</html>
+`;
+  }
+
+  static generateHtml(workflow: FrontendSource): string {
+    const { url, method, fields, placeholder } = this.describe(workflow);
+    const inputs = fields.map(field => {
+      const id = this.fieldId(field.name);
+      const name = escapeHtml(field.name);
+      const required = field.required ? ' required' : '';
+      const label = `${name}${field.required ? '' : ' (optional)'}`;
+
+      if (field.type === 'boolean') {
+        return `<label class="checkbox"><input type="checkbox" id="${id}" name="${name}" /> ${label}</label>`;
+      }
+      if (field.type === 'object' || field.type === 'array') {
+        return `<label for="${id}">${label}\n  <textarea id="${id}" name="${name}" placeholder="${field.type === 'array' ? '[ ]' : '{ }'}"${required}></textarea>\n</label>`;
+      }
+      const type = field.type === 'number' ? 'number' : 'text';
+      return `<label for="${id}">${label}\n  <input type="${type}" id="${id}" name="${name}"${type === 'number' ? ' step="any"' : ''}${required} />\n</label>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(workflow.name)}</title>
+<style>
+${STYLES}
+</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(workflow.name)}</h1>
+  <p class="endpoint">${method} ${escapeHtml(url)}</p>
+  <form id="workflow-form">
+${indent(inputs.join('\n'), 4)}
+    <button type="submit">Send</button>
+  </form>
+  <div id="result" hidden>
+    <p id="status" class="status"></p>
+    <pre id="body"></pre>
+  </div>
+</main>
+<script>
+${placeholder ? '// Replace with the production webhook URL of your n8n instance\n' : ''}const WEBHOOK_URL = ${toScriptLiteral(url)};
+const METHOD = ${toScriptLiteral(method)};
+const FIELDS = ${toScriptLiteral(fields.map(({ name, type, required }) => ({ name, type, required })))};
+
+${CLIENT_HELPERS}
+
+const form = document.getElementById('workflow-form');
+const result = document.getElementById('result');
+const status = document.getElementById('status');
+const body = document.getElementById('body');
+
+form.addEventListener('submit', async event => {
+  event.preventDefault();
+  const values = {};
+  FIELDS.forEach(field => {
+    const input = form.elements.namedItem(field.name);
+    values[field.name] = field.type === 'boolean' ? input.checked : input.value;
+  });
+
+  const button = form.querySelector('button');
+  button.disabled = true;
+  result.hidden = false;
+  try {
+    const response = await callWorkflow(toPayload(values));
+    status.className = 'status ' + (response.ok ? 'ok' : 'error');
+    status.textContent = 'Status: ' + response.status + ' ' + response.statusText;
+    body.textContent = formatBody(response.body);
+  } catch (error) {
+    status.className = 'status error';
+    status.textContent = error.message;
+    body.textContent = '';
+  } finally {
+    button.disabled = false;
+  }
+});
+</script>
+</body>
+</html>
+`;
+  }
+
+  static generateReact(workflow: FrontendSource): string {
+    const { url, method, fields, placeholder } = this.describe(workflow);
+    const component = this.componentName(workflow.name);
+
+    return `import React, { useState } from 'react';
+
+${placeholder ? '// Replace with the production webhook URL of your n8n instance\n' : ''}const WEBHOOK_URL = ${JSON.stringify(url)};
+const METHOD = ${JSON.stringify(method)};
+const FIELDS = ${JSON.stringify(fields.map(({ name, type, required }) => ({ name, type, required })), null, 2)};
+
+${CLIENT_HELPERS}
+
+const initialValues = () => Object.fromEntries(FIELDS.map(field => [field.name, field.type === 'boolean' ? false : '']));
+
+const styles = {
+  main: { maxWidth: '40rem', margin: '0 auto', padding: '2rem 1.5rem', fontFamily: 'system-ui, sans-serif', color: '#292524' },
+  endpoint: { fontSize: '0.75rem', color: '#78716c', wordBreak: 'break-all' },
+  form: { display: 'grid', gap: '1rem' },
+  label: { display: 'grid', gap: '0.25rem', fontSize: '0.75rem', textTransform: 'uppercase', color: '#57534e' },
+  input: { fontSize: '0.875rem', padding: '0.5rem', border: '1px solid #d6d3d1', borderRadius: '0.375rem' },
+  button: { justifySelf: 'end', padding: '0.5rem 1.25rem', border: 0, borderRadius: '0.375rem', background: '#292524', color: 'white' },
+  pre: { fontSize: '0.75rem', border: '1px solid #e7e5e4', borderRadius: '0.375rem', padding: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }
+};
+
+export default function ${component}() {
+  const [values, setValues] = useState(initialValues);
+  const [response, setResponse] = useState(null);
+  const [error, setError] = useState(null);
+  const [sending, setSending] = useState(false);
+
+  const update = (name, value) => setValues(previous => ({ ...previous, [name]: value }));
+
+  const handleSubmit = async event => {
+    event.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      setResponse(await callWorkflow(toPayload(values)));
+    } catch (err) {
+      setResponse(null);
+      setError(err.message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <main style={styles.main}>
+      <h1 style={{ fontWeight: 300 }}>{${JSON.stringify(workflow.name)}}</h1>
+      <p style={styles.endpoint}>{METHOD} {WEBHOOK_URL}</p>
+      <form onSubmit={handleSubmit} style={styles.form}>
+        {FIELDS.map(field => (
+          <label key={field.name} style={styles.label}>
+            {field.name}{field.required ? '' : ' (optional)'}
+            {field.type === 'boolean' ? (
+              <input type="checkbox" checked={values[field.name]} onChange={event => update(field.name, event.target.checked)} />
+            ) : field.type === 'object' || field.type === 'array' ? (
+              <textarea
+                value={values[field.name]}
+                placeholder={field.type === 'array' ? '[ ]' : '{ }'}
+                onChange={event => update(field.name, event.target.value)}
+                style={{ ...styles.input, fontFamily: 'monospace', minHeight: '5rem' }}
+              />
+            ) : (
+              <input
+                type={field.type === 'number' ? 'number' : 'text'}
+                step={field.type === 'number' ? 'any' : undefined}
+                value={values[field.name]}
+                onChange={event => update(field.name, event.target.value)}
+                style={styles.input}
+              />
+            )}
+          </label>
+        ))}
+        <button type="submit" disabled={sending} style={styles.button}>
+          {sending ? 'Sending...' : 'Send'}
+        </button>
+      </form>
+      {error && <p style={{ color: '#991b1b', fontSize: '0.75rem' }}>{error}</p>}
+      {response && (
+        <div>
+          <p style={{ fontSize: '0.75rem', color: response.ok ? '#166534' : '#991b1b' }}>
+            Status: {response.status} {response.statusText}
+          </p>
+          <pre style={styles.pre}>{formatBody(response.body)}</pre>
+        </div>
+      )}
+    </main>
+  );
+}
+`;
+  }
+
+  // Workflows that are not on n8n yet get a placeholder URL built from the webhook path
+  private static describe(workflow: FrontendSource) {
+    const schema = InputSchemaInference.infer(workflow.n8n_json);
+    const webhook = (workflow.n8n_json?.nodes || []).find(node => node.type === 'n8n-nodes-base.webhook' && !node.disabled);
+    const path = String(webhook?.parameters?.path || webhook?.webhookId || 'your-webhook-path').replace(/^\/+/, '');
+
+    return {
+      url: workflow.webhook_url || `https://your-n8n-instance/webhook/${path}`,
+      method: schema.method || 'POST',
+      fields: schema.fields.length > 0 ? schema.fields : FALLBACK_FIELDS,
+      placeholder: !workflow.webhook_url
+    };
+  }
+
+  private static componentName(name: string): string {
+    const pascal = name
+      .split(/[^a-z0-9]+/i)
+      .filter(Boolean)
+      .map(word => word[0].toUpperCase() + word.slice(1))
+      .join('');
+    return `${/^[A-Z]/.test(pascal) ? pascal : `Workflow${pascal}`}Form`;
+  }
+
+  private static fieldId(name: string): string {
+    return `field-${name.replace(/[^a-z0-9]+/gi, '-')}`;
+  }
+}
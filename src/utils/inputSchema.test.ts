@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nConnection, N8nNode } from '@/data/n8nNodeReference';
+import { InputSchemaInference, type InputField } from './inputSchema';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+// Each name is wired to the next one
+const chain = (...names: string[]): Record<string, N8nConnection> => Object.fromEntries(names.slice(0, -1).map((name, index) => [
+  name,
+  { main: [[{ node: names[index + 1], type: 'main', index: 0 }]] }
+]));
+
+const webhook = node('Webhook', 'n8n-nodes-base.webhook', { httpMethod: 'POST', path: 'orders' });
+
+describe('InputSchemaInference.infer', () => {
+  it('infers typed body and query fields from the nodes after a webhook', () => {
+    const nodes = [
+      webhook,
+      node('Check', 'n8n-nodes-base.if', {
+        conditions: {
+          conditions: [
+            { leftValue: '={{ $json.body.amount }}', rightValue: 0, operator: { type: 'number', operation: 'gt' } },
+            { leftValue: '={{ $json.body.coupon }}', operator: { type: 'string', operation: 'exists' } }
+          ]
+        }
+      }),
+      node('Prepare', 'n8n-nodes-base.set', {
+        assignments: {
+          assignments: [
+            { name: 'customerEmail', value: '={{ $json.body.customer.email }}', type: 'string' },
+            { name: 'vip', value: '={{ $json.query.vip }}', type: 'boolean' },
+            { name: 'token', value: '={{ $json.headers.authorization }}', type: 'string' }
+          ]
+        }
+      }),
+      node('Tag', 'n8n-nodes-base.code', {
+        jsCode: 'return items.map(item => ({ json: { email: item.json.customerEmail, tags: $json.body.tags.map(tag => tag.trim()) } }));'
+      }),
+      node('Save', 'n8n-nodes-base.httpRequest', { url: '={{ $json.body.notAnInput }}' })
+    ];
+
+    expect(InputSchemaInference.infer({ nodes, connections: chain('Webhook', 'Check', 'Prepare', 'Tag', 'Save') })).toEqual({
+      method: 'POST',
+      fields: [
+        { name: 'amount', type: 'number', required: true, sources: ['Check'] },
+        { name: 'coupon', type: 'string', required: false, sources: ['Check'] },
+        { name: 'customer.email', type: 'string', required: true, sources: ['Prepare'] },
+        { name: 'vip', type: 'boolean', required: true, sources: ['Prepare'] },
+        { name: 'tags', type: 'array', required: true, sources: ['Tag'] }
+      ]
+    });
+  });
+
+  it('reads fields referenced through the trigger name anywhere in the workflow', () => {
+    const nodes = [
+      webhook,
+      node('Lookup', 'n8n-nodes-base.httpRequest', { url: 'https://api.test/orders' }),
+      node('Reply', 'n8n-nodes-base.respondToWebhook', {
+        responseBody: "={{ $('Webhook').item.json.body.orderId }} {{ $json.status }}"
+      })
+    ];
+
+    expect(InputSchemaInference.infer({ nodes, connections: chain('Webhook', 'Lookup', 'Reply') }).fields).toEqual([
+      { name: 'orderId', type: 'string', required: true, sources: ['Reply'] }
+    ]);
+  });
+
+  it('asks for the children of a field that is also read as a whole', () => {
+    const nodes = [
+      webhook,
+      node('Prepare', 'n8n-nodes-base.set', {
+        assignments: {
+          assignments: [
+            { name: 'customer', value: '={{ $json.body.customer }}', type: 'object' },
+            { name: 'email', value: "={{ $json.body.customer['email'] }}", type: 'string' }
+          ]
+        }
+      })
+    ];
+
+    expect(InputSchemaInference.infer({ nodes, connections: chain('Webhook', 'Prepare') }).fields.map(field => field.name))
+      .toEqual(['customer.email']);
+  });
+
+  it('keeps field names as they are without a webhook', () => {
+    const nodes = [
+      node('Start', 'n8n-nodes-base.manualTrigger'),
+      node('Check', 'n8n-nodes-base.if', { conditions: { boolean: [{ value1: '={{ $json.body.active }}', operation: 'true' }] } })
+    ];
+
+    expect(InputSchemaInference.infer({ nodes, connections: chain('Start', 'Check') })).toEqual({
+      method: null,
+      fields: [{ name: 'body.active', type: 'boolean', required: true, sources: ['Check'] }]
+    });
+    expect(InputSchemaInference.infer(null)).toEqual({ method: null, fields: [] });
+  });
+});
+
+describe('InputSchemaInference.toZod', () => {
+  const field = (name: string, type: InputField['type'], required = true): InputField => ({ name, type, required, sources: [] });
+  const fields = [
+    field('amount', 'number'),
+    field('customer.email', 'string'),
+    field('note', 'string', false),
+    field('items', 'array'),
+    field('vip', 'boolean')
+  ];
+
+  it('parses form values into the nested input', () => {
+    const schema = InputSchemaInference.toZod(fields);
+
+    expect(schema.parse({ amount: '12.5', customer: { email: 'a@b.test' }, note: '', items: '[1, 2]', vip: true })).toEqual({
+      amount: 12.5,
+      customer: { email: 'a@b.test' },
+      note: undefined,
+      items: [1, 2],
+      vip: true
+    });
+  });
+
+  it('reports missing and malformed values per field', () => {
+    const result = InputSchemaInference.toZod(fields).safeParse({ amount: 'many', customer: { email: '' }, items: '{}', vip: false });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)).toEqual([
+      'amount: Enter a number',
+      'customer.email: Required',
+      'items: Enter a JSON array'
+    ]);
+  });
+
+  it('starts the form empty', () => {
+    expect(InputSchemaInference.defaultValues(fields)).toEqual({
+      amount: '',
+      customer: { email: '' },
+      note: '',
+      items: '',
+      vip: false
+    });
+  });
+});
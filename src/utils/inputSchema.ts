@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { WebhookClient } from '@/utils/webhookClient';
+
+export type InputFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface InputField {
+  // Dotted path into the trigger item, without the webhook's body./query. prefix
+  name: string;
+  type: InputFieldType;
+  required: boolean;
+  // Names of the nodes that read the field
+  sources: string[];
+}
+
+export interface InputSchema {
+  // HTTP method of the Webhook trigger, null when the workflow has none
+  method: string | null;
+  fields: InputField[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface FieldRead {
+  name: string;
+  type?: InputFieldType;
+  optional: boolean;
+}
+
+const WEBHOOK_TYPE = 'n8n-nodes-base.webhook';
+
+// Nodes whose output items are still the trigger's items, possibly with fields added
+const PASSTHROUGH_TYPES = new Set([
+  'n8n-nodes-base.if',
+  'n8n-nodes-base.filter',
+  'n8n-nodes-base.switch',
+  'n8n-nodes-base.set',
+  'n8n-nodes-base.noOp',
+  'n8n-nodes-base.wait'
+]);
+
+// Parts of a webhook item that are not filled in by the caller
+const WEBHOOK_METADATA = ['headers', 'params', 'webhookUrl', 'executionMode'];
+
+// Dotted or bracketed property path, stopping before method calls; quotes may be escaped when
+// read from serialized parameters
+const PATH = String.raw`((?:\.[A-Za-z_$][\w$]*(?![\w$]|\s*\()|\[\\?["'][^"'.\[\]\\]+\\?["']\])+)`;
+const JSON_READ = new RegExp(String.raw`\$json${PATH}`, 'g');
+// Code nodes also read the current items through $input and the items loop variable
+const CODE_READ = new RegExp(String.raw`(?:\$json|(?:\$input\.(?:item|first\(\)|last\(\))|\bitems?(?:\[\d+\])?)\.json)${PATH}`, 'g');
+const ARRAY_METHODS = /^\.(?:map|filter|forEach|reduce|some|every|find|join)\(/;
+const OPTIONAL_SUFFIX = /^\s*(?:\?\.|\?\?|\|\|)/;
+
+const asRecord = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export class InputSchemaInference {
+  // Fields read from the trigger item by If conditions, Set values and Code nodes before the data
+  // is replaced by another node. Fields a Set node adds on the way are not asked for.
+  static infer(workflow: Pick<N8nWorkflow, 'nodes' | 'connections'> | null | undefined): InputSchema {
+    const nodes = (workflow?.nodes || []).filter(node => !node.disabled);
+    const trigger = this.findTrigger(workflow);
+    const isWebhook = trigger?.type === WEBHOOK_TYPE;
+    const fields = new Map<string, InputField>();
+
+    const add = (node: N8nNode, read: FieldRead, produced: Set<string>) => {
+      const name = isWebhook ? this.stripWebhookPrefix(read.name) : read.name;
+      if (!name || produced.has(name.split('.')[0])) return;
+
+      const existing = fields.get(name);
+      if (existing) {
+        existing.type = existing.type === 'string' && read.type ? read.type : existing.type;
+        existing.required = existing.required || !read.optional;
+        if (!existing.sources.includes(node.name)) existing.sources.push(node.name);
+      } else {
+        fields.set(name, { name, type: read.type || 'string', required: !read.optional, sources: [node.name] });
+      }
+    };
+
+    // References to the trigger by name read its item from anywhere in the workflow
+    if (trigger) {
+      const name = this.escape(trigger.name);
+      const triggerRead = new RegExp(
+        String.raw`(?:\$\(\s*\\?["']${name}\\?["']\s*\)\.(?:item|first\(\)|last\(\))|\$node\[\s*\\?["']${name}\\?["']\s*\])\.json${PATH}`,
+        'g'
+      );
+      nodes.forEach(node => {
+        this.readsIn(JSON.stringify(node.parameters || {}), triggerRead).forEach(read => add(node, read, new Set()));
+      });
+    }
+
+    // Walk from the trigger while items still carry the caller's data
+    const queue: Array<{ name: string; produced: Set<string> }> = trigger
+      ? this.targets(workflow, trigger.name).map(name => ({ name, produced: new Set<string>() }))
+      : [];
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+      const { name, produced } = queue.shift()!;
+      if (visited.has(name)) continue;
+      visited.add(name);
+
+      const node = nodes.find(candidate => candidate.name === name);
+      if (!node) continue;
+
+      this.readsOf(node).forEach(read => add(node, read, produced));
+      if (!PASSTHROUGH_TYPES.has(node.type)) continue;
+
+      const next = new Set(produced);
+      if (node.type === 'n8n-nodes-base.set') this.setFieldNames(node).forEach(field => next.add(field.split('.')[0]));
+      this.targets(workflow, node.name).forEach(target => queue.push({ name: target, produced: next }));
+    }
+
+    // A parent read as a whole is covered by the form fields of its children
+    const names = [...fields.keys()];
+    const result = [...fields.values()].filter(field => !names.some(other => other.startsWith(`${field.name}.`)));
+
+    return { method: isWebhook ? WebhookClient.methodFor(workflow) : null, fields: result };
+  }
+
+  // Zod schema for the form values, nested along the dotted field names. Blank optional
+  // fields come out as undefined, JSON fields are parsed.
+  static toZod(fields: InputField[]): z.ZodTypeAny {
+    return this.nestedObject(this.nest(fields.map(field => [field.name, this.fieldSchema(field)])));
+  }
+
+  // Initial form values: empty text for every input and false for switches
+  static defaultValues(fields: InputField[]): JsonObject {
+    return this.nest(fields.map(field => [field.name, field.type === 'boolean' ? false : '']));
+  }
+
+  static nest<T>(entries: Array<[string, T]>): JsonObject {
+    const root: JsonObject = {};
+    entries.forEach(([name, value]) => {
+      const path = name.split('.');
+      let current = root;
+      path.slice(0, -1).forEach(segment => {
+        current[segment] = asRecord(current[segment]);
+        current = current[segment] as JsonObject;
+      });
+      current[path[path.length - 1]] = value;
+    });
+    return root;
+  }
+
+  private static fieldSchema(field: InputField): z.ZodTypeAny {
+    const blankToUndefined = (value: unknown) => (value === '' ? undefined : value);
+    const required = { required_error: 'Required' };
+    let schema: z.ZodTypeAny;
+
+    switch (field.type) {
+      case 'boolean':
+        return z.boolean();
+      case 'number':
+        return z.preprocess(
+          value => (value === '' || value === undefined ? undefined : Number(value)),
+          field.required
+            ? z.number({ ...required, invalid_type_error: 'Enter a number' })
+            : z.number({ invalid_type_error: 'Enter a number' }).optional()
+        );
+      case 'object':
+      case 'array':
+        schema = z.string(required).transform((text, ctx) => {
+          try {
+            const value = JSON.parse(text);
+            if (Array.isArray(value) === (field.type === 'array') && value !== null && typeof value === 'object') {
+              return value;
+            }
+          } catch {
+            // Reported below
+          }
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Enter a JSON ${field.type}` });
+          return z.NEVER;
+        });
+        break;
+      default:
+        schema = z.string(required);
+    }
+
+    return z.preprocess(blankToUndefined, field.required ? schema : schema.optional());
+  }
+
+  private static nestedObject(tree: JsonObject): z.ZodTypeAny {
+    return z.object(Object.fromEntries(Object.entries(tree).map(([key, value]) => [
+      key,
+      value instanceof z.ZodType ? value : this.nestedObject(value as JsonObject)
+    ])));
+  }
+
+  private static readsOf(node: N8nNode): FieldRead[] {
+    const parameters = asRecord(node.parameters);
+
+    if (node.type === 'n8n-nodes-base.code' || node.type === 'n8n-nodes-base.function') {
+      const code = String(parameters.jsCode || parameters.functionCode || '');
+      return this.readsIn(code, CODE_READ);
+    }
+
+    if (node.type === 'n8n-nodes-base.if' || node.type === 'n8n-nodes-base.filter') {
+      return [
+        ...this.conditionReads(parameters.conditions),
+        ...this.readsIn(JSON.stringify({ ...parameters, conditions: undefined }), JSON_READ)
+      ];
+    }
+
+    // Other expressions, e.g. in Switch rules or Set values that transform the field
+    const typed = node.type === 'n8n-nodes-base.set' ? this.setReads(node) : [];
+    return [...typed, ...this.readsIn(JSON.stringify(parameters), JSON_READ)];
+  }
+
+  // The condition's type comes from the v2 operator, the v1 list it sits in, or the operation
+  private static conditionReads(raw: unknown): FieldRead[] {
+    const conditions = asRecord(raw);
+    const entries: Array<{ value: unknown; type?: string; operation: string }> = [];
+
+    asArray(conditions.conditions).forEach(entry => {
+      const condition = asRecord(entry);
+      const operator = asRecord(condition.operator);
+      entries.push({ value: condition.leftValue, type: String(operator.type || ''), operation: String(operator.operation || '') });
+    });
+
+    const options = asRecord(conditions.options);
+    if (options.leftValue !== undefined) {
+      entries.push({ value: options.leftValue, operation: String(options.operation || '') });
+    }
+
+    ['string', 'number', 'boolean', 'dateTime'].forEach(type => {
+      asArray(conditions[type]).forEach(entry => {
+        const condition = asRecord(entry);
+        entries.push({ value: condition.value1, type, operation: String(condition.operation || '') });
+      });
+    });
+
+    return entries.flatMap(entry => {
+      const type = this.conditionType(entry.type, entry.operation);
+      const optional = /exist|empty/i.test(entry.operation);
+      return this.readsIn(String(entry.value ?? ''), JSON_READ)
+        .map(read => ({ ...read, type: read.type || type, optional: read.optional || optional }));
+    });
+  }
+
+  private static conditionType(type: string | undefined, operation: string): InputFieldType | undefined {
+    if (type === 'number' || /^(larger|smaller|gt|gte|lt|lte)/i.test(operation)) return 'number';
+    if (type === 'boolean' || /^(true|false)$/i.test(operation)) return 'boolean';
+    if (type === 'array' || type === 'object') return type;
+    return undefined;
+  }
+
+  // A Set value that is exactly one field read tells the field's type
+  private static setReads(node: N8nNode): FieldRead[] {
+    const parameters = asRecord(node.parameters);
+    const values: Array<{ value: unknown; type?: string }> = [];
+
+    asArray(asRecord(parameters.assignments).assignments).forEach(entry => {
+      const assignment = asRecord(entry);
+      values.push({ value: assignment.value, type: String(assignment.type || '') });
+    });
+    asArray(asRecord(parameters.fields).values).forEach(entry => {
+      const field = asRecord(entry);
+      const type = String(field.type || '').replace(/Value$/, '');
+      values.push({ value: field[`${type}Value`] ?? field.stringValue, type });
+    });
+    Object.entries(asRecord(parameters.values)).forEach(([type, list]) => {
+      asArray(list).forEach(entry => values.push({ value: asRecord(entry).value, type }));
+    });
+
+    return values.flatMap(({ value, type }) => {
+      const match = String(value ?? '').match(new RegExp(String.raw`^=?\{\{\s*\$json${PATH}\s*\}\}$`));
+      if (!match) return [];
+      const fieldType = ['number', 'boolean', 'array', 'object'].includes(type || '') ? type as InputFieldType : undefined;
+      return [{ name: this.pathToName(match[1]), type: fieldType, optional: false }];
+    });
+  }
+
+  private static setFieldNames(node: N8nNode): string[] {
+    const parameters = asRecord(node.parameters);
+    return [
+      ...asArray(asRecord(parameters.assignments).assignments),
+      ...asArray(asRecord(parameters.fields).values),
+      ...Object.values(asRecord(parameters.values)).flatMap(asArray)
+    ]
+      .map(entry => String(asRecord(entry).name || ''))
+      .filter(name => name.length > 0);
+  }
+
+  private static readsIn(text: string, pattern: RegExp): FieldRead[] {
+    const reads: FieldRead[] = [];
+    for (const match of text.matchAll(pattern)) {
+      const rest = text.slice((match.index || 0) + match[0].length);
+      reads.push({
+        name: this.pathToName(match[1]),
+        type: ARRAY_METHODS.test(rest) ? 'array' : undefined,
+        optional: OPTIONAL_SUFFIX.test(rest)
+      });
+    }
+    return reads;
+  }
+
+  // ".customer['email']" → "customer.email"
+  private static pathToName(path: string): string {
+    return path.replace(/\[\\?["']([^"'\\]+)\\?["']\]/g, '.$1').replace(/^\./, '');
+  }
+
+  private static stripWebhookPrefix(name: string): string {
+    const [root, ...rest] = name.split('.');
+    if (root === 'body' || root === 'query') return rest.join('.');
+    return WEBHOOK_METADATA.includes(root) ? '' : name;
+  }
+
+  // The trigger node, or else the first node nothing connects into
+  private static findTrigger(workflow: Pick<N8nWorkflow, 'nodes' | 'connections'> | null | undefined): N8nNode | undefined {
+    const nodes = (workflow?.nodes || []).filter(node => !node.disabled);
+    const targeted = new Set(Object.keys(workflow?.connections || {}).flatMap(name => this.targets(workflow, name)));
+    const roots = nodes.filter(node => !targeted.has(node.name));
+    return roots.find(node => node.type === WEBHOOK_TYPE || /trigger$/i.test(node.type)) || roots[0];
+  }
+
+  private static targets(workflow: Pick<N8nWorkflow, 'connections'> | null | undefined, name: string): string[] {
+    return (workflow?.connections?.[name]?.main || []).flatMap(output => (output || []).map(connection => connection.node));
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { InteractionStatus, WorkflowInteraction } from '@/hooks/useWorkflowInteractions';
+import { InteractionStats } from './interactionStats';
+
+// Timestamps are built in local time, since days are grouped by the viewer's calendar
+const run = (day: number, status: InteractionStatus, latency: number | null, hour = 12): WorkflowInteraction => ({
+  id: `${day}-${hour}-${status}`,
+  workflow_id: 'workflow-1',
+  input_data: null,
+  output_data: null,
+  execution_time_ms: latency,
+  status,
+  timestamp: new Date(2025, 5, day, hour).toISOString()
+});
+
+describe('InteractionStats.percentile', () => {
+  it('uses the nearest rank', () => {
+    const values = [50, 10, 40, 20, 30];
+
+    expect(InteractionStats.percentile(values, 50)).toBe(30);
+    expect(InteractionStats.percentile(values, 95)).toBe(50);
+    expect(InteractionStats.percentile(values, 0)).toBe(10);
+    expect(InteractionStats.percentile([7], 95)).toBe(7);
+    expect(InteractionStats.percentile([], 50)).toBeNull();
+  });
+});
+
+describe('InteractionStats.summarize', () => {
+  it('aggregates success rate and latency, skipping runs without a duration', () => {
+    expect(InteractionStats.summarize([
+      run(1, 'success', 100),
+      run(1, 'success', 300),
+      run(1, 'error', 200),
+      run(1, 'error', null)
+    ])).toEqual({ total: 4, success: 2, error: 2, successRate: 0.5, p50: 200, p95: 300 });
+  });
+
+  it('reports no rate or latency without runs', () => {
+    expect(InteractionStats.summarize([])).toEqual({ total: 0, success: 0, error: 0, successRate: 0, p50: null, p95: null });
+  });
+});
+
+describe('InteractionStats.daily', () => {
+  it('groups runs by local day and fills in days without runs', () => {
+    const days = InteractionStats.daily([
+      run(3, 'error', 500, 23),
+      run(1, 'success', 100, 0),
+      run(1, 'success', 200, 23)
+    ]);
+
+    expect(days).toEqual([
+      { date: '2025-06-01', total: 2, success: 2, error: 0, successRate: 1, p50: 100, p95: 200 },
+      { date: '2025-06-02', total: 0, success: 0, error: 0, successRate: 0, p50: null, p95: null },
+      { date: '2025-06-03', total: 1, success: 0, error: 1, successRate: 0, p50: 500, p95: 500 }
+    ]);
+    expect(InteractionStats.daily([])).toEqual([]);
+  });
+});
+
+describe('InteractionStats.filter', () => {
+  const runs = [run(1, 'success', 100), run(2, 'error', 200), run(3, 'success', 300)];
+
+  it('filters by status and inclusive day range', () => {
+    expect(InteractionStats.filter(runs, { status: 'success' }).map(entry => entry.id)).toEqual(['1-12-success', '3-12-success']);
+    expect(InteractionStats.filter(runs, { status: 'all', from: '2025-06-02', to: '2025-06-03' }).map(entry => entry.id))
+      .toEqual(['2-12-error', '3-12-success']);
+    expect(InteractionStats.filter(runs, { to: '2025-06-01' }).map(entry => entry.id)).toEqual(['1-12-success']);
+  });
+});
@@ -0,0 +1,89 @@
+import type { InteractionStatus, WorkflowInteraction } from '@/hooks/useWorkflowInteractions';
+
+export interface InteractionFilter {
+  status?: InteractionStatus | 'all';
+  // Inclusive calendar days as YYYY-MM-DD, in local time
+  from?: string;
+  to?: string;
+}
+
+export interface InteractionSummary {
+  total: number;
+  success: number;
+  error: number;
+  successRate: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+export interface DailyInteractionStats extends InteractionSummary {
+  date: string;
+}
+
+export class InteractionStats {
+  static filter(interactions: WorkflowInteraction[], filter: InteractionFilter): WorkflowInteraction[] {
+    return interactions.filter(interaction => {
+      if (filter.status && filter.status !== 'all' && interaction.status !== filter.status) return false;
+      const day = this.dayKey(interaction.timestamp);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return true;
+    });
+  }
+
+  static summarize(interactions: WorkflowInteraction[]): InteractionSummary {
+    const success = interactions.filter(interaction => interaction.status === 'success').length;
+    const latencies = interactions
+      .map(interaction => interaction.execution_time_ms)
+      .filter((value): value is number => typeof value === 'number');
+
+    return {
+      total: interactions.length,
+      success,
+      error: interactions.length - success,
+      successRate: interactions.length > 0 ? success / interactions.length : 0,
+      p50: this.percentile(latencies, 50),
+      p95: this.percentile(latencies, 95)
+    };
+  }
+
+  // One entry per calendar day from the first to the last run, including days without runs
+  static daily(interactions: WorkflowInteraction[]): DailyInteractionStats[] {
+    if (interactions.length === 0) return [];
+
+    const byDay = new Map<string, WorkflowInteraction[]>();
+    interactions.forEach(interaction => {
+      const day = this.dayKey(interaction.timestamp);
+      byDay.set(day, [...(byDay.get(day) || []), interaction]);
+    });
+
+    const days = [...byDay.keys()].sort();
+    const result: DailyInteractionStats[] = [];
+    for (let day = days[0]; day <= days[days.length - 1]; day = this.nextDay(day)) {
+      result.push({ date: day, ...this.summarize(byDay.get(day) || []) });
+    }
+    return result;
+  }
+
+  // Nearest-rank percentile; null when there are no values
+  static percentile(values: number[], percentile: number): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+  }
+
+  static dayKey(timestamp: string): string {
+    const date = new Date(timestamp);
+    return [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, '0'),
+      String(date.getDate()).padStart(2, '0')
+    ].join('-');
+  }
+
+  private static nextDay(day: string): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return this.dayKey(new Date(year, month - 1, date + 1).toISOString());
+  }
+}
@@ -1,6 +1,11 @@
 
-import { NodeService } from '@/services/nodeService';
+import { NodeService, type NodeWithParameters } from '@/services/nodeService';
 import { EnhancedWorkflowValidator } from './enhancedWorkflowValidator';
+import { createPlanProviderFromEnv, type WorkflowPlanProvider } from '@/services/workflowPlanProvider';
+import { step, type PlanBlock, type WorkflowPlan } from './workflowPlan';
+import { WorkflowPlanCompiler } from './workflowPlanCompiler';
+import { WorkflowLayout } from './workflowLayout';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
 import type { Database } from '@/integrations/supabase/types';
 
 type NodeDefinition = Database['public']['Tables']['node_definitions']['Row'];
@@ -12,22 +17,36 @@ export interface GeneratedWorkflow {
   nodes: any[];
   connections: any;
   json: any;
+  plan?: WorkflowPlan;
   validationResult?: any;
   recommendations?: string[];
 }
 
 export class ModernWorkflowGenerator {
-  private static nodeCounter = 0;
+  private static planProvider: WorkflowPlanProvider | null = createPlanProviderFromEnv();
+
+  static setPlanProvider(provider: WorkflowPlanProvider | null): void {
+    this.planProvider = provider;
+  }
 
   static async generateWorkflow(description: string): Promise<GeneratedWorkflow> {
     console.log('Generating workflow for:', description);
     
-    // Get node recommendations first
-    const recommendedNodes = await NodeService.recommendNodes(description);
-    console.log('Recommended nodes:', recommendedNodes);
-    
-    // Generate workflow structure based on description and recommendations
-    const workflow = await this.analyzeAndGenerate(description, recommendedNodes);
+    // Ask the configured LLM provider first, falling back to the offline templates
+    const provided = await this.planFromProvider(description);
+    let plan = provided?.plan;
+
+    if (!plan) {
+      // Get node recommendations first
+      const recommendedNodes = await NodeService.recommendNodes(description);
+      console.log('Recommended nodes:', recommendedNodes);
+      
+      // Generate workflow structure based on description and recommendations
+      plan = this.analyzeAndPlan(description, recommendedNodes);
+    }
+
+    // Provider plans follow the catalog's parameter layouts, so they get its typeVersions too
+    const workflow = this.buildWorkflow(description, plan, provided?.catalog);
     
     // Validate the generated workflow
     const validationResult = await EnhancedWorkflowValidator.validateWorkflowComprehensive(workflow.json);
@@ -45,20 +64,68 @@ export class ModernWorkflowGenerator {
     };
   }
 
-  private static async analyzeAndGenerate(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
+  static buildWorkflow(
+    description: string,
+    plan: WorkflowPlan,
+    catalog?: NodeWithParameters[]
+  ): Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'> {
+    const workflowJson = WorkflowPlanCompiler.compile(plan, { catalog });
+
+    return {
+      id: Date.now(),
+      name: plan.name,
+      description,
+      nodes: this.formatNodesForPreview(workflowJson.nodes),
+      connections: this.formatConnectionsForPreview(workflowJson.connections),
+      json: workflowJson,
+      plan
+    };
+  }
+
+  // Imported and refined workflows are laid out again so their positions match generated ones
+  static fromWorkflowJson(description: string, json: N8nWorkflow): Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'> {
+    const workflowJson = WorkflowLayout.apply(json);
+
+    return {
+      id: Date.now(),
+      name: workflowJson.name || this.generateWorkflowName(description),
+      description,
+      nodes: this.formatNodesForPreview(workflowJson.nodes || []),
+      connections: this.formatConnectionsForPreview(workflowJson.connections || {}),
+      json: workflowJson
+    };
+  }
+
+  private static async planFromProvider(description: string): Promise<{ plan: WorkflowPlan; catalog: NodeWithParameters[] } | null> {
+    if (!this.planProvider) {
+      return null;
+    }
+
+    try {
+      const catalog = await NodeService.getNodeDefinitions();
+      const plan = await this.planProvider.generatePlan({ description, catalog });
+      console.log(`Plan from ${this.planProvider.name} provider:`, plan);
+      return { plan, catalog };
+    } catch (error) {
+      console.warn('Plan provider failed, using template generation instead:', error);
+      return null;
+    }
+  }
+
+  private static analyzeAndPlan(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
     const lowerDesc = description.toLowerCase();
     
     // Determine workflow type and generate appropriate structure
     if (this.isWebhookWorkflow(lowerDesc)) {
-      return this.generateWebhookWorkflow(description, recommendedNodes);
+      return this.planWebhookWorkflow(description, recommendedNodes);
     } else if (this.isScheduledWorkflow(lowerDesc)) {
-      return this.generateScheduledWorkflow(description, recommendedNodes);
+      return this.planScheduledWorkflow(description, recommendedNodes);
     } else if (this.isConditionalWorkflow(lowerDesc)) {
-      return this.generateConditionalWorkflow(description, recommendedNodes);
+      return this.planConditionalWorkflow(description, recommendedNodes);
     } else if (this.isDataProcessingWorkflow(lowerDesc)) {
-      return this.generateDataProcessingWorkflow(description, recommendedNodes);
+      return this.planDataProcessingWorkflow(description, recommendedNodes);
     } else {
-      return this.generateBasicWorkflow(description, recommendedNodes);
+      return this.planBasicWorkflow(description, recommendedNodes);
     }
   }
 
@@ -78,48 +145,26 @@ export class ModernWorkflowGenerator {
     return /process|transform|convert|format|parse|extract/i.test(description);
   }
 
-  private static async generateWebhookWorkflow(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
-    const nodes: any[] = [];
-    let xPosition = 240;
-    const yPosition = 300;
+  private static planWebhookWorkflow(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
+    const blocks: PlanBlock[] = [];
 
     // Webhook trigger
-    const webhookNode = this.createNode('Webhook', 'n8n-nodes-base.webhook', xPosition, yPosition, {
+    const trigger = step('Webhook', 'n8n-nodes-base.webhook', {
       path: this.generateWebhookPath(description),
       httpMethod: this.detectHttpMethod(description),
       responseMode: 'onReceived'
     });
-    nodes.push(webhookNode);
-    xPosition += 220;
-
-    // Add processing based on description
-    if (description.toLowerCase().includes('validate') || description.toLowerCase().includes('check')) {
-      const ifNode = this.createNode('Validate Input', 'n8n-nodes-base.if', xPosition, yPosition, {
-        conditions: {
-          options: {
-            caseSensitive: true,
-            leftValue: '={{ Object.keys($json).length }}',
-            operation: 'larger',
-            rightValue: 0
-          }
-        }
-      });
-      nodes.push(ifNode);
-      xPosition += 220;
-    }
 
     // Add data processing
     if (description.toLowerCase().includes('process') || description.toLowerCase().includes('transform')) {
-      const codeNode = this.createNode('Process Data', 'n8n-nodes-base.code', xPosition, yPosition, {
+      blocks.push(step('Process Data', 'n8n-nodes-base.code', {
         jsCode: this.generateProcessingCode(description),
         mode: 'runOnceForAllItems'
-      });
-      nodes.push(codeNode);
-      xPosition += 220;
+      }));
     }
 
     // Response formatting
-    const responseNode = this.createNode('Format Response', 'n8n-nodes-base.set', xPosition, yPosition, {
+    blocks.push(step('Format Response', 'n8n-nodes-base.set', {
       fields: {
         values: [
           {
@@ -139,58 +184,79 @@ export class ModernWorkflowGenerator {
           }
         ]
       }
-    });
-    nodes.push(responseNode);
-
-    const workflowJson = {
-      name: this.generateWorkflowName(description),
-      nodes,
-      connections: this.generateLinearConnections(nodes),
-      active: false,
-      settings: {}
-    };
+    }));
 
-    return {
-      id: Date.now(),
-      name: this.generateWorkflowName(description),
-      description,
-      nodes: this.formatNodesForPreview(nodes),
-      connections: this.formatConnectionsForPreview(workflowJson.connections),
-      json: workflowJson
-    };
+    // Validation runs the steps above on valid input and answers everything else with an error
+    if (description.toLowerCase().includes('validate') || description.toLowerCase().includes('check')) {
+      const validated: PlanBlock = {
+        kind: 'branch',
+        name: 'Validate Input',
+        nodeType: 'n8n-nodes-base.if',
+        parameters: {
+          conditions: {
+            options: {
+              caseSensitive: true,
+              leftValue: '={{ Object.keys($json).length }}',
+              operation: 'larger',
+              rightValue: 0
+            }
+          }
+        },
+        expects: [{ name: '*', type: 'object', description: 'Any non-empty request body' }],
+        paths: [
+          { label: 'true', blocks },
+          {
+            label: 'false',
+            blocks: [
+              step('Reject Input', 'n8n-nodes-base.set', {
+                fields: {
+                  values: [
+                    {
+                      name: 'success',
+                      type: 'booleanValue',
+                      booleanValue: false
+                    },
+                    {
+                      name: 'message',
+                      type: 'stringValue',
+                      stringValue: 'Request body is empty'
+                    }
+                  ]
+                }
+              })
+            ]
+          }
+        ]
+      };
+      return { name: this.generateWorkflowName(description), trigger, blocks: [validated] };
+    }
+
+    return { name: this.generateWorkflowName(description), trigger, blocks };
   }
 
-  private static async generateDataProcessingWorkflow(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
-    const nodes: any[] = [];
-    let xPosition = 240;
-    const yPosition = 300;
+  private static planDataProcessingWorkflow(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
+    const blocks: PlanBlock[] = [];
 
     // Start with webhook or manual trigger
-    const triggerNode = this.createNode('Manual Trigger', 'n8n-nodes-base.manualTrigger', xPosition, yPosition, {});
-    nodes.push(triggerNode);
-    xPosition += 220;
+    const trigger = step('Manual Trigger', 'n8n-nodes-base.manualTrigger');
 
     // Data input (HTTP Request if API mentioned)
     if (description.toLowerCase().includes('api') || description.toLowerCase().includes('fetch')) {
-      const httpNode = this.createNode('Fetch Data', 'n8n-nodes-base.httpRequest', xPosition, yPosition, {
+      blocks.push(step('Fetch Data', 'n8n-nodes-base.httpRequest', {
         url: 'https://api.example.com/data',
         method: 'GET',
         authentication: 'none'
-      });
-      nodes.push(httpNode);
-      xPosition += 220;
+      }));
     }
 
     // Main processing with Code node
-    const processingNode = this.createNode('Process Data', 'n8n-nodes-base.code', xPosition, yPosition, {
+    blocks.push(step('Process Data', 'n8n-nodes-base.code', {
       jsCode: this.generateAdvancedProcessingCode(description),
       mode: 'runOnceForAllItems'
-    });
-    nodes.push(processingNode);
-    xPosition += 220;
+    }));
 
     // Output formatting
-    const outputNode = this.createNode('Format Output', 'n8n-nodes-base.set', xPosition, yPosition, {
+    blocks.push(step('Format Output', 'n8n-nodes-base.set', {
       fields: {
         values: [
           {
@@ -205,256 +271,129 @@ export class ModernWorkflowGenerator {
           }
         ]
       }
-    });
-    nodes.push(outputNode);
-
-    const workflowJson = {
-      name: this.generateWorkflowName(description),
-      nodes,
-      connections: this.generateLinearConnections(nodes),
-      active: false,
-      settings: {}
-    };
+    }));
 
-    return {
-      id: Date.now(),
-      name: this.generateWorkflowName(description),
-      description,
-      nodes: this.formatNodesForPreview(nodes),
-      connections: this.formatConnectionsForPreview(workflowJson.connections),
-      json: workflowJson
-    };
+    return { name: this.generateWorkflowName(description), trigger, blocks };
   }
 
-  private static async generateConditionalWorkflow(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
-    const nodes: any[] = [];
-    let xPosition = 240;
-    const yPosition = 300;
-
+  private static planConditionalWorkflow(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
     // Webhook trigger
-    const webhookNode = this.createNode('Webhook', 'n8n-nodes-base.webhook', xPosition, yPosition, {
+    const trigger = step('Webhook', 'n8n-nodes-base.webhook', {
       path: this.generateWebhookPath(description),
       httpMethod: 'POST'
     });
-    nodes.push(webhookNode);
-    xPosition += 220;
-
-    // Condition check
-    const ifNode = this.createNode('Check Condition', 'n8n-nodes-base.if', xPosition, yPosition, {
-      conditions: {
-        options: {
-          caseSensitive: true,
-          leftValue: '={{ $json.status }}',
-          operation: 'equal',
-          rightValue: 'active'
-        }
-      }
-    });
-    nodes.push(ifNode);
-    xPosition += 220;
 
-    // True branch
-    const trueBranchNode = this.createNode('Handle True Case', 'n8n-nodes-base.set', xPosition, yPosition - 100, {
-      fields: {
-        values: [
-          {
-            name: 'result',
-            type: 'stringValue',
-            stringValue: 'Condition met - processing approved'
-          },
-          {
-            name: 'action',
-            type: 'stringValue',
-            stringValue: 'approved'
+    // Condition check with one path per If output
+    const blocks: PlanBlock[] = [
+      {
+        kind: 'branch',
+        name: 'Check Condition',
+        nodeType: 'n8n-nodes-base.if',
+        parameters: {
+          conditions: {
+            options: {
+              caseSensitive: true,
+              leftValue: '={{ $json.status }}',
+              operation: 'equal',
+              rightValue: 'active'
+            }
           }
-        ]
-      }
-    });
-    nodes.push(trueBranchNode);
-
-    // False branch
-    const falseBranchNode = this.createNode('Handle False Case', 'n8n-nodes-base.set', xPosition, yPosition + 100, {
-      fields: {
-        values: [
+        },
+        expects: [{ name: 'status', type: 'string', required: true }],
+        paths: [
           {
-            name: 'result',
-            type: 'stringValue',
-            stringValue: 'Condition not met - processing rejected'
+            label: 'true',
+            blocks: [
+              step('Handle True Case', 'n8n-nodes-base.set', {
+                fields: {
+                  values: [
+                    {
+                      name: 'result',
+                      type: 'stringValue',
+                      stringValue: 'Condition met - processing approved'
+                    },
+                    {
+                      name: 'action',
+                      type: 'stringValue',
+                      stringValue: 'approved'
+                    }
+                  ]
+                }
+              })
+            ]
           },
           {
-            name: 'action',
-            type: 'stringValue',
-            stringValue: 'rejected'
+            label: 'false',
+            blocks: [
+              step('Handle False Case', 'n8n-nodes-base.set', {
+                fields: {
+                  values: [
+                    {
+                      name: 'result',
+                      type: 'stringValue',
+                      stringValue: 'Condition not met - processing rejected'
+                    },
+                    {
+                      name: 'action',
+                      type: 'stringValue',
+                      stringValue: 'rejected'
+                    }
+                  ]
+                }
+              })
+            ]
           }
         ]
       }
-    });
-    nodes.push(falseBranchNode);
-
-    const workflowJson = {
-      name: this.generateWorkflowName(description),
-      nodes,
-      connections: this.generateConditionalConnections(nodes),
-      active: false,
-      settings: {}
-    };
+    ];
 
-    return {
-      id: Date.now(),
-      name: this.generateWorkflowName(description),
-      description,
-      nodes: this.formatNodesForPreview(nodes),
-      connections: this.formatConnectionsForPreview(workflowJson.connections),
-      json: workflowJson
-    };
+    return { name: this.generateWorkflowName(description), trigger, blocks };
   }
 
-  private static async generateScheduledWorkflow(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
-    const nodes: any[] = [];
-    let xPosition = 240;
-    const yPosition = 300;
+  private static planScheduledWorkflow(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
+    const blocks: PlanBlock[] = [];
 
     // Cron trigger
-    const cronNode = this.createNode('Schedule Trigger', 'n8n-nodes-base.cron', xPosition, yPosition, {
+    const trigger = step('Schedule Trigger', 'n8n-nodes-base.cron', {
       triggerTimes: {
         item: [{ mode: 'everyMinute' }]
       }
     });
-    nodes.push(cronNode);
-    xPosition += 220;
 
     // Data fetching if API mentioned
     if (description.toLowerCase().includes('api') || description.toLowerCase().includes('fetch')) {
-      const httpNode = this.createNode('Fetch Data', 'n8n-nodes-base.httpRequest', xPosition, yPosition, {
+      blocks.push(step('Fetch Data', 'n8n-nodes-base.httpRequest', {
         url: 'https://api.example.com/data',
         method: 'GET',
         authentication: 'none'
-      });
-      nodes.push(httpNode);
-      xPosition += 220;
+      }));
     }
 
     // Processing
-    const processingNode = this.createNode('Process Scheduled Task', 'n8n-nodes-base.code', xPosition, yPosition, {
+    blocks.push(step('Process Scheduled Task', 'n8n-nodes-base.code', {
       jsCode: this.generateScheduledProcessingCode(description),
       mode: 'runOnceForAllItems'
-    });
-    nodes.push(processingNode);
-
-    const workflowJson = {
-      name: this.generateWorkflowName(description),
-      nodes,
-      connections: this.generateLinearConnections(nodes),
-      active: false,
-      settings: {}
-    };
+    }));
 
-    return {
-      id: Date.now(),
-      name: this.generateWorkflowName(description),
-      description,
-      nodes: this.formatNodesForPreview(nodes),
-      connections: this.formatConnectionsForPreview(workflowJson.connections),
-      json: workflowJson
-    };
+    return { name: this.generateWorkflowName(description), trigger, blocks };
   }
 
-  private static async generateBasicWorkflow(description: string, recommendedNodes: NodeDefinition[]): Promise<Omit<GeneratedWorkflow, 'validationResult' | 'recommendations'>> {
-    const nodes: any[] = [];
-    let xPosition = 240;
-    const yPosition = 300;
-
+  private static planBasicWorkflow(description: string, recommendedNodes: NodeDefinition[]): WorkflowPlan {
     // Manual trigger
-    const triggerNode = this.createNode('Manual Trigger', 'n8n-nodes-base.manualTrigger', xPosition, yPosition, {});
-    nodes.push(triggerNode);
-    xPosition += 220;
+    const trigger = step('Manual Trigger', 'n8n-nodes-base.manualTrigger');
 
     // Basic processing
-    const processingNode = this.createNode('Process Data', 'n8n-nodes-base.code', xPosition, yPosition, {
-      jsCode: this.generateBasicProcessingCode(description),
-      mode: 'runOnceForAllItems'
-    });
-    nodes.push(processingNode);
-
-    const workflowJson = {
-      name: this.generateWorkflowName(description),
-      nodes,
-      connections: this.generateLinearConnections(nodes),
-      active: false,
-      settings: {}
-    };
+    const blocks: PlanBlock[] = [
+      step('Process Data', 'n8n-nodes-base.code', {
+        jsCode: this.generateBasicProcessingCode(description),
+        mode: 'runOnceForAllItems'
+      })
+    ];
 
-    return {
-      id: Date.now(),
-      name: this.generateWorkflowName(description),
-      description,
-      nodes: this.formatNodesForPreview(nodes),
-      connections: this.formatConnectionsForPreview(workflowJson.connections),
-      json: workflowJson
-    };
+    return { name: this.generateWorkflowName(description), trigger, blocks };
   }
 
   // Helper methods
-  private static createNode(name: string, type: string, x: number, y: number, parameters: any): any {
-    return {
-      name,
-      type,
-      typeVersion: this.getNodeTypeVersion(type),
-      position: [x, y],
-      parameters,
-      id: `${name.replace(/\s+/g, '')}_${++this.nodeCounter}`
-    };
-  }
-
-  private static getNodeTypeVersion(nodeType: string): number {
-    const versionMap: Record<string, number> = {
-      'n8n-nodes-base.webhook': 2,
-      'n8n-nodes-base.code': 2,
-      'n8n-nodes-base.set': 3,
-      'n8n-nodes-base.httpRequest': 4,
-      'n8n-nodes-base.if': 2,
-      'n8n-nodes-base.switch': 3,
-      'n8n-nodes-base.cron': 1,
-      'n8n-nodes-base.manualTrigger': 1
-    };
-    return versionMap[nodeType] || 1;
-  }
-
-  private static generateLinearConnections(nodes: any[]): Record<string, any> {
-    const connections: Record<string, any> = {};
-    
-    for (let i = 0; i < nodes.length - 1; i++) {
-      connections[nodes[i].name] = {
-        main: [[{ node: nodes[i + 1].name, type: 'main', index: 0 }]]
-      };
-    }
-    
-    return connections;
-  }
-
-  private static generateConditionalConnections(nodes: any[]): Record<string, any> {
-    const connections: Record<string, any> = {};
-    
-    // Connect first to second node
-    if (nodes.length >= 2) {
-      connections[nodes[0].name] = {
-        main: [[{ node: nodes[1].name, type: 'main', index: 0 }]]
-      };
-    }
-    
-    // Connect If node to both branches
-    if (nodes.length >= 4) {
-      connections[nodes[1].name] = {
-        main: [
-          [{ node: nodes[2].name, type: 'main', index: 0 }], // True branch
-          [{ node: nodes[3].name, type: 'main', index: 0 }]  // False branch
-        ]
-      };
-    }
-    
-    return connections;
-  }
-
   private static formatNodesForPreview(nodes: any[]): any[] {
     return nodes.map(node => ({
       id: node.id || node.name,
@@ -486,6 +425,10 @@ export class ModernWorkflowGenerator {
       'n8n-nodes-base.httpRequest': 'HTTP Request',
       'n8n-nodes-base.if': 'If',
       'n8n-nodes-base.switch': 'Switch',
+      'n8n-nodes-base.merge': 'Merge',
+      'n8n-nodes-base.splitInBatches': 'Loop Over Items',
+      'n8n-nodes-base.slack': 'Slack',
+      'n8n-nodes-base.emailSend': 'Send Email',
       'n8n-nodes-base.cron': 'Schedule Trigger',
       'n8n-nodes-base.manualTrigger': 'Manual Trigger'
     };
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { N8nExpression } from './n8nExpression';
+
+const data = {
+  items: [{ json: { name: 'Ada', tags: ['a', 'b'] } }, { json: { name: 'Grace', tags: [] } }],
+  nodes: { Config: [{ json: { greeting: 'Hello' } }] },
+  now: new Date(2025, 5, 1, 9, 30, 0)
+};
+
+describe('N8nExpression', () => {
+  it('keeps raw values for lone expressions and builds strings around text', async () => {
+    expect(await N8nExpression.evaluate('={{ $json.tags }}', data)).toEqual(['a', 'b']);
+    expect(await N8nExpression.evaluate('={{ $("Config").json.greeting }}, {{ $json.name }}!', data)).toBe('Hello, Ada!');
+    expect(await N8nExpression.evaluate('={{ $now.toFormat("yyyy-MM-dd HH:mm") }}', data)).toBe('2025-06-01 09:30');
+    expect(await N8nExpression.evaluate('plain', data)).toBe('plain');
+  });
+
+  it('resolves a parameter tree once per item', async () => {
+    const parameters = { text: '={{ $json.name }} #{{ $itemIndex }}', nested: [{ count: '={{ $json.tags.length }}' }], fixed: 3 };
+
+    expect(await N8nExpression.resolveParametersForItems(parameters, data, [0, 1])).toEqual([
+      { text: 'Ada #0', nested: [{ count: 2 }], fixed: 3 },
+      { text: 'Grace #1', nested: [{ count: 0 }], fixed: 3 }
+    ]);
+    expect(await N8nExpression.resolveParameters({ fixed: 3 }, data)).toEqual({ fixed: 3 });
+  });
+
+  it('reports each failing expression on its own', async () => {
+    const results = await N8nExpression.evaluateAll(['={{ $json.name }}', '={{ $("Missing").json }}', '={{ 1 + }}'], data);
+
+    expect(results[0]).toEqual({ value: 'Ada' });
+    expect(results[1].error).toBe('Expression "{{ $("Missing").json }}" failed: Referenced node "Missing" has not been executed');
+    expect(results[2].error).toMatch(/^Invalid expression "\{\{ 1 \+ \}\}"/);
+    await expect(N8nExpression.resolveParameters({ value: '={{ $("Missing").json }}' }, data)).rejects.toThrow('has not been executed');
+  });
+
+  it('keeps expressions away from the host', async () => {
+    const [viaPayload, viaThis, built, imported] = await N8nExpression.evaluateAll([
+      '={{ typeof $json.constructor.constructor("return process")() }}',
+      '={{ typeof (function () { return this; })().process }}',
+      '={{ [].map.constructor("return 1")() }}',
+      '={{ import("node:fs") }}'
+    ], data);
+
+    expect(viaPayload.error).toMatch(/Building functions from strings is disabled/);
+    expect(viaThis.value).toBe('undefined');
+    expect(built.error).toMatch(/Building functions from strings is disabled/);
+    expect(imported.error).toMatch(/import\(\) is not available in expressions/);
+  });
+
+  it('stops expressions that never return', async () => {
+    await expect(N8nExpression.evaluate('={{ (() => { while (true) {} })() }}', data, { timeoutMs: 200 }))
+      .rejects.toThrow('Expression evaluation timed out after 200ms');
+  });
+
+  it('checks syntax without running anything', () => {
+    expect(N8nExpression.validate('={{ $json.name }}')).toBeNull();
+    expect(N8nExpression.validate('={{ $json. }}')).toMatch(/^Invalid expression/);
+  });
+});
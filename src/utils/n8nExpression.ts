@@ -0,0 +1,362 @@
+// Evaluates n8n parameter expressions: strings starting with "=" whose {{ }} segments are
+// JavaScript run against the n8n globals ($json, $input, $node, $now, $items, $).
+
+import { CodeSandbox } from './codeSandbox';
+
+export interface ExpressionItem {
+  json: Record<string, unknown>;
+}
+
+export interface ExpressionData {
+  item?: ExpressionItem;
+  items?: ExpressionItem[];
+  itemIndex?: number;
+  // Latest output (first output branch) of every node that has run
+  nodes?: Record<string, ExpressionItem[]>;
+  now?: Date;
+}
+
+export type ExpressionSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'expression'; value: string };
+
+export interface ExpressionResult {
+  value?: unknown;
+  error?: string;
+}
+
+export interface ExpressionOptions {
+  timeoutMs?: number;
+}
+
+interface ExpressionPayload {
+  // Segments of each expression string; text segments are joined with the evaluated ones
+  expressions: ExpressionSegment[][];
+  items: ExpressionItem[];
+  item?: ExpressionItem;
+  itemIndexes: number[];
+  nodes: Record<string, ExpressionItem[]>;
+  now: number;
+}
+
+// Names an expression sees; expressionRunner keeps its own copy since it cannot import
+const EXPRESSION_GLOBALS = ['$json', '$input', '$itemIndex', '$node', '$', '$items', '$now', '$today'];
+
+const DEFAULT_TIMEOUT_MS = 1000;
+
+const NODE_REFERENCE_PATTERNS = [
+  /\$node\[\s*(['"])((?:(?!\1).)+)\1\s*\]/g,
+  /\$node\.([A-Za-z_$][\w$]*)/g,
+  /\$\(\s*(['"])((?:(?!\1).)+)\1\s*\)/g,
+  /\$items\(\s*(['"])((?:(?!\1).)+)\1/g
+];
+
+// Self-contained on purpose: CodeSandbox ships its source to a Worker or worker thread, so it
+// must not reference anything outside its own body. Returns one result per item index and
+// expression, as JSON.
+function expressionRunner(payload: ExpressionPayload, harden: () => void): string {
+  const names = ['$json', '$input', '$itemIndex', '$node', '$', '$items', '$now', '$today'];
+  const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+  const items = payload.items;
+  const nodes = payload.nodes;
+
+  // n8n's $now and $today are Luxon DateTimes; the most used helpers are mirrored on a Date
+  const withLuxonHelpers = (date: Date) => Object.assign(date, {
+    toISO: () => date.toISOString(),
+    toMillis: () => date.getTime(),
+    toFormat: (format: string) => format
+      .replace('yyyy', String(date.getFullYear()))
+      .replace('MM', String(date.getMonth() + 1).padStart(2, '0'))
+      .replace('dd', String(date.getDate()).padStart(2, '0'))
+      .replace('HH', String(date.getHours()).padStart(2, '0'))
+      .replace('mm', String(date.getMinutes()).padStart(2, '0'))
+      .replace('ss', String(date.getSeconds()).padStart(2, '0'))
+  });
+
+  const globalsFor = (itemIndex: number): unknown[] => {
+    const item = payload.item || items[itemIndex] || { json: {} };
+    const now = new Date(payload.now);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const nodeData = (name: string) => {
+      if (!(name in nodes)) {
+        throw new Error(`Referenced node "${name}" has not been executed`);
+      }
+      const output = nodes[name];
+      return {
+        json: output[0]?.json || {},
+        item: output[itemIndex] || output[0],
+        all: () => output,
+        first: () => output[0],
+        last: () => output[output.length - 1],
+        isExecuted: true
+      };
+    };
+
+    return [
+      item.json,
+      { item, all: () => items, first: () => items[0], last: () => items[items.length - 1] },
+      itemIndex,
+      new Proxy({}, { get: (_target, name) => (typeof name === 'string' ? nodeData(name) : undefined) }),
+      nodeData,
+      (name?: string) => (name ? nodeData(name).all() : items),
+      withLuxonHelpers(now),
+      withLuxonHelpers(today)
+    ];
+  };
+
+  type Part = string | { code: string; fn: (...args: unknown[]) => unknown };
+  const prepared = payload.expressions.map(segments => {
+    try {
+      const parts: Part[] = segments.map(segment => {
+        if (segment.kind === 'text') return segment.value;
+        try {
+          return { code: segment.value, fn: new Function(...names, `return (${segment.value});`) as (...args: unknown[]) => unknown };
+        } catch (error) {
+          throw new Error(`Invalid expression "{{ ${segment.value} }}": ${messageOf(error)}`);
+        }
+      });
+      return { parts };
+    } catch (error) {
+      return { parts: [] as Part[], error: messageOf(error) };
+    }
+  });
+  // Everything is compiled; nothing built from strings after this point
+  harden();
+
+  const call = (part: Exclude<Part, string>, globals: unknown[]) => {
+    try {
+      return part.fn.apply({}, globals);
+    } catch (error) {
+      throw new Error(`Expression "{{ ${part.code} }}" failed: ${messageOf(error)}`);
+    }
+  };
+
+  // A lone {{ }} keeps the raw value; mixed with text the result is a string
+  const evaluate = (parts: Part[], globals: unknown[]): unknown => {
+    if (parts.length === 1 && typeof parts[0] !== 'string') return call(parts[0], globals);
+    return parts
+      .map(part => {
+        if (typeof part === 'string') return part;
+        const result = call(part, globals);
+        if (result === undefined || result === null) return '';
+        return typeof result === 'object' ? JSON.stringify(result) : String(result);
+      })
+      .join('');
+  };
+
+  return JSON.stringify(payload.itemIndexes.map(itemIndex => {
+    const globals = globalsFor(itemIndex);
+    return prepared.map(({ parts, error }) => {
+      if (error) return { error };
+      try {
+        const value = evaluate(parts, globals);
+        // Values leave the sandbox as JSON; fail here on ones that cannot
+        return { value: value === undefined ? undefined : JSON.parse(JSON.stringify(value)) };
+      } catch (evaluationError) {
+        return { error: messageOf(evaluationError) };
+      }
+    });
+  }));
+}
+
+export class N8nExpression {
+  static isExpression(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith('=') && value.includes('{{');
+  }
+
+  // Splits "=Hello {{ $json.name }}!" into text and expression segments; braces inside
+  // strings and object literals do not end an expression
+  static parse(value: string): ExpressionSegment[] {
+    const source = value.startsWith('=') ? value.slice(1) : value;
+    const segments: ExpressionSegment[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+      const open = source.indexOf('{{', position);
+      if (open === -1) {
+        segments.push({ kind: 'text', value: source.slice(position) });
+        break;
+      }
+      if (open > position) {
+        segments.push({ kind: 'text', value: source.slice(position, open) });
+      }
+
+      const close = this.findClose(source, open + 2);
+      if (close === -1) {
+        throw new Error(`Unclosed expression starting at "${source.slice(open, open + 20)}"`);
+      }
+      segments.push({ kind: 'expression', value: source.slice(open + 2, close).trim() });
+      position = close + 2;
+    }
+
+    return segments;
+  }
+
+  // Expressions run in CodeSandbox with cloned data; a lone {{ }} returns the raw value
+  // (as JSON), mixed with text the result is a string
+  static async evaluate(value: string, data: ExpressionData = {}, options: ExpressionOptions = {}): Promise<unknown> {
+    if (!value.startsWith('=')) return value;
+
+    const [result] = await this.evaluateAll([value], data, options);
+    if (result.error) throw new Error(result.error);
+    return result.value;
+  }
+
+  static async tryEvaluate(value: string, data: ExpressionData = {}, options: ExpressionOptions = {}): Promise<ExpressionResult> {
+    try {
+      return { value: await this.evaluate(value, data, options) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Results line up with the expressions; one failing does not affect the others
+  static async evaluateAll(expressions: string[], data: ExpressionData = {}, options: ExpressionOptions = {}): Promise<ExpressionResult[]> {
+    const [results] = await this.evaluateBatch(expressions, data, [data.itemIndex ?? 0], options);
+    return results;
+  }
+
+  // Resolves every expression in a parameter tree, leaving plain values untouched
+  static async resolveParameters(value: unknown, data: ExpressionData = {}, options: ExpressionOptions = {}): Promise<unknown> {
+    const [resolved] = await this.resolveParametersForItems(value, data, [data.itemIndex ?? 0], options);
+    return resolved;
+  }
+
+  // One resolved tree per item index, evaluated in a single sandbox run
+  static async resolveParametersForItems(
+    value: unknown,
+    data: ExpressionData,
+    itemIndexes: number[],
+    options: ExpressionOptions = {}
+  ): Promise<unknown[]> {
+    const expressions = [...new Set(this.collect(value).map(entry => entry.expression))];
+    if (expressions.length === 0) {
+      return itemIndexes.map(() => this.substitute(value, new Map()));
+    }
+
+    const batches = await this.evaluateBatch(expressions, data, itemIndexes, options);
+    return batches.map(results => {
+      const byExpression = new Map(expressions.map((expression, index) => [expression, results[index]]));
+      return this.substitute(value, byExpression);
+    });
+  }
+
+  // Every expression string in a parameter tree, keyed by dot path
+  static collect(value: unknown, path = ''): Array<{ path: string; expression: string }> {
+    if (this.isExpression(value)) return [{ path, expression: value }];
+    if (Array.isArray(value)) {
+      return value.flatMap((entry, index) => this.collect(entry, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, entry]) => this.collect(entry, path ? `${path}.${key}` : key));
+    }
+    return [];
+  }
+
+  // Returns a syntax error message, or null when every segment compiles
+  static validate(value: string): string | null {
+    try {
+      this.parse(value)
+        .filter(segment => segment.kind === 'expression')
+        .forEach(segment => this.compile(segment.value));
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  static referencedNodes(value: string): string[] {
+    const names = new Set<string>();
+    NODE_REFERENCE_PATTERNS.forEach(pattern => {
+      for (const match of value.matchAll(pattern)) {
+        names.add(match[2] ?? match[1]);
+      }
+    });
+    return [...names];
+  }
+
+  private static async evaluateBatch(
+    expressions: string[],
+    data: ExpressionData,
+    itemIndexes: number[],
+    options: ExpressionOptions
+  ): Promise<ExpressionResult[][]> {
+    // Parse and import errors are reported without a sandbox run
+    const parsed = expressions.map(expression => {
+      try {
+        const segments = this.parse(expression);
+        const imported = segments.find(segment => segment.kind === 'expression' && CodeSandbox.usesDynamicImport(segment.value));
+        if (imported) {
+          return { segments: [], error: `Expression "{{ ${imported.value} }}" failed: import() is not available in expressions` };
+        }
+        return { segments };
+      } catch (error) {
+        return { segments: [], error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    const payload: ExpressionPayload = {
+      expressions: parsed.map(entry => entry.segments),
+      items: JSON.parse(JSON.stringify(data.items || (data.item ? [data.item] : []))),
+      ...(data.item ? { item: JSON.parse(JSON.stringify(data.item)) } : {}),
+      itemIndexes,
+      nodes: JSON.parse(JSON.stringify(data.nodes || {})),
+      now: new Date(data.now || Date.now()).getTime()
+    };
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const raw = await CodeSandbox.isolate(expressionRunner, payload, timeoutMs, 'Expression evaluation');
+
+    return (JSON.parse(raw) as ExpressionResult[][]).map(results =>
+      results.map((result, index) => (parsed[index].error ? { error: parsed[index].error } : result))
+    );
+  }
+
+  private static substitute(value: unknown, results: Map<string, ExpressionResult>): unknown {
+    if (typeof value === 'string') {
+      const result = results.get(value);
+      if (!result) return value;
+      if (result.error) throw new Error(result.error);
+      return result.value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => this.substitute(entry, results));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.substitute(entry, results)]));
+    }
+    return value;
+  }
+
+  // Only compiles, for syntax checks; expressions never run outside CodeSandbox
+  private static compile(code: string) {
+    try {
+      return new Function(...EXPRESSION_GLOBALS, `return (${code});`);
+    } catch (error) {
+      throw new Error(`Invalid expression "{{ ${code} }}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private static findClose(source: string, start: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let index = start; index < source.length; index++) {
+      const char = source[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+      if (char === '"' || char === "'" || char === '`') quote = char;
+      else if (char === '{') depth++;
+      else if (char === '}') {
+        if (depth === 0 && source[index + 1] === '}') return index;
+        depth = Math.max(0, depth - 1);
+      }
+    }
+
+    return -1;
+  }
+}
@@ -0,0 +1,212 @@
+import type { NodeCredentialSeed, NodeDefinitionSeed, NodeDisplayOptions, NodeParameterSeed } from '@/utils/nodeSeeder';
+
+// The parts of n8n's INodeTypeDescription (n8n-workflow) the catalog uses
+export interface NodeTypeDescription {
+  name: string;
+  displayName: string;
+  description?: string;
+  icon?: string;
+  group?: string[];
+  version: number | number[];
+  hidden?: boolean;
+  properties?: NodeProperty[];
+  credentials?: Array<{ name: string; required?: boolean; displayOptions?: NodeDisplayOptions }>;
+  codex?: { categories?: string[] };
+}
+
+export interface NodeProperty {
+  name: string;
+  displayName: string;
+  type: string;
+  default?: unknown;
+  required?: boolean;
+  description?: string;
+  displayOptions?: NodeDisplayOptions;
+  typeOptions?: Record<string, unknown>;
+  // Choices for options/multiOptions, child properties for collection, and named groups of
+  // child properties for fixedCollection
+  options?: Array<NodePropertyOption | NodeProperty | NodePropertyGroup>;
+}
+
+interface NodePropertyOption {
+  name: string;
+  value: string | number | boolean;
+  description?: string;
+}
+
+interface NodePropertyGroup {
+  name: string;
+  displayName: string;
+  values: NodeProperty[];
+}
+
+export interface NodeImportResult {
+  definitions: NodeDefinitionSeed[];
+  // Entries that are not node descriptions
+  skipped: number;
+}
+
+// Editor-only properties that never appear in a node's parameters
+const UI_ONLY_TYPES = ['notice', 'button', 'curlImport', 'callout'];
+
+const versionsOf = (description: NodeTypeDescription): number[] =>
+  (Array.isArray(description.version) ? description.version : [description.version]).filter(version => typeof version === 'number');
+
+const isDescription = (value: unknown): value is NodeTypeDescription => {
+  const candidate = value as NodeTypeDescription;
+  return Boolean(candidate) && typeof candidate.name === 'string' && typeof candidate.displayName === 'string'
+    && (typeof candidate.version === 'number' || Array.isArray(candidate.version));
+};
+
+// Maps node descriptions as dumped from an n8n package (e.g. n8n-nodes-base/dist/types/nodes.json)
+// to catalog seeds. Versioned nodes are listed once per description, each covering the typeVersions
+// that share its parameters; every description becomes its own definition.
+export class NodeDescriptionImporter {
+  static parse(text: string, packageName = 'n8n-nodes-base'): NodeImportResult {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Not valid JSON: ${(error as Error).message}`);
+    }
+
+    const record = json && typeof json === 'object' ? json as Record<string, unknown> : {};
+    const entries: unknown[] = Array.isArray(json)
+      ? json
+      : Array.isArray(record.nodes) ? record.nodes : Object.values(record);
+
+    const descriptions = entries.filter(isDescription);
+    if (descriptions.length === 0) {
+      throw new Error('No n8n node descriptions found');
+    }
+
+    return {
+      definitions: this.toSeeds(descriptions, packageName),
+      skipped: entries.length - descriptions.length
+    };
+  }
+
+  static toSeeds(descriptions: NodeTypeDescription[], packageName = 'n8n-nodes-base'): NodeDefinitionSeed[] {
+    // Keyed by type and version, so a description listed twice is imported once
+    const seeds = new Map<string, NodeDefinitionSeed>();
+    descriptions.forEach(description => {
+      const nodeType = description.name.includes('.') ? description.name : `${packageName}.${description.name}`;
+      const typeVersions = [...new Set(versionsOf(description))].sort((a, b) => a - b);
+      const seed = this.toSeed(nodeType, description, typeVersions);
+      seeds.set(`${seed.node_type}@${seed.version}`, seed);
+    });
+    return [...seeds.values()];
+  }
+
+  private static toSeed(nodeType: string, description: NodeTypeDescription, typeVersions: number[]): NodeDefinitionSeed {
+    const parameters = (description.properties || [])
+      .filter(property => !UI_ONLY_TYPES.includes(property.type))
+      .map(property => this.toParameter(property));
+
+    // Parameters shown regardless of other values describe the node's basic shape
+    const unconditional = parameters.filter(parameter => !parameter.display_options);
+    const credentials: NodeCredentialSeed[] = (description.credentials || []).map(credential => ({
+      name: credential.name,
+      required: Boolean(credential.required),
+      ...(credential.displayOptions ? { display_options: credential.displayOptions } : {})
+    }));
+
+    return {
+      node_type: nodeType,
+      display_name: description.displayName,
+      category: this.categoryOf(nodeType, description),
+      description: description.description || '',
+      icon: typeof description.icon === 'string' ? description.icon : undefined,
+      version: String(Math.max(...typeVersions)),
+      // Hidden nodes are the legacy ones n8n keeps for old workflows; others keep their stored flag
+      deprecated: description.hidden ? true : undefined,
+      type_versions: typeVersions,
+      credentials,
+      parameters_schema: Object.fromEntries(unconditional.map(parameter => [
+        parameter.parameter_name,
+        {
+          type: parameter.parameter_type,
+          required: parameter.required,
+          ...(parameter.options?.options ? { options: parameter.options.options } : {})
+        }
+      ])),
+      example_config: Object.fromEntries(
+        (description.properties || [])
+          .filter(property => !property.displayOptions && !UI_ONLY_TYPES.includes(property.type))
+          .filter(property => property.default !== undefined && property.default !== '')
+          .map(property => [property.name, property.default])
+      ),
+      parameters
+    };
+  }
+
+  private static toParameter(property: NodeProperty): NodeParameterSeed {
+    const typeOptions = property.typeOptions || {};
+    const validationRules: Record<string, unknown> = {};
+    if (typeof typeOptions.minValue === 'number') validationRules.minValue = typeOptions.minValue;
+    if (typeof typeOptions.maxValue === 'number') validationRules.maxValue = typeOptions.maxValue;
+
+    return {
+      parameter_name: property.name,
+      display_name: property.displayName,
+      parameter_type: property.type,
+      required: Boolean(property.required),
+      default_value: property.default === undefined
+        ? undefined
+        : typeof property.default === 'string' ? property.default : JSON.stringify(property.default),
+      description: property.description || '',
+      options: this.optionsOf(property),
+      validation_rules: validationRules,
+      ...(property.displayOptions ? { display_options: property.displayOptions } : {})
+    };
+  }
+
+  // options.options lists the allowed values, which validateParameterValue checks against. Options
+  // loaded from the service at edit time have no static list and are not checked.
+  private static optionsOf(property: NodeProperty) {
+    const options = property.options || [];
+    const typeOptions = property.typeOptions || {};
+
+    switch (property.type) {
+      case 'options':
+      case 'multiOptions': {
+        const choices = options.filter((option): option is NodePropertyOption => 'value' in option);
+        return {
+          options: choices.map(choice => choice.value),
+          labels: Object.fromEntries(choices.map(choice => [String(choice.value), choice.name])),
+          ...(typeOptions.loadOptionsMethod ? { loadOptionsMethod: typeOptions.loadOptionsMethod } : {})
+        };
+      }
+      case 'collection':
+        return {
+          properties: options
+            .filter((option): option is NodeProperty => 'type' in option)
+            .map(option => this.toParameter(option))
+        };
+      case 'fixedCollection':
+        return {
+          multipleValues: Boolean(typeOptions.multipleValues),
+          groups: options
+            .filter((option): option is NodePropertyGroup => 'values' in option)
+            .map(group => ({
+              name: group.name,
+              display_name: group.displayName,
+              properties: group.values.map(value => this.toParameter(value))
+            }))
+        };
+      default:
+        return {};
+    }
+  }
+
+  // Same categories as the hand-written seeds, which the recommender relies on
+  private static categoryOf(nodeType: string, description: NodeTypeDescription): string {
+    if ((description.group || []).includes('trigger') || /trigger$/i.test(nodeType) || nodeType.endsWith('.webhook')) {
+      return 'Trigger Nodes';
+    }
+    if ((description.codex?.categories || []).includes('Core Nodes') || (description.group || []).includes('transform')) {
+      return 'Core Nodes';
+    }
+    return 'Regular Nodes';
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NodeSeeder, type NodeDefinitionSeed } from './nodeSeeder';
+
+const rlsError = { code: '42501', message: 'new row violates row-level security policy for table "node_definitions"' };
+
+// A signed-in user without catalog admin rights: reads work, inserts are rejected
+vi.mock('@/integrations/supabase/client', () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: null, error: null }),
+    single: async () => ({ data: null, error: rlsError }),
+    insert: () => query
+  };
+  return { supabase: { from: () => query } };
+});
+
+const definition = (node_type: string): NodeDefinitionSeed => ({
+  node_type,
+  display_name: node_type,
+  category: 'Core',
+  description: '',
+  version: '1',
+  parameters_schema: {},
+  example_config: {},
+  parameters: []
+});
+
+describe('NodeSeeder.saveNodeDefinitions', () => {
+  it('reports why each definition was rejected', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await NodeSeeder.saveNodeDefinitions([definition('n8n-nodes-base.set'), definition('n8n-nodes-base.if')]);
+
+    expect(result).toEqual({
+      saved: 0,
+      failed: [
+        { node: 'n8n-nodes-base.set@1', reason: 'only catalog admins can change node definitions' },
+        { node: 'n8n-nodes-base.if@1', reason: 'only catalog admins can change node definitions' }
+      ]
+    });
+  });
+});
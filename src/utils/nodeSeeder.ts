@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { N8N_NODE_TYPES } from '@/data/n8nNodeReference';
+import type { Json } from '@/integrations/supabase/types';
 
 export interface NodeDefinitionSeed {
   node_type: string;
@@ -9,21 +10,90 @@ export interface NodeDefinitionSeed {
   description: string;
   icon?: string;
   version: string;
-  deprecated: boolean;
+  // Left unchanged on existing rows when undefined
+  deprecated?: boolean;
   replaced_by?: string;
+  type_versions?: number[];
+  credentials?: NodeCredentialSeed[];
   parameters_schema: any;
   example_config: any;
-  parameters: Array<{
-    parameter_name: string;
-    parameter_type: string;
-    required: boolean;
-    default_value?: string;
-    description: string;
-    options?: any;
-    validation_rules?: any;
-  }>;
+  parameters: NodeParameterSeed[];
 }
 
+export interface NodeParameterSeed {
+  parameter_name: string;
+  display_name?: string;
+  parameter_type: string;
+  required: boolean;
+  default_value?: string;
+  description: string;
+  options?: any;
+  validation_rules?: any;
+  display_options?: NodeDisplayOptions;
+}
+
+// n8n's displayOptions: the parameter is shown when every "show" entry matches one of its values
+// and no "hide" entry does
+export interface NodeDisplayOptions {
+  show?: Record<string, unknown[]>;
+  hide?: Record<string, unknown[]>;
+}
+
+export interface NodeCredentialSeed {
+  name: string;
+  required: boolean;
+  display_options?: NodeDisplayOptions;
+}
+
+export interface NodeSeedFailure {
+  node: string;
+  reason: string;
+}
+
+export interface NodeSeedResult {
+  saved: number;
+  failed: NodeSeedFailure[];
+}
+
+// Shapes of the nested values the generator emits, checked entry by entry during validation
+const SET_FIELD_TYPES = ['stringValue', 'numberValue', 'booleanValue', 'arrayValue', 'objectValue'];
+
+const setFieldProperties: NodeParameterSeed[] = [
+  { parameter_name: 'name', parameter_type: 'string', required: true, description: 'Field name' },
+  {
+    parameter_name: 'type',
+    parameter_type: 'options',
+    required: false,
+    default_value: 'stringValue',
+    description: 'Field type',
+    options: { options: SET_FIELD_TYPES }
+  },
+  ...SET_FIELD_TYPES.map(type => ({
+    parameter_name: type,
+    parameter_type: type === 'numberValue' ? 'number' : type === 'booleanValue' ? 'boolean' : 'string',
+    required: false,
+    description: 'Field value',
+    display_options: { show: { type: [type] } }
+  }))
+];
+
+const setValueGroup = (name: string, valueType: string) => ({
+  name,
+  properties: [
+    { parameter_name: 'name', parameter_type: 'string', required: true, description: 'Field name' },
+    { parameter_name: 'value', parameter_type: valueType, required: false, description: 'Field value' }
+  ]
+});
+
+const ifConditionGroup = (name: string, valueType: string, operations: string[]) => ({
+  name,
+  properties: [
+    { parameter_name: 'value1', parameter_type: valueType, required: false, description: 'Value to compare' },
+    { parameter_name: 'operation', parameter_type: 'options', required: false, description: 'Comparison', options: { options: operations } },
+    { parameter_name: 'value2', parameter_type: valueType, required: false, description: 'Value to compare with' }
+  ]
+});
+
 export class NodeSeeder {
   static readonly COMPREHENSIVE_NODE_DEFINITIONS: NodeDefinitionSeed[] = [
     {
@@ -111,6 +181,7 @@ export class NodeSeeder {
       description: 'Make HTTP requests to any URL or API endpoint',
       icon: 'globe',
       version: '4',
+      type_versions: [4, 4.1, 4.2],
       deprecated: false,
       parameters_schema: {
         url: { type: 'string', required: true },
@@ -145,6 +216,75 @@ export class NodeSeeder {
           default_value: 'none',
           description: 'Authentication method',
           options: { options: ['none', 'basicAuth', 'bearerToken', 'oAuth2Api'] }
+        },
+        {
+          parameter_name: 'sendBody',
+          parameter_type: 'boolean',
+          required: false,
+          default_value: 'false',
+          description: 'Whether the request has a body'
+        },
+        {
+          parameter_name: 'specifyBody',
+          parameter_type: 'options',
+          required: false,
+          default_value: 'keypair',
+          description: 'How the body is specified',
+          options: { options: ['keypair', 'json'] },
+          display_options: { show: { sendBody: [true] } }
+        },
+        {
+          parameter_name: 'bodyParameters',
+          parameter_type: 'fixedCollection',
+          required: false,
+          description: 'Body fields as name/value pairs',
+          display_options: { show: { sendBody: [true], specifyBody: ['keypair'] } }
+        },
+        {
+          parameter_name: 'jsonBody',
+          parameter_type: 'string',
+          required: true,
+          description: 'JSON body to send',
+          display_options: { show: { sendBody: [true], specifyBody: ['json'] } }
+        }
+      ]
+    },
+    {
+      node_type: 'n8n-nodes-base.set',
+      display_name: 'Set',
+      category: 'Core Nodes',
+      description: 'Set values on items (v2 parameter layout)',
+      icon: 'edit',
+      version: '2',
+      type_versions: [1, 2],
+      deprecated: false,
+      parameters_schema: {
+        values: { type: 'fixedCollection', required: true },
+        keepOnlySet: { type: 'boolean' }
+      },
+      example_config: {
+        keepOnlySet: false,
+        values: {
+          string: [{ name: 'status', value: 'processed' }]
+        }
+      },
+      parameters: [
+        {
+          parameter_name: 'values',
+          parameter_type: 'fixedCollection',
+          required: true,
+          description: 'Values to set, grouped by type',
+          options: {
+            multipleValues: true,
+            groups: [setValueGroup('string', 'string'), setValueGroup('number', 'number'), setValueGroup('boolean', 'boolean')]
+          }
+        },
+        {
+          parameter_name: 'keepOnlySet',
+          parameter_type: 'boolean',
+          required: false,
+          default_value: 'false',
+          description: 'Drop every field that is not set here'
         }
       ]
     },
@@ -155,9 +295,10 @@ export class NodeSeeder {
       description: 'Set or modify field values on items',
       icon: 'edit',
       version: '3',
+      type_versions: [3, 3.1, 3.2],
       deprecated: false,
       parameters_schema: {
-        fields: { type: 'collection', required: true },
+        fields: { type: 'fixedCollection', required: true },
         mode: { type: 'options', options: ['manual', 'expression'] }
       },
       example_config: {
@@ -171,9 +312,67 @@ export class NodeSeeder {
       parameters: [
         {
           parameter_name: 'fields',
-          parameter_type: 'collection',
+          parameter_type: 'fixedCollection',
           required: true,
-          description: 'Fields to set or modify'
+          description: 'Fields to set or modify',
+          options: { multipleValues: true, groups: [{ name: 'values', properties: setFieldProperties }] }
+        }
+      ]
+    },
+    {
+      node_type: 'n8n-nodes-base.set',
+      display_name: 'Edit Fields (Set)',
+      category: 'Core Nodes',
+      description: 'Set or modify field values on items (assignments layout)',
+      icon: 'edit',
+      version: '3.3',
+      type_versions: [3.3, 3.4],
+      deprecated: false,
+      parameters_schema: {
+        mode: { type: 'options', options: ['manual', 'raw'] },
+        assignments: { type: 'assignmentCollection' },
+        includeOtherFields: { type: 'boolean' }
+      },
+      example_config: {
+        mode: 'manual',
+        assignments: {
+          assignments: [
+            { id: 'processed', name: 'processed', value: true, type: 'boolean' },
+            { id: 'timestamp', name: 'timestamp', value: '={{ new Date().toISOString() }}', type: 'string' }
+          ]
+        },
+        includeOtherFields: true,
+        options: {}
+      },
+      parameters: [
+        {
+          parameter_name: 'mode',
+          parameter_type: 'options',
+          required: false,
+          default_value: 'manual',
+          description: 'Set fields one by one, or from a JSON object',
+          options: { options: ['manual', 'raw'] }
+        },
+        {
+          parameter_name: 'assignments',
+          parameter_type: 'assignmentCollection',
+          required: false,
+          description: 'Fields to set: { assignments: [{ id, name, value, type }] }',
+          display_options: { show: { mode: ['manual'] } }
+        },
+        {
+          parameter_name: 'jsonOutput',
+          parameter_type: 'string',
+          required: false,
+          description: 'JSON object whose keys are set on each item',
+          display_options: { show: { mode: ['raw'] } }
+        },
+        {
+          parameter_name: 'includeOtherFields',
+          parameter_type: 'boolean',
+          required: false,
+          default_value: 'false',
+          description: 'Keep the fields that are not set here'
         }
       ]
     },
@@ -181,30 +380,39 @@ export class NodeSeeder {
       node_type: 'n8n-nodes-base.if',
       display_name: 'If',
       category: 'Core Nodes',
-      description: 'Split workflow execution based on conditions',
+      description: 'Split workflow execution based on conditions (v1 parameter layout)',
       icon: 'split',
-      version: '2',
+      version: '1',
+      type_versions: [1],
       deprecated: false,
       parameters_schema: {
-        conditions: { type: 'collection', required: true },
+        conditions: { type: 'fixedCollection', required: true },
         combineOperation: { type: 'options', options: ['any', 'all'] }
       },
       example_config: {
         conditions: {
-          options: {
-            caseSensitive: true,
-            leftValue: '={{ $json.status }}',
-            operation: 'equal',
-            rightValue: 'active'
-          }
-        }
+          string: [{ value1: '={{ $json.status }}', operation: 'equal', value2: 'active' }]
+        },
+        combineOperation: 'all'
       },
       parameters: [
         {
           parameter_name: 'conditions',
-          parameter_type: 'collection',
+          parameter_type: 'fixedCollection',
           required: true,
-          description: 'Conditions to evaluate'
+          description: 'Conditions to evaluate, grouped by value type',
+          options: {
+            multipleValues: true,
+            groups: [
+              ifConditionGroup('string', 'string', [
+                'equal', 'notEqual', 'contains', 'notContains', 'startsWith', 'notStartsWith',
+                'endsWith', 'notEndsWith', 'regex', 'notRegex', 'isEmpty', 'isNotEmpty'
+              ]),
+              ifConditionGroup('number', 'number', ['equal', 'notEqual', 'smaller', 'smallerEqual', 'larger', 'largerEqual', 'isEmpty', 'isNotEmpty']),
+              ifConditionGroup('boolean', 'boolean', ['equal', 'notEqual']),
+              ifConditionGroup('dateTime', 'string', ['after', 'before'])
+            ]
+          }
         },
         {
           parameter_name: 'combineOperation',
@@ -216,6 +424,48 @@ export class NodeSeeder {
         }
       ]
     },
+    {
+      node_type: 'n8n-nodes-base.if',
+      display_name: 'If',
+      category: 'Core Nodes',
+      description: 'Split workflow execution based on conditions',
+      icon: 'split',
+      version: '2',
+      type_versions: [2, 2.1, 2.2],
+      deprecated: false,
+      parameters_schema: {
+        conditions: { type: 'filter', required: true },
+        looseTypeValidation: { type: 'boolean' }
+      },
+      example_config: {
+        conditions: {
+          options: { caseSensitive: true, leftValue: '', typeValidation: 'strict' },
+          conditions: [
+            {
+              leftValue: '={{ $json.status }}',
+              rightValue: 'active',
+              operator: { type: 'string', operation: 'equals' }
+            }
+          ],
+          combinator: 'and'
+        }
+      },
+      parameters: [
+        {
+          parameter_name: 'conditions',
+          parameter_type: 'filter',
+          required: true,
+          description: 'Conditions to evaluate'
+        },
+        {
+          parameter_name: 'looseTypeValidation',
+          parameter_type: 'boolean',
+          required: false,
+          default_value: 'false',
+          description: 'Convert value types before comparing'
+        }
+      ]
+    },
     {
       node_type: 'n8n-nodes-base.switch',
       display_name: 'Switch',
@@ -225,7 +475,7 @@ export class NodeSeeder {
       version: '3',
       deprecated: false,
       parameters_schema: {
-        rules: { type: 'collection', required: true },
+        rules: { type: 'fixedCollection', required: true },
         fallbackOutput: { type: 'number', default: 3 }
       },
       example_config: {
@@ -233,11 +483,16 @@ export class NodeSeeder {
           values: [
             {
               conditions: {
-                any: [
-                  { leftValue: '={{ $json.type }}', rightValue: 'user', operation: 'equal' }
-                ]
-              },
-              output: 0
+                options: { caseSensitive: true, leftValue: '', typeValidation: 'strict' },
+                conditions: [
+                  {
+                    leftValue: '={{ $json.type }}',
+                    rightValue: 'user',
+                    operator: { type: 'string', operation: 'equals' }
+                  }
+                ],
+                combinator: 'and'
+              }
             }
           ]
         }
@@ -245,9 +500,26 @@ export class NodeSeeder {
       parameters: [
         {
           parameter_name: 'rules',
-          parameter_type: 'collection',
+          parameter_type: 'fixedCollection',
           required: true,
-          description: 'Rules for routing items'
+          description: 'Rules for routing items',
+          options: {
+            multipleValues: true,
+            groups: [{
+              name: 'values',
+              properties: [
+                { parameter_name: 'conditions', parameter_type: 'filter', required: true, description: 'When the rule matches' },
+                { parameter_name: 'renameOutput', parameter_type: 'boolean', required: false, default_value: 'false', description: 'Name the output' },
+                {
+                  parameter_name: 'outputKey',
+                  parameter_type: 'string',
+                  required: false,
+                  description: 'Output name',
+                  display_options: { show: { renameOutput: [true] } }
+                }
+              ]
+            }]
+          }
         },
         {
           parameter_name: 'fallbackOutput',
@@ -311,6 +583,82 @@ export class NodeSeeder {
         }
       ]
     },
+    {
+      node_type: 'n8n-nodes-base.slack',
+      display_name: 'Slack',
+      category: 'Regular Nodes',
+      description: 'Send messages and interact with Slack',
+      icon: 'message-square',
+      version: '2',
+      deprecated: false,
+      parameters_schema: {
+        select: { type: 'options', options: ['channel', 'user'] },
+        channelId: { type: 'string', required: true },
+        text: { type: 'string', required: true }
+      },
+      example_config: {
+        resource: 'message',
+        operation: 'post',
+        select: 'channel',
+        channelId: '#general',
+        text: '={{ $json.message }}'
+      },
+      parameters: [
+        {
+          parameter_name: 'select',
+          parameter_type: 'options',
+          required: false,
+          default_value: 'channel',
+          description: 'Send to a channel or a user',
+          options: { options: ['channel', 'user'] }
+        },
+        {
+          parameter_name: 'channelId',
+          parameter_type: 'string',
+          required: true,
+          description: 'Channel to post the message to'
+        },
+        {
+          parameter_name: 'text',
+          parameter_type: 'string',
+          required: true,
+          description: 'Message text'
+        }
+      ]
+    },
+    {
+      node_type: 'n8n-nodes-base.emailSend',
+      display_name: 'Send Email',
+      category: 'Regular Nodes',
+      description: 'Send an email via SMTP',
+      icon: 'mail',
+      version: '2',
+      deprecated: false,
+      parameters_schema: {
+        toEmail: { type: 'string', required: true },
+        subject: { type: 'string' },
+        text: { type: 'string' }
+      },
+      example_config: {
+        toEmail: 'team@example.com',
+        subject: 'Workflow notification',
+        text: '={{ JSON.stringify($json) }}'
+      },
+      parameters: [
+        {
+          parameter_name: 'toEmail',
+          parameter_type: 'string',
+          required: true,
+          description: 'Recipient email address'
+        },
+        {
+          parameter_name: 'subject',
+          parameter_type: 'string',
+          required: false,
+          description: 'Email subject'
+        }
+      ]
+    },
     // Deprecated nodes for migration detection
     {
       node_type: 'n8n-nodes-base.function',
@@ -338,19 +686,35 @@ export class NodeSeeder {
     }
   ];
 
-  static async seedNodeDefinitions(): Promise<void> {
+  static async seedNodeDefinitions(): Promise<NodeSeedResult> {
     console.log('Starting node definitions seeding...');
-    
-    for (const nodeDef of this.COMPREHENSIVE_NODE_DEFINITIONS) {
+    const result = await this.saveNodeDefinitions(this.COMPREHENSIVE_NODE_DEFINITIONS);
+    console.log('Node definitions seeding completed!');
+    return result;
+  }
+
+  // Inserts or updates each definition by node_type and version and replaces its parameters, so
+  // running it again with the same seeds leaves the tables unchanged
+  static async saveNodeDefinitions(definitions: NodeDefinitionSeed[]): Promise<NodeSeedResult> {
+    const failed: NodeSeedFailure[] = [];
+
+    for (const nodeDef of definitions) {
       try {
         // Check if node definition already exists
         const { data: existing } = await supabase
           .from('node_definitions')
           .select('id')
           .eq('node_type', nodeDef.node_type)
-          .single();
+          .eq('version', nodeDef.version)
+          .maybeSingle();
 
         let nodeDefinitionId: string;
+        const catalogFields = {
+          ...(nodeDef.deprecated !== undefined ? { deprecated: nodeDef.deprecated } : {}),
+          ...(nodeDef.replaced_by !== undefined ? { replaced_by: nodeDef.replaced_by } : {}),
+          ...(nodeDef.type_versions ? { type_versions: nodeDef.type_versions } : {}),
+          ...(nodeDef.credentials ? { credentials: nodeDef.credentials as unknown as Json } : {})
+        };
 
         if (existing) {
           // Update existing definition
@@ -361,19 +725,17 @@ export class NodeSeeder {
               category: nodeDef.category,
               description: nodeDef.description,
               icon: nodeDef.icon,
-              version: nodeDef.version,
-              deprecated: nodeDef.deprecated,
-              replaced_by: nodeDef.replaced_by,
+              ...catalogFields,
               parameters_schema: nodeDef.parameters_schema,
               example_config: nodeDef.example_config
             })
-            .eq('node_type', nodeDef.node_type)
+            .eq('id', existing.id)
             .select('id')
             .single();
 
           if (updateError) throw updateError;
           nodeDefinitionId = updated.id;
-          console.log(`Updated node definition: ${nodeDef.display_name}`);
+          console.log(`Updated node definition: ${nodeDef.display_name} v${nodeDef.version}`);
         } else {
           // Insert new definition
           const { data: inserted, error: insertError } = await supabase
@@ -385,8 +747,7 @@ export class NodeSeeder {
               description: nodeDef.description,
               icon: nodeDef.icon,
               version: nodeDef.version,
-              deprecated: nodeDef.deprecated,
-              replaced_by: nodeDef.replaced_by,
+              ...catalogFields,
               parameters_schema: nodeDef.parameters_schema,
               example_config: nodeDef.example_config
             })
@@ -395,26 +756,31 @@ export class NodeSeeder {
 
           if (insertError) throw insertError;
           nodeDefinitionId = inserted.id;
-          console.log(`Inserted node definition: ${nodeDef.display_name}`);
+          console.log(`Inserted node definition: ${nodeDef.display_name} v${nodeDef.version}`);
         }
 
         // Delete existing parameters for this node
-        await supabase
+        const { error: deleteError } = await supabase
           .from('node_parameters')
           .delete()
           .eq('node_definition_id', nodeDefinitionId);
 
+        if (deleteError) throw deleteError;
+
         // Insert parameters
         if (nodeDef.parameters && nodeDef.parameters.length > 0) {
-          const parametersToInsert = nodeDef.parameters.map(param => ({
+          const parametersToInsert = nodeDef.parameters.map((param, position) => ({
             node_definition_id: nodeDefinitionId,
             parameter_name: param.parameter_name,
+            display_name: param.display_name,
             parameter_type: param.parameter_type,
             required: param.required,
             default_value: param.default_value,
             description: param.description,
             options: param.options || {},
-            validation_rules: param.validation_rules || {}
+            validation_rules: param.validation_rules || {},
+            display_options: (param.display_options || {}) as unknown as Json,
+            position
           }));
 
           const { error: paramError } = await supabase
@@ -424,11 +790,21 @@ export class NodeSeeder {
           if (paramError) throw paramError;
         }
       } catch (error) {
-        console.error(`Error seeding node ${nodeDef.node_type}:`, error);
+        console.error(`Error seeding node ${nodeDef.node_type} v${nodeDef.version}:`, error);
+        failed.push({ node: `${nodeDef.node_type}@${nodeDef.version}`, reason: this.failureReason(error) });
       }
     }
 
-    console.log('Node definitions seeding completed!');
+    return { saved: definitions.length - failed.length, failed };
+  }
+
+  // Row level security rejects inserts outright (42501) and narrows updates down to no rows (PGRST116)
+  private static failureReason(error: unknown): string {
+    const { code, message } = (error || {}) as { code?: string; message?: string };
+    if (code === '42501' || code === 'PGRST116') {
+      return 'only catalog admins can change node definitions';
+    }
+    return message || String(error);
   }
 
   static async seedWorkflowTemplates(): Promise<void> {
@@ -467,6 +843,49 @@ export class NodeSeeder {
           }
         },
         is_public: true
+      },
+      {
+        name: 'Webhook to API',
+        description: 'Receives a webhook and forwards its body to an external API',
+        category: 'Getting Started',
+        tags: ['webhook', 'http', 'api'],
+        difficulty: 'beginner' as const,
+        use_case: 'Relay incoming events to another service',
+        n8n_workflow: {
+          name: 'Webhook to API',
+          nodes: [
+            {
+              name: 'Webhook',
+              type: 'n8n-nodes-base.webhook',
+              typeVersion: 2,
+              position: [240, 300],
+              parameters: { path: '{{webhookPath}}', httpMethod: 'POST' }
+            },
+            {
+              name: 'Forward to API',
+              type: 'n8n-nodes-base.httpRequest',
+              typeVersion: 4.2,
+              position: [460, 300],
+              parameters: {
+                method: 'POST',
+                url: '{{apiUrl}}',
+                sendBody: true,
+                specifyBody: 'json',
+                jsonBody: '={{ JSON.stringify($json.body) }}',
+                options: { timeout: '{{timeoutMs}}' }
+              }
+            }
+          ],
+          connections: {
+            'Webhook': { main: [[{ node: 'Forward to API', type: 'main', index: 0 }]] }
+          }
+        },
+        variables: [
+          { name: 'webhookPath', type: 'string', label: 'Webhook path', default: 'incoming-event' },
+          { name: 'apiUrl', type: 'url', label: 'API URL', description: 'Where the webhook body is sent' },
+          { name: 'timeoutMs', type: 'number', label: 'Timeout (ms)', default: 10000 }
+        ],
+        is_public: true
       }
     ];
 
@@ -0,0 +1,167 @@
+import type { N8nNode } from '@/data/n8nNodeReference';
+
+type UpgradableNode = Pick<N8nNode, 'type' | 'typeVersion' | 'parameters'>;
+
+type NodeParameters = Record<string, unknown>;
+
+interface UpgradeStep {
+  nodeType: string;
+  // typeVersions that share the parameter shape the step reads
+  from: number[];
+  to: number;
+  upgrade: (parameters: NodeParameters) => NodeParameters;
+}
+
+// If v1 operations by value type, as named by the filter parameter If v2 uses
+const IF_OPERATIONS: Record<string, { type: string; operations: Record<string, string> }> = {
+  string: {
+    type: 'string',
+    operations: {
+      equal: 'equals',
+      notEqual: 'notEquals',
+      contains: 'contains',
+      notContains: 'notContains',
+      startsWith: 'startsWith',
+      notStartsWith: 'notStartsWith',
+      endsWith: 'endsWith',
+      notEndsWith: 'notEndsWith',
+      regex: 'regex',
+      notRegex: 'notRegex',
+      isEmpty: 'empty',
+      isNotEmpty: 'notEmpty'
+    }
+  },
+  number: {
+    type: 'number',
+    operations: {
+      equal: 'equals',
+      notEqual: 'notEquals',
+      smaller: 'lt',
+      smallerEqual: 'lte',
+      larger: 'gt',
+      largerEqual: 'gte',
+      isEmpty: 'empty',
+      isNotEmpty: 'notEmpty'
+    }
+  },
+  boolean: {
+    type: 'boolean',
+    operations: { equal: 'equals', notEqual: 'notEquals' }
+  },
+  dateTime: {
+    type: 'dateTime',
+    operations: { after: 'after', before: 'before' }
+  }
+};
+
+// The operation If v1 applies when a condition does not name one
+const IF_DEFAULT_OPERATIONS: Record<string, string> = {
+  string: 'equal',
+  number: 'smaller',
+  boolean: 'equal',
+  dateTime: 'after'
+};
+
+const SET_VALUE_TYPES: Record<string, string> = {
+  string: 'stringValue',
+  number: 'numberValue',
+  boolean: 'booleanValue'
+};
+
+// Entries of a v1 collection grouped by value type, e.g. conditions.string or values.number
+const entriesOf = (group: unknown, valueType: string): NodeParameters[] => {
+  const entries = (group as Record<string, unknown> | undefined)?.[valueType];
+  return Array.isArray(entries) ? entries : [];
+};
+
+const UPGRADE_STEPS: UpgradeStep[] = [
+  {
+    nodeType: 'n8n-nodes-base.if',
+    from: [1],
+    to: 2,
+    upgrade: ({ conditions = {}, combineOperation, ...rest }) => ({
+      ...rest,
+      conditions: {
+        // v1 compared values loosely, e.g. "5" equal to 5
+        options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+        conditions: Object.entries(IF_OPERATIONS).flatMap(([valueType, { type, operations }]) =>
+          entriesOf(conditions, valueType).map(condition => {
+            const operation = operations[String(condition.operation || IF_DEFAULT_OPERATIONS[valueType])] || 'equals';
+            const unary = operation === 'empty' || operation === 'notEmpty';
+            return {
+              id: crypto.randomUUID(),
+              leftValue: condition.value1 ?? '',
+              rightValue: unary ? '' : condition.value2 ?? '',
+              operator: { type, operation, ...(unary ? { singleValue: true } : {}) }
+            };
+          })
+        ),
+        combinator: combineOperation === 'any' ? 'or' : 'and'
+      },
+      looseTypeValidation: true,
+      options: {}
+    })
+  },
+  {
+    nodeType: 'n8n-nodes-base.set',
+    from: [1, 2],
+    to: 3,
+    upgrade: ({ values = {}, keepOnlySet, options = {}, ...rest }) => ({
+      ...rest,
+      mode: 'manual',
+      duplicateItem: false,
+      fields: {
+        values: Object.entries(SET_VALUE_TYPES).flatMap(([valueType, type]) =>
+          entriesOf(values, valueType).map(field => ({
+            name: field.name,
+            type,
+            [type]: field.value
+          }))
+        )
+      },
+      include: keepOnlySet ? 'none' : 'all',
+      options
+    })
+  }
+];
+
+// Rewrites a node's parameters from one typeVersion to a newer one by chaining known steps.
+// Only upgrades are supported: newer versions often drop options older ones cannot express.
+export class NodeVersionUpgrader {
+  // Versions the node can be moved to, oldest first
+  static reachableVersions(nodeType: string, fromVersion: number): number[] {
+    const versions: number[] = [];
+    let current = fromVersion;
+    let step = this.stepFrom(nodeType, current);
+    while (step) {
+      current = step.to;
+      versions.push(current);
+      step = this.stepFrom(nodeType, current);
+    }
+    return versions;
+  }
+
+  static canUpgrade(node: UpgradableNode, targetVersion: number): boolean {
+    return this.reachableVersions(node.type, node.typeVersion).includes(targetVersion);
+  }
+
+  static upgrade<T extends UpgradableNode>(node: T, targetVersion: number): T {
+    if (!this.canUpgrade(node, targetVersion)) {
+      throw new Error(`No upgrade path for ${node.type} from v${node.typeVersion} to v${targetVersion}`);
+    }
+
+    let parameters: NodeParameters = JSON.parse(JSON.stringify(node.parameters || {}));
+    let current = node.typeVersion;
+    while (current !== targetVersion) {
+      const step = this.stepFrom(node.type, current)!;
+      parameters = step.upgrade(parameters);
+      current = step.to;
+    }
+
+    return { ...node, typeVersion: targetVersion, parameters };
+  }
+
+  private static stepFrom(nodeType: string, version: number): UpgradeStep | undefined {
+    return UPGRADE_STEPS.find(step => step.nodeType === nodeType && step.from.includes(version));
+  }
+}
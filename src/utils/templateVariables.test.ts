@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { N8nNode } from '@/data/n8nNodeReference';
+import { NodeService } from '@/services/nodeService';
+import { TemplateVariables, type TemplateVariable } from './templateVariables';
+
+const node = (name: string, type: string, parameters: Record<string, unknown>): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+const workflow = (...nodes: N8nNode[]) => ({ nodes });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('TemplateVariables.substitute', () => {
+  it('interpolates placeholders inside longer strings, nested or not', () => {
+    const result = TemplateVariables.substitute(workflow(node('Fetch', 'n8n-nodes-base.httpRequest', {
+      url: 'https://{{ host }}/orders/{{id}}',
+      options: { headers: ['X-Shop: {{host}}'] }
+    })), { host: 'shop.test', id: 7 });
+
+    expect(result.nodes[0].parameters).toEqual({
+      url: 'https://shop.test/orders/7',
+      options: { headers: ['X-Shop: shop.test'] }
+    });
+  });
+
+  it('gives a placeholder that is the whole value the variable type', () => {
+    const result = TemplateVariables.substitute(workflow(node('Wait', 'n8n-nodes-base.wait', {
+      amount: '{{delay}}',
+      resume: ' {{ enabled }} '
+    })), { delay: 30, enabled: false });
+
+    expect(result.nodes[0].parameters).toEqual({ amount: 30, resume: false });
+  });
+
+  it('leaves undeclared placeholders and n8n expressions alone', () => {
+    const parameters = {
+      text: '{{missing}} and {{ $json.name }}',
+      whole: '{{constructor}}',
+      inline: 'a {{toString}} b'
+    };
+    const result = TemplateVariables.substitute(workflow(node('Slack', 'n8n-nodes-base.slack', parameters)), {});
+
+    expect(result.nodes[0].parameters).toEqual(parameters);
+  });
+});
+
+describe('TemplateVariables.parse', () => {
+  it('keeps well-formed declarations and defaults them', () => {
+    expect(TemplateVariables.parse([
+      { name: 'host', type: 'url', label: 'Shop host' },
+      { name: 'delay', type: 'number', default: 30, required: false },
+      { name: 'bad name' },
+      { name: 'kind', type: 'date' },
+      'host'
+    ])).toEqual([
+      { name: 'host', type: 'url', label: 'Shop host', description: undefined, default: undefined, required: true },
+      { name: 'delay', type: 'number', label: undefined, description: undefined, default: 30, required: false },
+      { name: 'kind', type: 'string', label: undefined, description: undefined, default: undefined, required: true }
+    ]);
+    expect(TemplateVariables.parse(null)).toEqual([]);
+  });
+});
+
+describe('TemplateVariables.validate', () => {
+  const variables: TemplateVariable[] = [
+    { name: 'host', type: 'url', required: true },
+    { name: 'delay', type: 'number', required: true },
+    { name: 'note', type: 'string', required: false },
+    { name: 'enabled', type: 'boolean' }
+  ];
+  const template = workflow(node('Fetch', 'n8n-nodes-base.httpRequest', { url: '{{host}}', note: '{{note}}' }));
+
+  it('converts values to their declared types', async () => {
+    vi.spyOn(NodeService, 'getNodeDefinition').mockResolvedValue(null);
+
+    const check = await TemplateVariables.validate(template, variables, {
+      host: ' https://shop.test ',
+      delay: '30',
+      note: '',
+      enabled: true
+    });
+
+    expect(check).toEqual({ values: { host: 'https://shop.test', delay: 30, note: '', enabled: true }, errors: {} });
+  });
+
+  it('reports missing and malformed values', async () => {
+    vi.spyOn(NodeService, 'getNodeDefinition').mockResolvedValue(null);
+
+    const check = await TemplateVariables.validate(template, variables, { host: 'ftp://shop.test', delay: 'soon' });
+
+    expect(check.errors).toEqual({ host: 'Use an http or https URL', delay: 'Enter a number' });
+    expect((await TemplateVariables.validate(template, variables, {})).errors).toEqual({
+      host: 'Required',
+      delay: 'Required'
+    });
+  });
+
+  it('checks substituted values against the parameter they end up in', async () => {
+    vi.spyOn(NodeService, 'getNodeDefinition').mockResolvedValue({
+      id: 'definition',
+      node_type: 'n8n-nodes-base.httpRequest',
+      display_name: 'HTTP Request',
+      parameters: [{
+        id: 'url',
+        parameter_name: 'url',
+        parameter_type: 'string',
+        required: true,
+        validation_rules: { pattern: '^https://' }
+      }]
+    } as unknown as Awaited<ReturnType<typeof NodeService.getNodeDefinition>>);
+
+    const check = await TemplateVariables.validate(template, variables, { host: 'http://shop.test', delay: '1' });
+
+    expect(check.errors).toEqual({ host: 'Value does not match required pattern for "url" in "Fetch"' });
+  });
+});
@@ -0,0 +1,185 @@
+import { NodeService } from '@/services/nodeService';
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+import type { Json } from '@/integrations/supabase/types';
+
+export type TemplateVariableType = 'string' | 'url' | 'number' | 'boolean';
+
+export type TemplateVariableValue = string | number | boolean;
+
+export interface TemplateVariable {
+  // Referenced as {{name}} anywhere in the template's workflow
+  name: string;
+  type: TemplateVariableType;
+  label?: string;
+  description?: string;
+  default?: TemplateVariableValue;
+  // Variables are required unless declared otherwise
+  required?: boolean;
+}
+
+export interface TemplateVariableUsage {
+  variable: string;
+  nodeName: string;
+  nodeType: string;
+  // Parameter path inside the node, e.g. ["options", "headers"]
+  path: string[];
+}
+
+export interface TemplateVariableCheck {
+  values: Record<string, TemplateVariableValue>;
+  errors: Record<string, string>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// {{name}} with an identifier only, so n8n expressions like {{ $json.url }} are never matched
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const TYPES: TemplateVariableType[] = ['string', 'url', 'number', 'boolean'];
+
+export class TemplateVariables {
+  // Declarations stored with a template; malformed entries are dropped
+  static parse(raw: Json | null | undefined): TemplateVariable[] {
+    if (!Array.isArray(raw)) return [];
+
+    return raw.flatMap(entry => {
+      const variable = (entry && typeof entry === 'object' && !Array.isArray(entry) ? entry : {}) as JsonObject;
+      if (typeof variable.name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.name)) return [];
+
+      const type = TYPES.includes(variable.type as TemplateVariableType) ? variable.type as TemplateVariableType : 'string';
+      const defaultValue = ['string', 'number', 'boolean'].includes(typeof variable.default)
+        ? variable.default as TemplateVariableValue
+        : undefined;
+
+      return [{
+        name: variable.name,
+        type,
+        label: typeof variable.label === 'string' ? variable.label : undefined,
+        description: typeof variable.description === 'string' ? variable.description : undefined,
+        default: defaultValue,
+        required: variable.required !== false
+      }];
+    });
+  }
+
+  // Where declared variables appear in node parameters, in node order
+  static usages(workflow: Pick<N8nWorkflow, 'nodes'>, variables: TemplateVariable[]): TemplateVariableUsage[] {
+    const names = new Set(variables.map(variable => variable.name));
+    const usages: TemplateVariableUsage[] = [];
+
+    const visit = (value: unknown, path: string[], node: N8nWorkflow['nodes'][number]) => {
+      if (typeof value === 'string') {
+        for (const match of value.matchAll(PLACEHOLDER)) {
+          if (!names.has(match[1])) continue;
+          usages.push({
+            variable: match[1],
+            nodeName: node.name,
+            nodeType: node.type,
+            path
+          });
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((entry, index) => visit(entry, [...path, String(index)], node));
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, entry]) => visit(entry, [...path, key], node));
+      }
+    };
+
+    (workflow.nodes || []).forEach(node => visit(node.parameters || {}, [], node));
+    return usages;
+  }
+
+  // Starting values for the form: the default, or empty
+  static initialValues(variables: TemplateVariable[]): Record<string, string | boolean> {
+    return Object.fromEntries(variables.map(variable => [
+      variable.name,
+      variable.type === 'boolean' ? Boolean(variable.default) : variable.default !== undefined ? String(variable.default) : ''
+    ]));
+  }
+
+  // Converts the form values to their declared types, then checks each substituted top-level
+  // parameter against the node_parameters rules of the node it ends up in
+  static async validate(
+    workflow: Pick<N8nWorkflow, 'nodes'>,
+    variables: TemplateVariable[],
+    input: Record<string, string | boolean>
+  ): Promise<TemplateVariableCheck> {
+    const values: Record<string, TemplateVariableValue> = {};
+    const errors: Record<string, string> = {};
+
+    variables.forEach(variable => {
+      const result = this.coerce(variable, input[variable.name]);
+      if (typeof result === 'object') {
+        errors[variable.name] = result.error;
+      } else {
+        values[variable.name] = result;
+      }
+    });
+
+    const substituted = this.substitute(workflow, values);
+    for (const usage of this.usages(workflow, variables)) {
+      if (errors[usage.variable] || usage.path.length !== 1) continue;
+
+      const node = substituted.nodes.find(candidate => candidate.name === usage.nodeName);
+      const definition = await NodeService.getNodeDefinition(usage.nodeType, node?.typeVersion);
+      const parameter = definition?.parameters.find(candidate => candidate.parameter_name === usage.path[0]);
+      const value = node?.parameters?.[usage.path[0]];
+      // Expressions are resolved at run time, so only literal values are checked
+      if (!parameter || value === undefined || (typeof value === 'string' && value.startsWith('='))) continue;
+
+      const result = NodeService.validateParameterValue(value, parameter);
+      if (!result.isValid) {
+        errors[usage.variable] = `${result.message} for "${usage.path[0]}" in "${usage.nodeName}"`;
+      }
+    }
+
+    return { values, errors };
+  }
+
+  // A placeholder that is the whole value takes the variable's type; inside a longer string it
+  // is interpolated. Undeclared placeholders are left as they are.
+  static substitute<T extends Pick<N8nWorkflow, 'nodes'>>(workflow: T, values: Record<string, TemplateVariableValue>): T {
+    // Own keys only, so {{constructor}} and the like are not filled from Object.prototype
+    const has = (name: string) => Object.prototype.hasOwnProperty.call(values, name);
+    const replace = (value: unknown): unknown => {
+      if (typeof value === 'string') {
+        const whole = value.trim().match(new RegExp(`^${PLACEHOLDER.source}$`));
+        if (whole && has(whole[1])) return values[whole[1]];
+        return value.replace(PLACEHOLDER, (match, name: string) => (has(name) ? String(values[name]) : match));
+      }
+      if (Array.isArray(value)) return value.map(replace);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, replace(entry)]));
+      }
+      return value;
+    };
+
+    return replace(workflow) as T;
+  }
+
+  private static coerce(variable: TemplateVariable, raw: string | boolean | undefined): TemplateVariableValue | { error: string } {
+    if (variable.type === 'boolean') return Boolean(raw);
+
+    const text = String(raw ?? '').trim();
+    if (!text) {
+      if (variable.required === false) return '';
+      return { error: 'Required' };
+    }
+
+    switch (variable.type) {
+      case 'number': {
+        const value = Number(text);
+        return Number.isFinite(value) ? value : { error: 'Enter a number' };
+      }
+      case 'url':
+        try {
+          const url = new URL(text);
+          return /^https?:$/.test(url.protocol) ? text : { error: 'Use an http or https URL' };
+        } catch {
+          return { error: 'Enter a valid URL' };
+        }
+      default:
+        return text;
+    }
+  }
+}
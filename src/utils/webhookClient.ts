@@ -0,0 +1,110 @@
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+export type WebhookInputKind = 'json' | 'form' | 'text';
+
+export interface WebhookInput {
+  kind: WebhookInputKind;
+  // Parsed JSON, form fields, or the raw text
+  data: unknown;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  contentType: string;
+  // Parsed JSON when the response is JSON, the text otherwise
+  body: unknown;
+  latencyMs: number;
+}
+
+// Methods that carry the input in the query string rather than a body
+const QUERY_METHODS = ['GET', 'HEAD', 'DELETE'];
+
+// key=value pairs joined by & or new lines, as typed into a chat box
+const FORM_PATTERN = /^[^\s=&]+=[^&\n]*(?:[&\n][^\s=&]+=[^&\n]*)*$/;
+
+export class WebhookClient {
+  static parseInput(text: string): WebhookInput {
+    const trimmed = text.trim();
+
+    if (/^[[{]/.test(trimmed)) {
+      try {
+        return { kind: 'json', data: JSON.parse(trimmed) };
+      } catch {
+        // Falls through to form or text
+      }
+    }
+
+    if (FORM_PATTERN.test(trimmed)) {
+      // Typed text is rarely percent-encoded, so a stray "%" is kept as is
+      const decode = (value: string) => {
+        try {
+          return decodeURIComponent(value.trim());
+        } catch {
+          return value.trim();
+        }
+      };
+      const fields: Record<string, string> = {};
+      trimmed.split(/[&\n]/).forEach(pair => {
+        const separator = pair.indexOf('=');
+        fields[decode(pair.slice(0, separator))] = decode(pair.slice(separator + 1));
+      });
+      return { kind: 'form', data: fields };
+    }
+
+    return { kind: 'text', data: text };
+  }
+
+  // The HTTP method of the first enabled Webhook node; n8n defaults to GET
+  static methodFor(workflow: Pick<N8nWorkflow, 'nodes'> | null | undefined): string {
+    const webhook = (workflow?.nodes || []).find(node => node.type === 'n8n-nodes-base.webhook' && !node.disabled);
+    return String(webhook?.parameters?.httpMethod || 'GET').toUpperCase();
+  }
+
+  static async send(url: string, method: string, input: WebhookInput, fetchImpl: typeof fetch = fetch): Promise<WebhookResponse> {
+    const target = new URL(url);
+    const init: RequestInit = { method, headers: { Accept: 'application/json, text/plain, */*' } };
+
+    if (QUERY_METHODS.includes(method)) {
+      Object.entries(this.toFields(input)).forEach(([key, value]) => target.searchParams.set(key, value));
+    } else if (input.kind === 'json') {
+      init.headers = { ...init.headers, 'Content-Type': 'application/json' };
+      init.body = JSON.stringify(input.data);
+    } else if (input.kind === 'form') {
+      init.headers = { ...init.headers, 'Content-Type': 'application/x-www-form-urlencoded' };
+      init.body = new URLSearchParams(input.data as Record<string, string>).toString();
+    } else {
+      init.headers = { ...init.headers, 'Content-Type': 'text/plain' };
+      init.body = String(input.data);
+    }
+
+    const startedAt = performance.now();
+    const response = await fetchImpl(target.toString(), init);
+    const text = await response.text();
+    const latencyMs = Math.round(performance.now() - startedAt);
+
+    const contentType = response.headers.get('content-type') || '';
+    let body: unknown = text;
+    if (contentType.includes('json') || /^[[{]/.test(text.trim())) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+
+    return { ok: response.ok, status: response.status, statusText: response.statusText, contentType, body, latencyMs };
+  }
+
+  // Query-string form of the input: object fields become parameters, anything else goes in "message"
+  private static toFields(input: WebhookInput): Record<string, string> {
+    if (input.kind === 'text' || !input.data || typeof input.data !== 'object' || Array.isArray(input.data)) {
+      return { message: typeof input.data === 'string' ? input.data : JSON.stringify(input.data) };
+    }
+    return Object.fromEntries(Object.entries(input.data).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value)
+    ]));
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nConnection, N8nNode } from '@/data/n8nNodeReference';
+import { WorkflowDiff } from './workflowDiff';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}, id?: string): N8nNode => ({
+  ...(id ? { id } : {}),
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+// "A>B" wires A's output 0 to B; "A:1>B" wires output 1
+const wire = (...links: string[]): Record<string, N8nConnection> => {
+  const connections: Record<string, N8nConnection> = {};
+  links.forEach(link => {
+    const [[from, output = '0'], [to]] = link.split('>').map(end => end.split(':'));
+    const connection = connections[from] || { main: [] };
+    while (connection.main.length <= Number(output)) connection.main.push([]);
+    connection.main[Number(output)].push({ node: to, type: 'main', index: 0 });
+    connections[from] = connection;
+  });
+  return connections;
+};
+
+const start = node('Start', 'n8n-nodes-base.manualTrigger');
+const http = 'n8n-nodes-base.httpRequest';
+
+describe('WorkflowDiff.compare', () => {
+  it('matches nodes by id before name', () => {
+    const diff = WorkflowDiff.compare(
+      { nodes: [node('Fetch', http, { url: 'https://a.test' }, 'n1')], connections: {} },
+      { nodes: [node('Load', http, { url: 'https://b.test' }, 'n1')], connections: {} }
+    );
+
+    expect(diff.addedNodes).toEqual([]);
+    expect(diff.removedNodes).toEqual([]);
+    expect(diff.changedNodes).toEqual([{
+      name: 'Load',
+      previousName: 'Fetch',
+      type: http,
+      changes: [
+        { path: 'name', before: 'Fetch', after: 'Load' },
+        { path: 'parameters.url', before: 'https://a.test', after: 'https://b.test' }
+      ]
+    }]);
+  });
+
+  it('matches by name, but not across differing ids', () => {
+    const byName = WorkflowDiff.compare(
+      { nodes: [node('Fetch', http, { url: 'https://a.test' })], connections: {} },
+      { nodes: [node('Fetch', http, { url: 'https://b.test' })], connections: {} }
+    );
+    expect(byName.changedNodes.map(change => change.name)).toEqual(['Fetch']);
+    expect(byName.addedNodes).toEqual([]);
+
+    const replaced = WorkflowDiff.compare(
+      { nodes: [node('Fetch', http, { url: 'https://a.test' }, 'n1')], connections: {} },
+      { nodes: [node('Fetch', http, { url: 'https://b.test' }, 'n2')], connections: {} }
+    );
+    expect(replaced.addedNodes.map(added => added.id)).toEqual(['n2']);
+    expect(replaced.removedNodes.map(removed => removed.id)).toEqual(['n1']);
+    expect(replaced.changedNodes).toEqual([]);
+  });
+
+  it('treats a same-typed node with mostly identical parameters as a rename', () => {
+    const parameters = { url: 'https://a.test', method: 'GET', timeout: 5 };
+    const before = { nodes: [start, node('Fetch', http, parameters)], connections: wire('Start>Fetch') };
+
+    const renamed = WorkflowDiff.compare(before, {
+      nodes: [start, node('Fetch Orders', http, { ...parameters, url: 'https://b.test' })],
+      connections: wire('Start>Fetch Orders')
+    });
+    expect(renamed.changedNodes.map(change => [change.previousName, change.name])).toEqual([['Fetch', 'Fetch Orders']]);
+    // The rename carries the connection over, so it is not reported as rewiring
+    expect(renamed.addedConnections).toEqual([]);
+    expect(renamed.removedConnections).toEqual([]);
+
+    const replaced = WorkflowDiff.compare(before, {
+      nodes: [start, node('Post', http, { url: 'https://b.test', method: 'POST', timeout: 10 })],
+      connections: wire('Start>Post')
+    });
+    expect(replaced.addedNodes.map(added => added.name)).toEqual(['Post']);
+    expect(replaced.removedNodes.map(removed => removed.name)).toEqual(['Fetch']);
+    expect(replaced.addedConnections).toEqual([{ from: 'Start', output: 0, to: 'Post', input: 0 }]);
+    expect(replaced.removedConnections).toEqual([{ from: 'Start', output: 0, to: 'Fetch', input: 0 }]);
+  });
+
+  it('diffs multi-line code line by line', () => {
+    const code = (body: string) => node('Code', 'n8n-nodes-base.code', { jsCode: body });
+    const diff = WorkflowDiff.compare(
+      { nodes: [code('const a = 1;\nreturn a;')], connections: {} },
+      { nodes: [code('const a = 1;\nconst b = 2;\nreturn a + b;')], connections: {} }
+    );
+
+    expect(diff.changedNodes[0].changes).toHaveLength(1);
+    expect(diff.changedNodes[0].changes[0].path).toBe('parameters.jsCode');
+    expect(diff.changedNodes[0].changes[0].lines).toEqual([
+      { kind: 'unchanged', text: 'const a = 1;', beforeLine: 1, afterLine: 1 },
+      { kind: 'removed', text: 'return a;', beforeLine: 2 },
+      { kind: 'added', text: 'const b = 2;', afterLine: 2 },
+      { kind: 'added', text: 'return a + b;', afterLine: 3 }
+    ]);
+  });
+
+  it('reports connection changes per output', () => {
+    const nodes = [start, node('If', 'n8n-nodes-base.if'), node('Yes', 'n8n-nodes-base.noOp'), node('No', 'n8n-nodes-base.noOp')];
+    const diff = WorkflowDiff.compare(
+      { nodes, connections: wire('Start>If', 'If>Yes', 'If:1>Yes') },
+      { nodes, connections: wire('Start>If', 'If>Yes', 'If:1>No') }
+    );
+
+    expect(diff.changedNodes).toEqual([]);
+    expect(diff.addedConnections).toEqual([{ from: 'If', output: 1, to: 'No', input: 0 }]);
+    expect(diff.removedConnections).toEqual([{ from: 'If', output: 1, to: 'Yes', input: 0 }]);
+  });
+
+  it('reports settings changes', () => {
+    const diff = WorkflowDiff.compare(
+      { nodes: [start], connections: {}, settings: { executionOrder: 'v1', timezone: 'UTC' } },
+      { nodes: [start], connections: {}, settings: { executionOrder: 'v1', timezone: 'Europe/Berlin' } }
+    );
+
+    expect(diff.settingsChanges).toEqual([{ path: 'settings.timezone', before: 'UTC', after: 'Europe/Berlin' }]);
+    expect(WorkflowDiff.hasChanges(diff)).toBe(true);
+    expect(WorkflowDiff.hasChanges(WorkflowDiff.compare({ nodes: [start], connections: {} }, { nodes: [start], connections: {} }))).toBe(false);
+  });
+});
+
+describe('WorkflowDiff.summarize', () => {
+  it('describes each change on one line', () => {
+    const parameters = { url: 'https://a.test', method: 'GET', timeout: 5 };
+    const diff = WorkflowDiff.compare(
+      {
+        nodes: [start, node('If', 'n8n-nodes-base.if'), node('Fetch', http, parameters), node('Old', 'n8n-nodes-base.noOp')],
+        connections: wire('Start>If', 'If>Fetch', 'If:1>Old'),
+        settings: { timezone: 'UTC' }
+      },
+      {
+        nodes: [start, node('If', 'n8n-nodes-base.if'), node('Fetch Orders', http, { ...parameters, url: 'https://b.test' }), node('Notify', 'n8n-nodes-base.slack')],
+        connections: wire('Start>If', 'If>Fetch Orders', 'If:1>Notify'),
+        settings: { timezone: 'Europe/Berlin' }
+      }
+    );
+
+    expect(WorkflowDiff.summarize(diff)).toEqual([
+      'Added node "Notify"',
+      'Removed node "Old"',
+      'Renamed "Fetch" to "Fetch Orders" and changed parameters.url',
+      'Connected If (output 1) → Notify',
+      'Disconnected If (output 1) → Old',
+      'Changed settings.timezone'
+    ]);
+  });
+});
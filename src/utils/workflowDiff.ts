@@ -0,0 +1,269 @@
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+
+export interface LineChange {
+  kind: 'added' | 'removed' | 'unchanged';
+  text: string;
+  // 1-based line numbers on each side; absent on the side the line does not exist in
+  beforeLine?: number;
+  afterLine?: number;
+}
+
+export interface ParameterChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  // Set for multi-line strings such as jsCode, so the change can be shown line by line
+  lines?: LineChange[];
+}
+
+export interface NodeDiff {
+  name: string;
+  // Set when the node was matched across a rename
+  previousName?: string;
+  type: string;
+  changes: ParameterChange[];
+}
+
+export interface ConnectionRef {
+  from: string;
+  output: number;
+  to: string;
+  input: number;
+}
+
+export interface WorkflowDiffResult {
+  addedNodes: N8nNode[];
+  removedNodes: N8nNode[];
+  changedNodes: NodeDiff[];
+  // Connections are named after the newer workflow, so a rename alone is not a connection change
+  addedConnections: ConnectionRef[];
+  removedConnections: ConnectionRef[];
+  settingsChanges: ParameterChange[];
+}
+
+type DiffableWorkflow = Pick<N8nWorkflow, 'nodes' | 'connections'> & Partial<Pick<N8nWorkflow, 'settings'>>;
+
+// Node fields compared besides parameters; positions are left out since layout changes on every save
+const NODE_FIELDS: Array<keyof N8nNode> = ['type', 'typeVersion', 'disabled', 'credentials', 'continueOnFail', 'onError'];
+
+// Share of identical parameter values two same-typed nodes need to be treated as one renamed node
+const RENAME_SIMILARITY = 0.5;
+
+// Above this many line pairs the line diff falls back to "all removed, all added"
+const MAX_LINE_DIFF_CELLS = 1_000_000;
+
+export class WorkflowDiff {
+  static compare(before: DiffableWorkflow, after: DiffableWorkflow): WorkflowDiffResult {
+    const beforeNodes = before.nodes || [];
+    const afterNodes = after.nodes || [];
+    const matches = this.matchNodes(beforeNodes, afterNodes);
+
+    const changedNodes: NodeDiff[] = [];
+    matches.forEach((previous, node) => {
+      const changes = this.nodeChanges(previous, node);
+      if (changes.length > 0) {
+        changedNodes.push({
+          name: node.name,
+          ...(previous.name !== node.name ? { previousName: previous.name } : {}),
+          type: node.type,
+          changes
+        });
+      }
+    });
+
+    const matchedBefore = new Set(matches.values());
+    const renames = new Map([...matches].map(([node, previous]) => [previous.name, node.name]));
+
+    const beforeConnections = this.connectionList(before, renames);
+    const afterConnections = this.connectionList(after);
+    const beforeKeys = new Set(beforeConnections.map(this.connectionKey));
+    const afterKeys = new Set(afterConnections.map(this.connectionKey));
+
+    const settingsChanges: ParameterChange[] = [];
+    this.diffValues(before.settings || {}, after.settings || {}, 'settings', settingsChanges);
+
+    return {
+      addedNodes: afterNodes.filter(node => !matches.has(node)),
+      removedNodes: beforeNodes.filter(node => !matchedBefore.has(node)),
+      changedNodes,
+      addedConnections: afterConnections.filter(connection => !beforeKeys.has(this.connectionKey(connection))),
+      removedConnections: beforeConnections.filter(connection => !afterKeys.has(this.connectionKey(connection))),
+      settingsChanges
+    };
+  }
+
+  static hasChanges(diff: WorkflowDiffResult): boolean {
+    return diff.addedNodes.length > 0
+      || diff.removedNodes.length > 0
+      || diff.changedNodes.length > 0
+      || diff.addedConnections.length > 0
+      || diff.removedConnections.length > 0
+      || diff.settingsChanges.length > 0;
+  }
+
+  // One line per change, for chat messages and version summaries
+  static summarize(diff: WorkflowDiffResult): string[] {
+    const describe = (connection: ConnectionRef) =>
+      `${connection.from}${connection.output > 0 ? ` (output ${connection.output})` : ''} → ${connection.to}`;
+    const describeNode = (node: NodeDiff) => {
+      const changes = node.changes.filter(change => change.path !== 'name').map(change => change.path);
+      const renamed = node.previousName ? `Renamed "${node.previousName}" to "${node.name}"` : `Changed "${node.name}"`;
+      if (changes.length === 0) return renamed;
+      return `${renamed}${node.previousName ? ' and changed' : ':'} ${changes.join(', ')}`;
+    };
+
+    return [
+      ...diff.addedNodes.map(node => `Added node "${node.name}"`),
+      ...diff.removedNodes.map(node => `Removed node "${node.name}"`),
+      ...diff.changedNodes.map(describeNode),
+      ...diff.addedConnections.map(connection => `Connected ${describe(connection)}`),
+      ...diff.removedConnections.map(connection => `Disconnected ${describe(connection)}`),
+      ...diff.settingsChanges.map(change => `Changed ${change.path}`)
+    ];
+  }
+
+  static formatValue(value: unknown): string {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+  }
+
+  // Longest-common-subsequence line diff; unchanged lines are kept so callers can show context
+  static diffLines(before: string, after: string): LineChange[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    if (a.length * b.length > MAX_LINE_DIFF_CELLS) {
+      return [
+        ...a.map((text, index) => ({ kind: 'removed' as const, text, beforeLine: index + 1 })),
+        ...b.map((text, index) => ({ kind: 'added' as const, text, afterLine: index + 1 }))
+      ];
+    }
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const lines: LineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ kind: 'unchanged', text: a[i], beforeLine: i + 1, afterLine: j + 1 });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        lines.push({ kind: 'removed', text: a[i], beforeLine: i + 1 });
+        i++;
+      } else {
+        lines.push({ kind: 'added', text: b[j], afterLine: j + 1 });
+        j++;
+      }
+    }
+    return lines;
+  }
+
+  // Pairs each node of the newer workflow with its older self: by id, then by name, then a
+  // same-typed node with mostly identical parameters is taken to be a rename
+  private static matchNodes(beforeNodes: N8nNode[], afterNodes: N8nNode[]): Map<N8nNode, N8nNode> {
+    const matches = new Map<N8nNode, N8nNode>();
+    const unmatched = new Set(beforeNodes);
+    const claim = (node: N8nNode, previous: N8nNode | undefined) => {
+      if (!previous || matches.has(node)) return;
+      matches.set(node, previous);
+      unmatched.delete(previous);
+    };
+
+    afterNodes.forEach(node => {
+      if (node.id) claim(node, [...unmatched].find(previous => previous.id === node.id));
+    });
+    afterNodes.forEach(node => {
+      // Nodes whose ids differ are different nodes, even when one reuses the other's name
+      claim(node, [...unmatched].find(previous => previous.name === node.name && !(previous.id && node.id && previous.id !== node.id)));
+    });
+
+    const candidates = afterNodes
+      .filter(node => !matches.has(node))
+      .flatMap(node => [...unmatched]
+        .filter(previous => previous.type === node.type)
+        .map(previous => ({ node, previous, score: this.similarity(previous.parameters, node.parameters) })))
+      .filter(candidate => candidate.score >= RENAME_SIMILARITY)
+      .sort((x, y) => y.score - x.score);
+
+    candidates.forEach(({ node, previous }) => {
+      if (unmatched.has(previous)) claim(node, previous);
+    });
+
+    return matches;
+  }
+
+  private static nodeChanges(previous: N8nNode, node: N8nNode): ParameterChange[] {
+    const changes: ParameterChange[] = [];
+    if (previous.name !== node.name) {
+      changes.push({ path: 'name', before: previous.name, after: node.name });
+    }
+    NODE_FIELDS.forEach(field => this.diffValues(previous[field], node[field], field, changes));
+    this.diffValues(previous.parameters || {}, node.parameters || {}, 'parameters', changes);
+    return changes;
+  }
+
+  private static diffValues(before: unknown, after: unknown, path: string, changes: ParameterChange[]) {
+    if (this.isPlainObject(before) && this.isPlainObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.forEach(key => this.diffValues(before[key], after[key], `${path}.${key}`, changes));
+      return;
+    }
+
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+    const multiline = (value: unknown) => typeof value === 'string' && value.includes('\n');
+    if (multiline(before) || multiline(after)) {
+      changes.push({ path, before, after, lines: this.diffLines(String(before ?? ''), String(after ?? '')) });
+    } else {
+      changes.push({ path, before, after });
+    }
+  }
+
+  private static similarity(before: Record<string, unknown> = {}, after: Record<string, unknown> = {}): number {
+    const beforeLeaves = this.leaves(before);
+    const afterLeaves = this.leaves(after);
+    const total = Math.max(beforeLeaves.size, afterLeaves.size);
+    if (total === 0) return 1;
+
+    let same = 0;
+    beforeLeaves.forEach((value, path) => {
+      if (afterLeaves.get(path) === value) same++;
+    });
+    return same / total;
+  }
+
+  private static leaves(value: unknown, path = '', into = new Map<string, string>()): Map<string, string> {
+    if (this.isPlainObject(value)) {
+      Object.entries(value).forEach(([key, entry]) => this.leaves(entry, path ? `${path}.${key}` : key, into));
+    } else {
+      into.set(path, JSON.stringify(value));
+    }
+    return into;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private static connectionKey(connection: ConnectionRef): string {
+    return `${connection.from}:${connection.output}->${connection.to}:${connection.input}`;
+  }
+
+  private static connectionList(workflow: DiffableWorkflow, renames = new Map<string, string>()): ConnectionRef[] {
+    const rename = (name: string) => renames.get(name) ?? name;
+    return Object.entries(workflow.connections || {}).flatMap(([from, connection]) =>
+      (connection?.main || []).flatMap((targets, output) =>
+        (targets || []).map(target => ({ from: rename(from), output, to: rename(target.node), input: target.index || 0 }))
+      )
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { WorkflowExecutor } from './workflowExecutor';
+
+const node = (name: string, type: string, typeVersion: number, parameters: Record<string, unknown> = {}): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion,
+  position: [0, 0],
+  parameters
+});
+
+const workflow: N8nWorkflow = {
+  name: 'Greet',
+  active: false,
+  settings: {},
+  nodes: [
+    node('Start', 'n8n-nodes-base.manualTrigger', 1),
+    node('Greeting', 'n8n-nodes-base.set', 3, {
+      mode: 'manual',
+      fields: { values: [{ name: 'greeting', type: 'stringValue', stringValue: '=Hi {{ $json.name }}' }] },
+      include: 'all',
+      options: {}
+    }),
+    node('Is Adult', 'n8n-nodes-base.if', 2, {
+      conditions: {
+        options: { caseSensitive: true },
+        conditions: [{ leftValue: '={{ $json.age }}', rightValue: 18, operator: { type: 'number', operation: 'gte' } }],
+        combinator: 'and'
+      }
+    })
+  ],
+  connections: {
+    Start: { main: [[{ node: 'Greeting', type: 'main', index: 0 }]] },
+    Greeting: { main: [[{ node: 'Is Adult', type: 'main', index: 0 }]] }
+  }
+};
+
+describe('WorkflowExecutor.execute', () => {
+  it('resolves expressions per item and routes them through an If', async () => {
+    const result = await WorkflowExecutor.execute(workflow, [{ name: 'Ada', age: 36 }, { name: 'Tim', age: 9 }]);
+
+    expect(result.status).toBe('success');
+    expect(result.order).toEqual(['Start', 'Greeting', 'Is Adult']);
+    expect(result.runData['Is Adult'][0].outputs).toEqual([
+      [{ json: { name: 'Ada', age: 36, greeting: 'Hi Ada' } }],
+      [{ json: { name: 'Tim', age: 9, greeting: 'Hi Tim' } }]
+    ]);
+  });
+
+  it('fails the node whose expression fails', async () => {
+    const broken = JSON.parse(JSON.stringify(workflow)) as N8nWorkflow;
+    broken.nodes[1].parameters.fields.values[0].stringValue = '={{ $json.name.missing.value }}';
+
+    const result = await WorkflowExecutor.execute(broken, { name: 'Ada' });
+
+    expect(result.status).toBe('error');
+    expect(result.lastNode).toBe('Greeting');
+    expect(result.error).toMatch(/^Greeting: Expression "\{\{ \$json\.name\.missing\.value \}\}" failed/);
+  });
+});
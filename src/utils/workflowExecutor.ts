@@ -0,0 +1,726 @@
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { N8nExpression, type ExpressionData } from './n8nExpression';
+import { CodeSandbox, type SandboxLog } from './codeSandbox';
+
+export interface ExecutionItem {
+  json: Record<string, unknown>;
+}
+
+export interface NodeRun {
+  node: string;
+  type: string;
+  status: 'success' | 'error';
+  input: ExecutionItem[][];
+  outputs: ExecutionItem[][];
+  error?: string;
+  logs?: SandboxLog[];
+  executionTime: number;
+}
+
+export interface ExecutionResult {
+  status: 'success' | 'error';
+  startNode?: string;
+  // Runs per node, in the order they happened; a node fed twice runs twice
+  runData: Record<string, NodeRun[]>;
+  order: string[];
+  lastNode?: string;
+  output: ExecutionItem[];
+  error?: string;
+}
+
+export interface ExecutorOptions {
+  fetchImpl?: typeof fetch;
+  startNode?: string;
+  maxNodeRuns?: number;
+  // Time limit for each Code node and for each node's expressions
+  codeTimeoutMs?: number;
+}
+
+interface ExecutionContext {
+  workflow: N8nWorkflow;
+  runData: Record<string, NodeRun[]>;
+  fetchImpl?: typeof fetch;
+  codeTimeoutMs?: number;
+}
+
+interface Condition {
+  left: unknown;
+  operation: string;
+  right: unknown;
+}
+
+interface ConditionSet {
+  conditions: Condition[];
+  combinator: 'and' | 'or';
+  caseSensitive: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const TRIGGER_TYPES = new Set([
+  'n8n-nodes-base.webhook',
+  'n8n-nodes-base.manualTrigger',
+  'n8n-nodes-base.cron',
+  'n8n-nodes-base.scheduleTrigger'
+]);
+
+// Version 1 operation names mapped onto the version 2 operator names
+const OPERATION_ALIASES: Record<string, string> = {
+  equal: 'equals',
+  notEqual: 'notEquals',
+  larger: 'gt',
+  largerEqual: 'gte',
+  smaller: 'lt',
+  smallerEqual: 'lte',
+  isEmpty: 'empty',
+  isNotEmpty: 'notEmpty'
+};
+
+const DEFAULT_MAX_NODE_RUNS = 200;
+
+const asRecord = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// For runs that must not call real APIs: HTTP Request nodes get an empty JSON object back
+export const sampleFetch = (async () => new Response('{}', { headers: { 'content-type': 'application/json' } })) as typeof fetch;
+
+// Runs a workflow's JSON locally for the subset of nodes below, without an n8n instance
+export class WorkflowExecutor {
+  static readonly SUPPORTED_NODE_TYPES = [
+    ...TRIGGER_TYPES,
+    'n8n-nodes-base.code',
+    'n8n-nodes-base.set',
+    'n8n-nodes-base.if',
+    'n8n-nodes-base.switch',
+    'n8n-nodes-base.merge',
+    'n8n-nodes-base.itemLists',
+    'n8n-nodes-base.httpRequest'
+  ];
+
+  static isSupported(nodeType: string): boolean {
+    return this.SUPPORTED_NODE_TYPES.includes(nodeType);
+  }
+
+  // Plain text becomes { message }, a JSON object one item and a JSON array one item per element
+  static parseInput(input: unknown): JsonObject[] {
+    let value = input;
+    if (typeof input === 'string') {
+      try {
+        value = JSON.parse(input);
+      } catch {
+        value = { message: input };
+      }
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(entry => (entry && typeof entry === 'object' ? entry as JsonObject : { value: entry }));
+    }
+    return [value && typeof value === 'object' ? value as JsonObject : { value }];
+  }
+
+  static async execute(workflow: N8nWorkflow, input: unknown, options: ExecutorOptions = {}): Promise<ExecutionResult> {
+    const runData: Record<string, NodeRun[]> = {};
+    const order: string[] = [];
+    const nodes = workflow.nodes || [];
+    const byName = new Map(nodes.map(node => [node.name, node]));
+    const context: ExecutionContext = { workflow, runData, fetchImpl: options.fetchImpl, codeTimeoutMs: options.codeTimeoutMs };
+
+    const start = options.startNode ? byName.get(options.startNode) : this.findStartNode(workflow);
+    if (!start) {
+      return {
+        status: 'error',
+        runData,
+        order,
+        output: [],
+        error: options.startNode ? `Start node "${options.startNode}" not found` : 'Workflow has no trigger node to start from'
+      };
+    }
+
+    const inputCounts = this.countInputs(workflow);
+    const stack: Array<{ node: N8nNode; input: ExecutionItem[][] }> = [
+      { node: start, input: [this.parseInput(input).map(json => ({ json }))] }
+    ];
+    const waiting = new Map<string, ExecutionItem[][]>();
+    const maxRuns = options.maxNodeRuns ?? DEFAULT_MAX_NODE_RUNS;
+    let lastNode: string | undefined;
+    let output: ExecutionItem[] = [];
+
+    while (stack.length > 0 || waiting.size > 0) {
+      // Nodes with several inputs (Merge) wait until every input arrived or nothing else can run
+      if (stack.length === 0) {
+        const [name, inputs] = waiting.entries().next().value as [string, ExecutionItem[][]];
+        waiting.delete(name);
+        const expected = inputCounts.get(name) || inputs.length;
+        stack.push({ node: byName.get(name)!, input: Array.from({ length: expected }, (_, index) => inputs[index] || []) });
+      }
+
+      if (order.length >= maxRuns) {
+        return this.finish(runData, order, start.name, lastNode, output, `Execution stopped after ${maxRuns} node runs`);
+      }
+
+      const { node, input: nodeInput } = stack.pop()!;
+      const run = await this.runNode(node, nodeInput, context);
+      (runData[node.name] = runData[node.name] || []).push(run);
+      order.push(node.name);
+
+      if (run.status === 'error') {
+        return this.finish(runData, order, start.name, node.name, [], `${node.name}: ${run.error}`);
+      }
+
+      lastNode = node.name;
+      output = run.outputs.flat();
+
+      // Children are pushed in reverse so the first output's branch runs to completion first
+      const children: Array<{ node: N8nNode; input: number; items: ExecutionItem[] }> = [];
+      (workflow.connections?.[node.name]?.main || []).forEach((targets, outputIndex) => {
+        const items = run.outputs[outputIndex];
+        if (!items?.length) return;
+        targets?.forEach(target => {
+          const child = byName.get(target.node);
+          if (child) children.push({ node: child, input: target.index || 0, items });
+        });
+      });
+
+      for (const child of children.reverse()) {
+        const expected = inputCounts.get(child.node.name) || 1;
+        if (expected <= 1) {
+          stack.push({ node: child.node, input: [clone(child.items)] });
+          continue;
+        }
+
+        const inputs = waiting.get(child.node.name) || [];
+        inputs[child.input] = clone(child.items);
+        if (inputs.filter(Boolean).length >= expected) {
+          waiting.delete(child.node.name);
+          stack.push({ node: child.node, input: Array.from({ length: expected }, (_, index) => inputs[index] || []) });
+        } else {
+          waiting.set(child.node.name, inputs);
+        }
+      }
+    }
+
+    return this.finish(runData, order, start.name, lastNode, output);
+  }
+
+  private static finish(
+    runData: Record<string, NodeRun[]>,
+    order: string[],
+    startNode: string,
+    lastNode: string | undefined,
+    output: ExecutionItem[],
+    error?: string
+  ): ExecutionResult {
+    return { status: error ? 'error' : 'success', startNode, runData, order, lastNode, output, ...(error ? { error } : {}) };
+  }
+
+  private static findStartNode(workflow: N8nWorkflow): N8nNode | undefined {
+    const triggers = (workflow.nodes || []).filter(node => TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type));
+    // A webhook is the natural target for user input, then whatever trigger comes first
+    return triggers.find(node => node.type === 'n8n-nodes-base.webhook') || triggers[0];
+  }
+
+  // Number of distinct input indexes each node is wired to
+  private static countInputs(workflow: N8nWorkflow): Map<string, number> {
+    const inputs = new Map<string, Set<number>>();
+    Object.values(workflow.connections || {}).forEach(connection => {
+      connection.main?.forEach(targets => {
+        targets?.forEach(target => {
+          const set = inputs.get(target.node) || new Set<number>();
+          set.add(target.index || 0);
+          inputs.set(target.node, set);
+        });
+      });
+    });
+    return new Map([...inputs].map(([name, set]) => [name, set.size]));
+  }
+
+  private static async runNode(node: N8nNode, input: ExecutionItem[][], context: ExecutionContext): Promise<NodeRun> {
+    const startedAt = Date.now();
+    const run: NodeRun = { node: node.name, type: node.type, status: 'success', input, outputs: [], executionTime: 0 };
+
+    try {
+      if (node.disabled) {
+        run.outputs = [input[0] || []];
+      } else {
+        run.outputs = await this.executeNode(node, clone(input), context, run);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (node.onError === 'continueRegularOutput' || node.continueOnFail) {
+        run.outputs = [(input[0] || []).map(item => ({ json: { ...item.json, error: message } }))];
+      } else {
+        run.status = 'error';
+        run.error = message;
+      }
+    }
+
+    run.executionTime = Date.now() - startedAt;
+    return run;
+  }
+
+  private static async executeNode(node: N8nNode, input: ExecutionItem[][], context: ExecutionContext, run: NodeRun): Promise<ExecutionItem[][]> {
+    const items = input[0] || [];
+
+    switch (node.type) {
+      case 'n8n-nodes-base.webhook':
+        return [items.map(item => ({
+          json: { headers: {}, params: {}, query: {}, body: item.json, webhookUrl: node.parameters?.path || '' }
+        }))];
+      case 'n8n-nodes-base.manualTrigger':
+      case 'n8n-nodes-base.cron':
+      case 'n8n-nodes-base.scheduleTrigger':
+        return [items];
+      case 'n8n-nodes-base.code':
+        return [await this.runCode(node, items, context, run)];
+      case 'n8n-nodes-base.set': {
+        const parameters = await this.resolveParameters(node, items, context);
+        return [items.map((item, index) => this.runSet(item, parameters[index]))];
+      }
+      case 'n8n-nodes-base.if':
+        return this.runIf(items, await this.resolveParameters(node, items, context));
+      case 'n8n-nodes-base.switch':
+        return this.runSwitch(items, await this.resolveParameters(node, items, context));
+      case 'n8n-nodes-base.merge':
+        return [this.runMerge(node, input)];
+      case 'n8n-nodes-base.itemLists':
+        return [this.runItemLists(node, items)];
+      case 'n8n-nodes-base.httpRequest':
+        return [await this.runHttpRequest(node, items, context)];
+      default:
+        if (TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type)) {
+          return [items];
+        }
+        throw new Error(`Node type "${node.type}" is not supported by the local executor`);
+    }
+  }
+
+  // The node's parameters with expressions resolved for each item, in one sandbox run
+  private static async resolveParameters(node: N8nNode, items: ExecutionItem[], context: ExecutionContext): Promise<JsonObject[]> {
+    const data: ExpressionData = { items, nodes: this.nodeOutputs(context.runData) };
+    const resolved = await N8nExpression.resolveParametersForItems(node.parameters, data, items.map((_, index) => index), {
+      timeoutMs: context.codeTimeoutMs
+    });
+    return resolved.map(asRecord);
+  }
+
+  // Latest first-output items per node, which is what $node["Name"] and $("Name") read
+  static nodeOutputs(runData: Record<string, NodeRun[]>): Record<string, ExecutionItem[]> {
+    return Object.fromEntries(Object.entries(runData).map(([name, runs]) => [name, runs[runs.length - 1]?.outputs[0] || []]));
+  }
+
+  private static getPath(source: JsonObject, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => (current == null ? undefined : (current as JsonObject)[key]), source);
+  }
+
+  private static setPath(target: JsonObject, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let current = target;
+    keys.slice(0, -1).forEach(key => {
+      if (!current[key] || typeof current[key] !== 'object') current[key] = {};
+      current = current[key] as JsonObject;
+    });
+    current[keys[keys.length - 1]] = value;
+  }
+
+  private static async runCode(node: N8nNode, items: ExecutionItem[], context: ExecutionContext, run: NodeRun): Promise<ExecutionItem[]> {
+    const result = await CodeSandbox.run(String(node.parameters?.jsCode ?? ''), {
+      mode: node.parameters?.mode === 'runOnceForEachItem' ? 'runOnceForEachItem' : 'runOnceForAllItems',
+      items,
+      nodes: this.nodeOutputs(context.runData),
+      timeoutMs: context.codeTimeoutMs
+    });
+    run.logs = result.logs;
+
+    if (result.status === 'error') {
+      throw new Error(result.line ? `${result.error} (line ${result.line})` : result.error);
+    }
+    return result.items;
+  }
+
+  private static runSet(item: ExecutionItem, parameters: JsonObject): ExecutionItem {
+    const options = asRecord(parameters.options);
+    const assignments: Array<{ name: string; value: unknown }> = [];
+
+    if (parameters.assignments) {
+      // v3.3+: assignments.assignments[{ name, value, type }]
+      asArray(asRecord(parameters.assignments).assignments).forEach(entry => {
+        const assignment = asRecord(entry);
+        assignments.push({ name: String(assignment.name), value: this.castValue(assignment.value, String(assignment.type || 'string')) });
+      });
+    } else if (parameters.fields) {
+      // v3.0-3.2: fields.values[{ name, type: 'stringValue', stringValue }]
+      asArray(asRecord(parameters.fields).values).forEach(entry => {
+        const field = asRecord(entry);
+        const type = String(field.type || 'stringValue');
+        assignments.push({ name: String(field.name), value: this.castValue(field[type], type.replace(/Value$/, '')) });
+      });
+    } else {
+      // v1-2: values.{ string, number, boolean }[{ name, value }]
+      Object.entries(asRecord(parameters.values)).forEach(([type, entries]) => {
+        asArray(entries).forEach(entry => {
+          const field = asRecord(entry);
+          assignments.push({ name: String(field.name), value: this.castValue(field.value, type) });
+        });
+      });
+    }
+
+    const keepOnlySet = parameters.keepOnlySet === true
+      || parameters.include === 'none'
+      || (parameters.assignments !== undefined && parameters.includeOtherFields !== true);
+    const json: JsonObject = keepOnlySet ? {} : clone(item.json);
+    const dotNotation = options.dotNotation !== false;
+
+    assignments.forEach(({ name, value }) => {
+      if (dotNotation) {
+        this.setPath(json, name, value);
+      } else {
+        json[name] = value;
+      }
+    });
+
+    return { json };
+  }
+
+  private static castValue(value: unknown, type: string): unknown {
+    switch (type) {
+      case 'number':
+        return typeof value === 'number' ? value : Number(value);
+      case 'boolean':
+        return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+      case 'object':
+      case 'array':
+        if (typeof value !== 'string') return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      default:
+        return value;
+    }
+  }
+
+  // Reads the v2 filter shape, the v1 typed lists, and the single-condition "options" shape the generator emits
+  private static readConditions(raw: unknown, parameters: JsonObject): ConditionSet {
+    const conditions = asRecord(raw);
+    const options = asRecord(conditions.options);
+
+    if (Array.isArray(conditions.conditions)) {
+      return {
+        conditions: conditions.conditions.map(entry => {
+          const condition = asRecord(entry);
+          return {
+            left: condition.leftValue,
+            operation: String(asRecord(condition.operator).operation || condition.operation || 'equals'),
+            right: condition.rightValue
+          };
+        }),
+        combinator: conditions.combinator === 'or' ? 'or' : 'and',
+        caseSensitive: options.caseSensitive !== false
+      };
+    }
+
+    if (options.operation !== undefined || options.leftValue !== undefined) {
+      return {
+        conditions: [{ left: options.leftValue, operation: String(options.operation || 'equals'), right: options.rightValue }],
+        combinator: 'and',
+        caseSensitive: options.caseSensitive !== false
+      };
+    }
+
+    const typed: Condition[] = [];
+    ['string', 'number', 'boolean', 'dateTime'].forEach(type => {
+      asArray(conditions[type]).forEach(entry => {
+        const condition = asRecord(entry);
+        typed.push({ left: condition.value1, operation: String(condition.operation || 'equal'), right: condition.value2 });
+      });
+    });
+    return { conditions: typed, combinator: parameters.combineOperation === 'any' ? 'or' : 'and', caseSensitive: true };
+  }
+
+  private static matches(set: ConditionSet): boolean {
+    if (set.conditions.length === 0) return true;
+    const results = set.conditions.map(condition => this.evaluateCondition(condition, set.caseSensitive));
+    return set.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+  }
+
+  private static evaluateCondition({ left, operation, right }: Condition, caseSensitive: boolean): boolean {
+    const op = OPERATION_ALIASES[operation] || operation;
+    const text = (value: unknown) => {
+      const result = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '');
+      return caseSensitive ? result : result.toLowerCase();
+    };
+    const isEmpty = (value: unknown) =>
+      value === undefined || value === null || value === ''
+      || (Array.isArray(value) && value.length === 0)
+      || (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+
+    switch (op) {
+      case 'equals':
+        return typeof left === 'number' || typeof right === 'number' ? Number(left) === Number(right) : text(left) === text(right);
+      case 'notEquals':
+        return !this.evaluateCondition({ left, operation: 'equals', right }, caseSensitive);
+      case 'contains':
+        return text(left).includes(text(right));
+      case 'notContains':
+        return !text(left).includes(text(right));
+      case 'startsWith':
+        return text(left).startsWith(text(right));
+      case 'notStartsWith':
+        return !text(left).startsWith(text(right));
+      case 'endsWith':
+        return text(left).endsWith(text(right));
+      case 'notEndsWith':
+        return !text(left).endsWith(text(right));
+      case 'regex':
+        return new RegExp(String(right), caseSensitive ? '' : 'i').test(String(left ?? ''));
+      case 'notRegex':
+        return !new RegExp(String(right), caseSensitive ? '' : 'i').test(String(left ?? ''));
+      case 'gt':
+      case 'after':
+        return Number(left) > Number(right);
+      case 'gte':
+        return Number(left) >= Number(right);
+      case 'lt':
+      case 'before':
+        return Number(left) < Number(right);
+      case 'lte':
+        return Number(left) <= Number(right);
+      case 'exists':
+        return left !== undefined && left !== null;
+      case 'notExists':
+        return left === undefined || left === null;
+      case 'empty':
+        return isEmpty(left);
+      case 'notEmpty':
+        return !isEmpty(left);
+      case 'true':
+        return left === true || left === 'true';
+      case 'false':
+        return left === false || left === 'false';
+      default:
+        throw new Error(`Unsupported comparison "${operation}"`);
+    }
+  }
+
+  private static runIf(items: ExecutionItem[], resolved: JsonObject[]): ExecutionItem[][] {
+    const outputs: ExecutionItem[][] = [[], []];
+    items.forEach((item, index) => {
+      const parameters = resolved[index];
+      outputs[this.matches(this.readConditions(parameters.conditions, parameters)) ? 0 : 1].push(item);
+    });
+    return outputs;
+  }
+
+  private static runSwitch(items: ExecutionItem[], resolved: JsonObject[]): ExecutionItem[][] {
+    const outputs: ExecutionItem[][] = [];
+    const send = (index: number, item: ExecutionItem) => {
+      while (outputs.length <= index) outputs.push([]);
+      outputs[index].push(item);
+    };
+
+    items.forEach((item, index) => {
+      const parameters = resolved[index];
+      const options = asRecord(parameters.options);
+
+      if (parameters.mode === 'expression') {
+        send(Number(parameters.output) || 0, item);
+        return;
+      }
+
+      const rules = asRecord(parameters.rules);
+      const matched: number[] = [];
+      let fallback: number | null = null;
+
+      if (Array.isArray(rules.values)) {
+        // v3: each rule carries its own filter conditions
+        rules.values.forEach((entry, index) => {
+          const rule = asRecord(entry);
+          if (this.matches(this.readConditions(rule.conditions, rule))) matched.push(index);
+        });
+        if (options.fallbackOutput === 'extra') fallback = rules.values.length;
+        else if (typeof options.fallbackOutput === 'number') fallback = options.fallbackOutput;
+      } else {
+        // v1-2: value1 compared against each rule's value2
+        asArray(rules.rules).forEach((entry, index) => {
+          const rule = asRecord(entry);
+          const condition = { left: parameters.value1, operation: String(rule.operation || 'equal'), right: rule.value2 };
+          if (this.evaluateCondition(condition, true)) matched.push(typeof rule.output === 'number' ? rule.output : index);
+        });
+        const fallbackOutput = Number(parameters.fallbackOutput ?? -1);
+        if (fallbackOutput >= 0) fallback = fallbackOutput;
+      }
+
+      const targets = options.allMatchingOutputs ? matched : matched.slice(0, 1);
+      if (targets.length === 0 && fallback !== null) targets.push(fallback);
+      targets.forEach(index => send(index, item));
+    });
+
+    return outputs;
+  }
+
+  private static runMerge(node: N8nNode, input: ExecutionItem[][]): ExecutionItem[] {
+    const parameters = node.parameters || {};
+    const [first = [], second = []] = input;
+    const mode = parameters.mode || 'append';
+
+    if (mode === 'append') {
+      return input.flat();
+    }
+
+    if (mode === 'chooseBranch' || mode === 'passThrough') {
+      const chosen = Number(String(parameters.useDataOfInput ?? parameters.output ?? 'input1').replace(/\D/g, '') || 1);
+      return input[chosen - 1] || [];
+    }
+
+    const combineBy = mode === 'mergeByIndex' ? 'combineByPosition'
+      : mode === 'mergeByKey' ? 'combineByFields'
+      : parameters.combineBy || (parameters.combinationMode === 'multiplex' ? 'combineAll' : 'combineByPosition');
+
+    if (combineBy === 'combineByPosition') {
+      return Array.from({ length: Math.min(first.length, second.length) }, (_, index) => ({
+        json: { ...first[index].json, ...second[index].json }
+      }));
+    }
+
+    if (combineBy === 'combineAll') {
+      return first.flatMap(left => second.map(right => ({ json: { ...left.json, ...right.json } })));
+    }
+
+    // Matching fields: v3 fieldsToMatchString / mergeByFields, v2 propertyName1 / propertyName2
+    const pairs = parameters.propertyName1
+      ? [{ field1: String(parameters.propertyName1), field2: String(parameters.propertyName2 || parameters.propertyName1) }]
+      : parameters.fieldsToMatchString
+        ? String(parameters.fieldsToMatchString).split(',').map(field => ({ field1: field.trim(), field2: field.trim() }))
+        : asArray(asRecord(parameters.mergeByFields).values).map(entry => {
+          const pair = asRecord(entry);
+          return { field1: String(pair.field1), field2: String(pair.field2) };
+        });
+    if (pairs.length === 0) {
+      throw new Error('Merge by fields needs at least one field to match on');
+    }
+
+    return first.flatMap(left => second
+      .filter(right => pairs.every(({ field1, field2 }) => this.getPath(left.json, field1) === this.getPath(right.json, field2)))
+      .map(right => ({ json: { ...left.json, ...right.json } })));
+  }
+
+  private static runItemLists(node: N8nNode, items: ExecutionItem[]): ExecutionItem[] {
+    const parameters = node.parameters || {};
+
+    switch (parameters.operation || 'splitOutItems') {
+      case 'splitOutItems': {
+        const field = String(parameters.fieldToSplitOut || '');
+        if (!field) throw new Error('Field to split out is required');
+        return items.flatMap(item => {
+          const value = this.getPath(item.json, field);
+          if (!Array.isArray(value)) {
+            throw new Error(`Field "${field}" is not an array`);
+          }
+          return value.map(entry => ({ json: entry && typeof entry === 'object' ? entry as JsonObject : { [field.split('.').pop()!]: entry } }));
+        });
+      }
+      case 'aggregateItems': {
+        if (parameters.aggregate === 'aggregateAllItemData') {
+          return [{ json: { [parameters.destinationFieldName || 'data']: items.map(item => item.json) } }];
+        }
+        const fields = asArray(asRecord(parameters.fieldsToAggregate).fieldToAggregate)
+          .map(entry => asRecord(entry))
+          .map(entry => ({ field: String(entry.fieldToAggregate), rename: entry.renameField ? String(entry.outputFieldName) : undefined }));
+        const json: JsonObject = {};
+        fields.forEach(({ field, rename }) => {
+          json[rename || field] = items.map(item => this.getPath(item.json, field)).filter(value => value !== undefined);
+        });
+        return [{ json }];
+      }
+      case 'removeDuplicates': {
+        const seen = new Set<string>();
+        return items.filter(item => {
+          const key = JSON.stringify(item.json);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      case 'sort': {
+        const fields = asArray(asRecord(parameters.sortFieldsUi).sortField).map(entry => asRecord(entry));
+        return [...items].sort((a, b) => {
+          for (const field of fields) {
+            const left = this.getPath(a.json, String(field.fieldName)) as string | number;
+            const right = this.getPath(b.json, String(field.fieldName)) as string | number;
+            if (left === right) continue;
+            const direction = field.order === 'descending' ? -1 : 1;
+            return (left > right ? 1 : -1) * direction;
+          }
+          return 0;
+        });
+      }
+      case 'limit': {
+        const max = Number(parameters.maxItems ?? 1);
+        return parameters.keep === 'lastItems' ? items.slice(-max) : items.slice(0, max);
+      }
+      default:
+        throw new Error(`Item Lists operation "${parameters.operation}" is not supported by the local executor`);
+    }
+  }
+
+  private static async runHttpRequest(node: N8nNode, items: ExecutionItem[], context: ExecutionContext): Promise<ExecutionItem[]> {
+    const fetchImpl = context.fetchImpl || (typeof fetch !== 'undefined' ? fetch : undefined);
+    if (!fetchImpl) {
+      throw new Error('No fetch implementation available');
+    }
+
+    const resolved = await this.resolveParameters(node, items, context);
+    const results: ExecutionItem[] = [];
+    for (let index = 0; index < items.length; index++) {
+      const parameters = resolved[index];
+      const method = String(parameters.method || parameters.requestMethod || 'GET').toUpperCase();
+      if (!parameters.url) {
+        throw new Error('URL is required');
+      }
+
+      const url = new URL(String(parameters.url));
+      const pairs = (value: unknown, key: string) => asArray(asRecord(value)[key]).map(entry => asRecord(entry));
+      [...pairs(parameters.queryParameters, 'parameters'), ...pairs(parameters.queryParametersUi, 'parameter')]
+        .forEach(entry => url.searchParams.append(String(entry.name), String(entry.value ?? '')));
+
+      const headers: Record<string, string> = {};
+      [...pairs(parameters.headerParameters, 'parameters'), ...pairs(parameters.headerParametersUi, 'parameter')]
+        .forEach(entry => { headers[String(entry.name)] = String(entry.value ?? ''); });
+
+      let body: string | undefined;
+      if (parameters.sendBody || parameters.jsonParameters || parameters.bodyParametersUi) {
+        const json = parameters.specifyBody === 'json' ? parameters.jsonBody
+          : parameters.jsonParameters ? parameters.bodyParametersJson
+          : Object.fromEntries(
+            [...pairs(parameters.bodyParameters, 'parameters'), ...pairs(parameters.bodyParametersUi, 'parameter')]
+              .map(entry => [String(entry.name), entry.value])
+          );
+        body = typeof json === 'string' ? json : JSON.stringify(json);
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+      }
+
+      const response = await fetchImpl(url.toString(), { method, headers, ...(body !== undefined && method !== 'GET' ? { body } : {}) });
+      const neverError = asRecord(asRecord(asRecord(parameters.options).response).response).neverError === true;
+      if (!response.ok && !neverError) {
+        throw new Error(`Request to ${url.toString()} failed with status ${response.status}`);
+      }
+
+      const contentType = response.headers?.get?.('content-type') || '';
+      const data: unknown = contentType.includes('json') ? await response.json() : await response.text();
+      if (Array.isArray(data)) {
+        results.push(...data.map(entry => ({ json: entry && typeof entry === 'object' ? entry as JsonObject : { data: entry } })));
+      } else if (data && typeof data === 'object') {
+        results.push({ json: data as JsonObject });
+      } else {
+        results.push({ json: { data } });
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nConnection, N8nNode } from '@/data/n8nNodeReference';
+import { ModernWorkflowGenerator } from './modernWorkflowGenerator';
+import { WorkflowGraphAnalyzer } from './workflowGraphAnalyzer';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}, typeVersion = 1): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion,
+  position: [0, 0],
+  parameters
+});
+
+// "A>B" wires A's output 0 to B; "A:1>B:2" wires output 1 to input 2
+const wire = (...links: string[]): Record<string, N8nConnection> => {
+  const connections: Record<string, N8nConnection> = {};
+  links.forEach(link => {
+    const [[from, output = '0'], [to, input = '0']] = link.split('>').map(end => end.split(':'));
+    const connection = connections[from] || { main: [] };
+    while (connection.main.length <= Number(output)) connection.main.push([]);
+    connection.main[Number(output)].push({ node: to, type: 'main', index: Number(input) });
+    connections[from] = connection;
+  });
+  return connections;
+};
+
+const messages = (nodes: N8nNode[], connections: Record<string, N8nConnection>) =>
+  WorkflowGraphAnalyzer.analyze({ nodes, connections }).map(issue => `${issue.type}: ${issue.message}`);
+
+const start = node('Start', 'n8n-nodes-base.manualTrigger');
+
+describe('WorkflowGraphAnalyzer.analyze', () => {
+  it('accepts a straight flow', () => {
+    expect(messages([start, node('Work', 'n8n-nodes-base.code')], wire('Start>Work'))).toEqual([]);
+  });
+
+  it('requires a trigger', () => {
+    expect(messages([node('Work', 'n8n-nodes-base.code')], {})).toEqual([
+      'error: Workflow has no trigger node, so nothing can start it'
+    ]);
+  });
+
+  it('rejects two webhooks on the same method and path', () => {
+    const hooks = [
+      node('Orders', 'n8n-nodes-base.webhook', { path: 'orders', httpMethod: 'POST' }),
+      node('Orders Again', 'n8n-nodes-base.webhook', { path: '/orders', httpMethod: 'post' }),
+      node('Orders Read', 'n8n-nodes-base.webhook', { path: 'orders', httpMethod: 'GET' })
+    ];
+
+    expect(messages(hooks, {})).toContain('error: Webhook "Orders Again" listens on POST orders like "Orders"');
+    expect(messages(hooks, {}).filter(message => message.startsWith('error'))).toHaveLength(1);
+  });
+
+  it('warns about nodes no trigger reaches', () => {
+    const nodes = [start, node('Work', 'n8n-nodes-base.code'), node('Orphan', 'n8n-nodes-base.set')];
+
+    expect(messages(nodes, wire('Start>Work'))).toEqual([
+      'warning: Node "Orphan" is not reachable from any trigger and will never run'
+    ]);
+  });
+
+  it('reports real cycles but not Loop Over Items loops', () => {
+    const cycle = [start, node('A', 'n8n-nodes-base.code'), node('B', 'n8n-nodes-base.code')];
+    const loop = [start, node('Each', 'n8n-nodes-base.splitInBatches', { batchSize: 1 }, 3), node('Work', 'n8n-nodes-base.code'), node('Done', 'n8n-nodes-base.noOp')];
+
+    expect(messages(cycle, wire('Start>A', 'A>B', 'B>A'))).toEqual([
+      'error: Nodes "A" and "B" form a cycle that would run forever'
+    ]);
+    expect(messages(loop, wire('Start>Each', 'Each:1>Work', 'Work>Each', 'Each:0>Done'))).toEqual([]);
+  });
+
+  it('warns about If and Switch branches with nothing connected', () => {
+    const check = node('Check', 'n8n-nodes-base.if');
+    const route = node('Route', 'n8n-nodes-base.switch', { rules: { values: [{}, {}, {}] } }, 3);
+    const nodes = [start, check, route, node('Yes', 'n8n-nodes-base.noOp'), node('First', 'n8n-nodes-base.noOp')];
+
+    expect(messages(nodes, wire('Start>Check', 'Check:0>Yes', 'Start>Route', 'Route:0>First'))).toEqual([
+      'warning: Node "Check" has no connection on output false; items sent there are dropped',
+      'warning: Node "Route" has no connection on outputs 1, 2; items sent there are dropped'
+    ]);
+  });
+
+  it('rejects connections from outputs a node does not have', () => {
+    const nodes = [start, node('Work', 'n8n-nodes-base.code'), node('Next', 'n8n-nodes-base.noOp')];
+
+    expect(messages(nodes, wire('Start>Work', 'Work:1>Next'))).toContain(
+      'error: Node "Work" is connected from output 1, but it only has 1 output'
+    );
+  });
+
+  it('warns about a Merge with only one input connected', () => {
+    const nodes = [start, node('A', 'n8n-nodes-base.code'), node('B', 'n8n-nodes-base.code'), node('Join', 'n8n-nodes-base.merge')];
+
+    expect(messages(nodes, wire('Start>A', 'Start>B', 'A>Join', 'B>Join'))).toEqual([
+      'warning: Merge node "Join" has only one input connected'
+    ]);
+    expect(messages(nodes, wire('Start>A', 'Start>B', 'A>Join', 'B>Join:1'))).toEqual([]);
+  });
+});
+
+describe('generated webhook workflows', () => {
+  it('answer invalid input on the false branch of the validation', () => {
+    const plan = ModernWorkflowGenerator['analyzeAndPlan']('receive a webhook, validate and process the order', []);
+    const { json } = ModernWorkflowGenerator.buildWorkflow('orders', plan);
+
+    expect(WorkflowGraphAnalyzer.analyze(json)).toEqual([]);
+    expect(json.connections['Validate Input'].main.map(targets => targets.map(target => target.node))).toEqual([
+      ['Process Data'],
+      ['Reject Input']
+    ]);
+  });
+});
@@ -0,0 +1,320 @@
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import type { ValidationIssue } from '@/services/nodeService';
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  output: number;
+  input: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const TRIGGER_TYPES = new Set([
+  'n8n-nodes-base.webhook',
+  'n8n-nodes-base.manualTrigger',
+  'n8n-nodes-base.cron',
+  'n8n-nodes-base.scheduleTrigger',
+  'n8n-nodes-base.interval'
+]);
+
+// Loop Over Items feeds its "loop" output back into itself; cycles through it are intended
+const LOOP_TYPES = new Set(['n8n-nodes-base.splitInBatches']);
+
+// Canvas-only nodes that are never executed
+const IGNORED_TYPES = new Set(['n8n-nodes-base.stickyNote']);
+
+// Node types with a single output; other types not handled in outputsOf are not checked
+const SINGLE_OUTPUT_TYPES = new Set([
+  ...TRIGGER_TYPES,
+  'n8n-nodes-base.code',
+  'n8n-nodes-base.function',
+  'n8n-nodes-base.set',
+  'n8n-nodes-base.merge',
+  'n8n-nodes-base.httpRequest',
+  'n8n-nodes-base.itemLists',
+  'n8n-nodes-base.noOp',
+  'n8n-nodes-base.wait',
+  'n8n-nodes-base.respondToWebhook',
+  'n8n-nodes-base.slack',
+  'n8n-nodes-base.emailSend'
+]);
+
+const asRecord = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+
+const quoteList = (names: string[]): string =>
+  names.length === 1 ? `"${names[0]}"` : `${names.slice(0, -1).map(name => `"${name}"`).join(', ')} and "${names[names.length - 1]}"`;
+
+// Static checks on the shape of a workflow's graph, beyond whether connection endpoints exist
+// (NodeService.validateConnections reports those, so edges to missing nodes are skipped here)
+export class WorkflowGraphAnalyzer {
+  static analyze(workflow: Pick<N8nWorkflow, 'nodes' | 'connections'>): ValidationIssue[] {
+    const nodes = (workflow.nodes || []).filter(node => !IGNORED_TYPES.has(node.type));
+    if (nodes.length === 0) return [];
+
+    const edges = this.collectEdges(workflow, new Set(nodes.map(node => node.name)));
+    return [
+      ...this.checkTriggers(nodes, edges),
+      ...this.checkCycles(nodes, edges),
+      ...this.checkOutputs(nodes, workflow),
+      ...this.checkMerges(nodes, edges)
+    ];
+  }
+
+  static isTrigger(node: Pick<N8nNode, 'type'>): boolean {
+    return TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type);
+  }
+
+  // Number of outputs a node has, or null when its type is not known here
+  static outputsOf(node: N8nNode): number | null {
+    const parameters = asRecord(node.parameters);
+    const errorOutput = node.onError === 'continueErrorOutput' ? 1 : 0;
+
+    switch (node.type) {
+      case 'n8n-nodes-base.if':
+        return 2 + errorOutput;
+      case 'n8n-nodes-base.filter':
+        return 1 + errorOutput;
+      case 'n8n-nodes-base.splitInBatches':
+        // v3 added the "loop" output next to "done"
+        return (node.typeVersion >= 3 ? 2 : 1) + errorOutput;
+      case 'n8n-nodes-base.switch': {
+        if (parameters.mode === 'expression') return (Number(parameters.numberOutputs) || 4) + errorOutput;
+        const rules = asRecord(parameters.rules);
+        if (node.typeVersion >= 3 && Array.isArray(rules.values)) {
+          const extra = asRecord(parameters.options).fallbackOutput === 'extra' ? 1 : 0;
+          return rules.values.length + extra + errorOutput;
+        }
+        // v1-2 always have four outputs
+        return 4 + errorOutput;
+      }
+      default:
+        return SINGLE_OUTPUT_TYPES.has(node.type) ? 1 + errorOutput : null;
+    }
+  }
+
+  private static collectEdges(workflow: Pick<N8nWorkflow, 'connections'>, names: Set<string>): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    Object.entries(workflow.connections || {}).forEach(([from, connection]) => {
+      if (!names.has(from)) return;
+      connection?.main?.forEach((targets, output) => {
+        targets?.forEach(target => {
+          if (names.has(target?.node)) {
+            edges.push({ from, to: target.node, output, input: target.index || 0 });
+          }
+        });
+      });
+    });
+    return edges;
+  }
+
+  private static checkTriggers(nodes: N8nNode[], edges: GraphEdge[]): ValidationIssue[] {
+    const triggers = nodes.filter(node => this.isTrigger(node));
+    if (triggers.length === 0) {
+      return [{
+        type: 'error',
+        message: 'Workflow has no trigger node, so nothing can start it',
+        suggestion: 'Add a Webhook, Schedule or Manual Trigger node'
+      }];
+    }
+
+    const issues: ValidationIssue[] = [];
+
+    // n8n refuses to activate two webhooks listening on the same method and path
+    const webhooks = new Map<string, N8nNode>();
+    triggers
+      .filter(node => node.type === 'n8n-nodes-base.webhook')
+      .forEach(node => {
+        const parameters = asRecord(node.parameters);
+        const key = `${String(parameters.httpMethod || 'GET').toUpperCase()} ${String(parameters.path || '').replace(/^\/+/, '')}`;
+        const existing = webhooks.get(key);
+        if (existing) {
+          issues.push({
+            type: 'error',
+            nodeId: node.id,
+            nodeName: node.name,
+            message: `Webhook "${node.name}" listens on ${key} like "${existing.name}"`,
+            suggestion: 'Give each webhook its own path or method'
+          });
+        } else {
+          webhooks.set(key, node);
+        }
+      });
+
+    // A manual trigger next to another one is the usual way to test; several automatic
+    // triggers start separate executions with different input
+    const automatic = triggers.filter(node => node.type !== 'n8n-nodes-base.manualTrigger');
+    automatic.slice(1).forEach(node => {
+      issues.push({
+        type: 'warning',
+        nodeId: node.id,
+        nodeName: node.name,
+        message: `Workflow has ${automatic.length} triggers (${quoteList(automatic.map(trigger => trigger.name))}); each starts its own execution`,
+        suggestion: 'Split the workflow or make sure every path handles the input of each trigger'
+      });
+    });
+
+    const reachable = new Set(triggers.map(node => node.name));
+    const queue = [...reachable];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges
+        .filter(edge => edge.from === current && !reachable.has(edge.to))
+        .forEach(edge => {
+          reachable.add(edge.to);
+          queue.push(edge.to);
+        });
+    }
+
+    nodes
+      .filter(node => !reachable.has(node.name))
+      .forEach(node => {
+        issues.push({
+          type: 'warning',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Node "${node.name}" is not reachable from any trigger and will never run`,
+          suggestion: 'Connect it to the flow or remove it'
+        });
+      });
+
+    return issues;
+  }
+
+  // Strongly connected components (Tarjan); each one with more than one node, or a node wired
+  // to itself, is a cycle
+  private static checkCycles(nodes: N8nNode[], edges: GraphEdge[]): ValidationIssue[] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const visit = (name: string) => {
+      index.set(name, counter);
+      lowLink.set(name, counter);
+      counter++;
+      stack.push(name);
+      onStack.add(name);
+
+      edges.filter(edge => edge.from === name).forEach(edge => {
+        if (!index.has(edge.to)) {
+          visit(edge.to);
+          lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(edge.to)!));
+        } else if (onStack.has(edge.to)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(edge.to)!));
+        }
+      });
+
+      if (lowLink.get(name) === index.get(name)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== name);
+        components.push(component);
+      }
+    };
+
+    nodes.forEach(node => {
+      if (!index.has(node.name)) visit(node.name);
+    });
+
+    const byName = new Map(nodes.map(node => [node.name, node]));
+    return components
+      .filter(component => component.length > 1 || edges.some(edge => edge.from === component[0] && edge.to === component[0]))
+      .filter(component => !component.some(name => LOOP_TYPES.has(byName.get(name)!.type)))
+      .map(component => {
+        // Reported on the member listed first in the workflow
+        const members = nodes.filter(node => component.includes(node.name));
+        return {
+          type: 'error' as const,
+          nodeId: members[0].id,
+          nodeName: members[0].name,
+          message: members.length === 1
+            ? `Node "${members[0].name}" is connected to itself`
+            : `Nodes ${quoteList(members.map(node => node.name))} form a cycle that would run forever`,
+          suggestion: 'Remove the connection that closes the cycle, or iterate with a Loop Over Items node'
+        };
+      });
+  }
+
+  private static checkOutputs(nodes: N8nNode[], workflow: Pick<N8nWorkflow, 'connections'>): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    nodes.forEach(node => {
+      const outputs = this.outputsOf(node);
+      if (outputs === null) return;
+      const wired = (workflow.connections?.[node.name]?.main || []).map(targets => (targets || []).length > 0);
+
+      wired.forEach((connected, output) => {
+        if (connected && output >= outputs) {
+          issues.push({
+            type: 'error',
+            nodeId: node.id,
+            nodeName: node.name,
+            message: `Node "${node.name}" is connected from output ${output}, but it only has ${outputs} output${outputs === 1 ? '' : 's'}`,
+            suggestion: `Connect from outputs 0 to ${outputs - 1}`
+          });
+        }
+      });
+
+      // Items routed to an unconnected branch are silently dropped
+      if (node.type === 'n8n-nodes-base.if' || node.type === 'n8n-nodes-base.switch') {
+        const open = this.branchesOf(node, outputs).filter(output => !wired[output]);
+        if (open.length > 0) {
+          const labels = node.type === 'n8n-nodes-base.if'
+            ? open.map(output => (output === 0 ? 'true' : 'false'))
+            : open.map(String);
+          issues.push({
+            type: 'warning',
+            nodeId: node.id,
+            nodeName: node.name,
+            message: `Node "${node.name}" has no connection on output${open.length === 1 ? '' : 's'} ${labels.join(', ')}; items sent there are dropped`,
+            suggestion: 'Connect every branch, or use a Filter node if dropping items is intended'
+          });
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  // Outputs of an If or Switch that items can be routed to
+  private static branchesOf(node: N8nNode, outputs: number): number[] {
+    const parameters = asRecord(node.parameters);
+    const rules = asRecord(parameters.rules);
+    const branches = outputs - (node.onError === 'continueErrorOutput' ? 1 : 0);
+
+    // Switch v1-2 always show four outputs but only route to those its rules name
+    if (node.type === 'n8n-nodes-base.switch' && node.typeVersion < 3 && parameters.mode !== 'expression') {
+      const used = (Array.isArray(rules.rules) ? rules.rules : []).map(rule => Number(asRecord(rule).output) || 0);
+      const fallback = Number(parameters.fallbackOutput ?? -1);
+      return [...new Set([...used, ...(fallback >= 0 ? [fallback] : [])])]
+        .filter(output => output < branches)
+        .sort((a, b) => a - b);
+    }
+
+    return [...Array(branches).keys()];
+  }
+
+  private static checkMerges(nodes: N8nNode[], edges: GraphEdge[]): ValidationIssue[] {
+    return nodes
+      .filter(node => node.type === 'n8n-nodes-base.merge')
+      .flatMap(node => {
+        const inputs = new Set(edges.filter(edge => edge.to === node.name).map(edge => edge.input));
+        if (inputs.size >= 2) return [];
+        return [{
+          type: 'warning' as const,
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Merge node "${node.name}" has ${inputs.size === 0 ? 'no inputs' : 'only one input'} connected`,
+          suggestion: 'Connect a branch to each of its inputs, or remove it'
+        }];
+      });
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowImporter } from './workflowImporter';
+
+const start = { name: 'Start', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [100, 200], parameters: {} };
+
+describe('WorkflowImporter.looksLikeWorkflowJson', () => {
+  it('tells an export apart from a prompt', () => {
+    expect(WorkflowImporter.looksLikeWorkflowJson(`  ${JSON.stringify({ nodes: [] })}`)).toBe(true);
+    expect(WorkflowImporter.looksLikeWorkflowJson('[{"nodes": []}]')).toBe(true);
+    expect(WorkflowImporter.looksLikeWorkflowJson('Build a workflow whose "nodes": post to Slack')).toBe(false);
+    expect(WorkflowImporter.looksLikeWorkflowJson('{"name": "no nodes here"}')).toBe(false);
+  });
+});
+
+describe('WorkflowImporter.parse', () => {
+  it('reads a plain export and marks it inactive', () => {
+    const workflow = WorkflowImporter.parse(JSON.stringify({
+      name: 'Orders',
+      nodes: [start],
+      connections: {},
+      active: true,
+      settings: { executionOrder: 'v1' },
+      tags: ['shop']
+    }));
+
+    expect(workflow).toEqual({
+      name: 'Orders',
+      nodes: [start],
+      connections: {},
+      active: false,
+      settings: { executionOrder: 'v1' },
+      tags: ['shop']
+    });
+  });
+
+  it('unwraps CLI arrays and REST API responses', () => {
+    expect(WorkflowImporter.parse(JSON.stringify([{ name: 'First', nodes: [start] }, { name: 'Second', nodes: [start] }])).name).toBe('First');
+    expect(WorkflowImporter.parse(JSON.stringify({ data: { name: 'Wrapped', nodes: [start] } })).name).toBe('Wrapped');
+  });
+
+  it('fills in what a partial export leaves out', () => {
+    const workflow = WorkflowImporter.parse(JSON.stringify({
+      name: '  ',
+      nodes: [{ name: 'Code', type: 'n8n-nodes-base.code', position: [10], parameters: 'none' }],
+      connections: 'none'
+    }));
+
+    expect(workflow).toEqual({
+      name: 'Imported Workflow',
+      nodes: [{ name: 'Code', type: 'n8n-nodes-base.code', typeVersion: 1, position: [0, 0], parameters: {} }],
+      connections: {},
+      active: false,
+      settings: {}
+    });
+  });
+
+  it('rejects input that is not a usable workflow', () => {
+    const parse = (value: unknown) => () => WorkflowImporter.parse(typeof value === 'string' ? value : JSON.stringify(value));
+
+    expect(parse('{"nodes": [')).toThrow(/^The file is not valid JSON: /);
+    expect(parse({ name: 'Orders' })).toThrow('No workflow found: expected an n8n export with a "nodes" array');
+    expect(parse([])).toThrow('No workflow found');
+    expect(parse({ data: 'none' })).toThrow('No workflow found');
+    expect(parse({ nodes: [] })).toThrow('The workflow has no nodes');
+  });
+
+  it('rejects malformed nodes and duplicate names', () => {
+    const parse = (nodes: unknown[]) => () => WorkflowImporter.parse(JSON.stringify({ nodes }));
+
+    expect(parse([start, 'Code'])).toThrow('Node 2 is not an object');
+    expect(parse([start, { type: 'n8n-nodes-base.code' }])).toThrow('Node 2 is missing a name');
+    expect(parse([start, { name: 'Code', type: ' ' }])).toThrow('Node "Code" is missing a type');
+    expect(parse([start, { ...start, position: [0, 0] }])).toThrow('Duplicate node name "Start"');
+  });
+});
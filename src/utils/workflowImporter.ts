@@ -0,0 +1,92 @@
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+
+export class WorkflowImporter {
+  // Cheap check used to tell a pasted export apart from a natural-language prompt
+  static looksLikeWorkflowJson(text: string): boolean {
+    const trimmed = text.trim();
+    return /^[[{]/.test(trimmed) && /"nodes"\s*:/.test(trimmed);
+  }
+
+  static parse(text: string): N8nWorkflow {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const candidate = this.unwrap(raw);
+    if (!candidate || !Array.isArray(candidate.nodes)) {
+      throw new Error('No workflow found: expected an n8n export with a "nodes" array');
+    }
+    if (candidate.nodes.length === 0) {
+      throw new Error('The workflow has no nodes');
+    }
+
+    const nodes = candidate.nodes.map((node, index) => this.normalizeNode(node, index));
+    const names = new Set<string>();
+    nodes.forEach(node => {
+      if (names.has(node.name)) {
+        throw new Error(`Duplicate node name "${node.name}"`);
+      }
+      names.add(node.name);
+    });
+
+    const connections = candidate.connections && typeof candidate.connections === 'object' ? candidate.connections : {};
+
+    return {
+      ...candidate,
+      name: typeof candidate.name === 'string' && candidate.name.trim() ? candidate.name : 'Imported Workflow',
+      nodes,
+      connections: connections as N8nWorkflow['connections'],
+      active: false,
+      settings: (candidate.settings as N8nWorkflow['settings']) || {}
+    };
+  }
+
+  // n8n exports a single workflow object, the CLI an array of them and the REST API wraps them in "data"
+  private static unwrap(raw: unknown): Record<string, unknown> & { nodes?: unknown[] } | null {
+    if (Array.isArray(raw)) {
+      return raw.length > 0 ? this.unwrap(raw[0]) : null;
+    }
+    if (!raw || typeof raw !== 'object') {
+      return null;
+    }
+
+    const record = raw as Record<string, unknown>;
+    if (Array.isArray(record.nodes)) {
+      return record as Record<string, unknown> & { nodes: unknown[] };
+    }
+    if (record.data) {
+      return this.unwrap(record.data);
+    }
+    return null;
+  }
+
+  private static normalizeNode(raw: unknown, index: number): N8nNode {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`Node ${index + 1} is not an object`);
+    }
+
+    const node = raw as Record<string, unknown>;
+    if (typeof node.name !== 'string' || !node.name.trim()) {
+      throw new Error(`Node ${index + 1} is missing a name`);
+    }
+    if (typeof node.type !== 'string' || !node.type.trim()) {
+      throw new Error(`Node "${node.name}" is missing a type`);
+    }
+
+    const position = Array.isArray(node.position) && node.position.length === 2
+      ? (node.position.map(Number) as [number, number])
+      : [0, 0] as [number, number];
+
+    return {
+      ...node,
+      name: node.name,
+      type: node.type,
+      typeVersion: typeof node.typeVersion === 'number' ? node.typeVersion : 1,
+      position,
+      parameters: node.parameters && typeof node.parameters === 'object' ? node.parameters as Record<string, unknown> : {}
+    } as N8nNode;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nConnection, N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { WorkflowLayout } from './workflowLayout';
+
+const node = (name: string, type = 'n8n-nodes-base.noOp'): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters: {}
+});
+
+// "A>B" wires A's output 0 to B; "A:1>B:2" wires output 1 to input 2
+const wire = (...links: string[]): Record<string, N8nConnection> => {
+  const connections: Record<string, N8nConnection> = {};
+  links.forEach(link => {
+    const [[from, output = '0'], [to, input = '0']] = link.split('>').map(end => end.split(':'));
+    const connection = connections[from] || { main: [] };
+    while (connection.main.length <= Number(output)) connection.main.push([]);
+    connection.main[Number(output)].push({ node: to, type: 'main', index: Number(input) });
+    connections[from] = connection;
+  });
+  return connections;
+};
+
+const workflow = (names: string[], connections: Record<string, N8nConnection>): N8nWorkflow => ({
+  name: 'Layout',
+  nodes: names.map(name => node(name)),
+  connections,
+  active: false,
+  settings: {}
+});
+
+const positions = (result: N8nWorkflow) => Object.fromEntries(result.nodes.map(entry => [entry.name, entry.position]));
+
+describe('WorkflowLayout.apply', () => {
+  it('places a straight flow in one row, one column per step', () => {
+    const before = workflow(['Start', 'Fetch', 'Save'], wire('Start>Fetch', 'Fetch>Save'));
+    const after = WorkflowLayout.apply(before);
+
+    expect(positions(after)).toEqual({ Start: [240, 300], Fetch: [460, 300], Save: [680, 300] });
+    expect(before.nodes.every(entry => entry.position[0] === 0)).toBe(true);
+    expect(WorkflowLayout.hasChanged(before, after)).toBe(true);
+    expect(WorkflowLayout.hasChanged(after, WorkflowLayout.apply(after))).toBe(false);
+  });
+
+  it('fans branches out around their parent and centres the merge between them', () => {
+    const after = WorkflowLayout.apply(workflow(
+      ['Start', 'If', 'Yes', 'No', 'Merge'],
+      wire('Start>If', 'If>Yes', 'If:1>No', 'Yes>Merge', 'No>Merge:1')
+    ));
+
+    expect(positions(after)).toEqual({
+      Start: [240, 300],
+      If: [460, 300],
+      Yes: [680, 220],
+      No: [680, 380],
+      Merge: [900, 300]
+    });
+  });
+
+  it('places a node after its longest input path', () => {
+    const after = WorkflowLayout.apply(workflow(['Start', 'Fetch', 'Merge'], wire('Start>Fetch', 'Fetch>Merge', 'Start>Merge:1')));
+
+    expect(positions(after).Merge[0]).toBe(680);
+  });
+
+  it('keeps a loop body to the right of the node it returns to', () => {
+    const after = WorkflowLayout.apply(workflow(
+      ['Start', 'Batches', 'Work', 'Done'],
+      wire('Start>Batches', 'Batches>Done', 'Batches:1>Work', 'Work>Batches')
+    ));
+
+    expect(positions(after)).toEqual({
+      Start: [240, 300],
+      Batches: [460, 300],
+      Done: [680, 220],
+      Work: [680, 380]
+    });
+  });
+
+  it('honours a custom origin and spacing', () => {
+    const after = WorkflowLayout.apply(
+      workflow(['Start', 'If', 'Yes', 'No'], wire('Start>If', 'If>Yes', 'If:1>No')),
+      { origin: [0, 0], columnWidth: 100, rowHeight: 200 }
+    );
+
+    expect(positions(after)).toEqual({ Start: [0, 0], If: [100, 0], Yes: [200, -100], No: [200, 100] });
+  });
+});
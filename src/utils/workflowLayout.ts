@@ -0,0 +1,177 @@
+import type { N8nWorkflow } from '@/data/n8nNodeReference';
+
+export interface LayoutOptions {
+  origin?: [number, number];
+  columnWidth?: number;
+  rowHeight?: number;
+}
+
+interface LayoutEdge {
+  from: string;
+  to: string;
+  output: number;
+}
+
+const DEFAULT_OPTIONS: Required<LayoutOptions> = {
+  origin: [240, 300],
+  columnWidth: 220,
+  rowHeight: 160
+};
+
+const GRID = 20;
+
+// Layered (Sugiyama-style) layout: nodes are placed in columns by their longest
+// distance from a trigger, then spread vertically so branches fan out around
+// their parent and merges sit between their inputs.
+export class WorkflowLayout {
+  static apply(workflow: N8nWorkflow, options: LayoutOptions = {}): N8nWorkflow {
+    const { origin, columnWidth, rowHeight } = { ...DEFAULT_OPTIONS, ...options };
+    const result: N8nWorkflow = JSON.parse(JSON.stringify(workflow));
+    const nodes = result.nodes || [];
+    if (nodes.length === 0) return result;
+
+    const names = nodes.map(node => node.name);
+    const edges = this.collectEdges(result, new Set(names));
+    const forward = this.removeBackEdges(names, edges);
+    const layers = this.assignLayers(names, forward);
+
+    const incoming = new Map<string, LayoutEdge[]>(names.map(name => [name, []]));
+    const usedOutputs = new Map<string, number[]>(names.map(name => [name, []]));
+    forward.forEach(edge => {
+      incoming.get(edge.to)!.push(edge);
+      const outputs = usedOutputs.get(edge.from)!;
+      if (!outputs.includes(edge.output)) outputs.push(edge.output);
+    });
+    usedOutputs.forEach(outputs => outputs.sort((a, b) => a - b));
+
+    const y = new Map<string, number>();
+    const columns: string[][] = [];
+    names.forEach(name => {
+      const layer = layers.get(name)!;
+      (columns[layer] = columns[layer] || []).push(name);
+    });
+
+    columns.forEach((column, layerIndex) => {
+      if (!column) return;
+
+      // Desired height: average of the parents' heights, offset by which output feeds the node
+      const desired = new Map<string, number>();
+      column.forEach((name, index) => {
+        const parents = incoming.get(name)!;
+        if (layerIndex === 0 || parents.length === 0) {
+          desired.set(name, index * rowHeight);
+          return;
+        }
+        const targets = parents.map(edge => {
+          const outputs = usedOutputs.get(edge.from)!;
+          const slot = outputs.indexOf(edge.output);
+          return y.get(edge.from)! + (slot - (outputs.length - 1) / 2) * rowHeight;
+        });
+        desired.set(name, targets.reduce((sum, value) => sum + value, 0) / targets.length);
+      });
+
+      const ordered = [...column].sort((a, b) => desired.get(a)! - desired.get(b)! || names.indexOf(a) - names.indexOf(b));
+
+      // Push overlapping nodes apart, then shift the column back towards its desired centre
+      const placed: number[] = [];
+      ordered.forEach((name, index) => {
+        const wanted = desired.get(name)!;
+        placed.push(index === 0 ? wanted : Math.max(wanted, placed[index - 1] + rowHeight));
+      });
+      const shift = ordered.reduce((sum, name, index) => sum + desired.get(name)! - placed[index], 0) / ordered.length;
+      ordered.forEach((name, index) => y.set(name, placed[index] + shift));
+    });
+
+    // Centre the whole drawing vertically on the origin
+    const heights = [...y.values()];
+    const offset = origin[1] - (Math.min(...heights) + Math.max(...heights)) / 2;
+
+    nodes.forEach(node => {
+      node.position = [
+        this.snap(origin[0] + layers.get(node.name)! * columnWidth),
+        this.snap(y.get(node.name)! + offset)
+      ];
+    });
+
+    return result;
+  }
+
+  static hasChanged(before: N8nWorkflow, after: N8nWorkflow): boolean {
+    const positions = new Map((before.nodes || []).map(node => [node.name, node.position]));
+    return (after.nodes || []).some(node => {
+      const previous = positions.get(node.name);
+      return !previous || previous[0] !== node.position[0] || previous[1] !== node.position[1];
+    });
+  }
+
+  private static collectEdges(workflow: N8nWorkflow, names: Set<string>): LayoutEdge[] {
+    const edges: LayoutEdge[] = [];
+    Object.entries(workflow.connections || {}).forEach(([from, connection]) => {
+      if (!names.has(from)) return;
+      connection.main?.forEach((targets, output) => {
+        targets?.forEach(target => {
+          if (names.has(target.node) && target.node !== from) {
+            edges.push({ from, to: target.node, output });
+          }
+        });
+      });
+    });
+    return edges;
+  }
+
+  // Depth-first search from the roots; edges that point back onto the stack close a loop
+  private static removeBackEdges(names: string[], edges: LayoutEdge[]): LayoutEdge[] {
+    const outgoing = new Map<string, LayoutEdge[]>(names.map(name => [name, []]));
+    const indegree = new Map<string, number>(names.map(name => [name, 0]));
+    edges.forEach(edge => {
+      outgoing.get(edge.from)!.push(edge);
+      indegree.set(edge.to, indegree.get(edge.to)! + 1);
+    });
+
+    const state = new Map<string, 'active' | 'done'>();
+    const back = new Set<LayoutEdge>();
+
+    const visit = (name: string) => {
+      state.set(name, 'active');
+      outgoing.get(name)!.forEach(edge => {
+        const targetState = state.get(edge.to);
+        if (targetState === 'active') {
+          back.add(edge);
+        } else if (!targetState) {
+          visit(edge.to);
+        }
+      });
+      state.set(name, 'done');
+    };
+
+    names.filter(name => indegree.get(name) === 0).forEach(visit);
+    names.filter(name => !state.has(name)).forEach(visit);
+
+    return edges.filter(edge => !back.has(edge));
+  }
+
+  // Longest-path layering so every node sits to the right of all of its inputs
+  private static assignLayers(names: string[], edges: LayoutEdge[]): Map<string, number> {
+    const layers = new Map<string, number>(names.map(name => [name, 0]));
+    const indegree = new Map<string, number>(names.map(name => [name, 0]));
+    edges.forEach(edge => indegree.set(edge.to, indegree.get(edge.to)! + 1));
+
+    const queue = names.filter(name => indegree.get(name) === 0);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      edges
+        .filter(edge => edge.from === current)
+        .forEach(edge => {
+          layers.set(edge.to, Math.max(layers.get(edge.to)!, layers.get(current)! + 1));
+          indegree.set(edge.to, indegree.get(edge.to)! - 1);
+          if (indegree.get(edge.to) === 0) queue.push(edge.to);
+        });
+    }
+
+    return layers;
+  }
+
+  private static snap(value: number): number {
+    return Math.round(value / GRID) * GRID;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { listPlanBlocks, parseWorkflowPlan, samplePlanInput } from './workflowPlan';
+
+const rawPlan = {
+  name: '  Route Orders  ',
+  trigger: { kind: 'step', name: 'Webhook', nodeType: 'n8n-nodes-base.webhook', parameters: { path: 'orders' } },
+  blocks: [
+    {
+      kind: 'branch',
+      name: 'Is Large',
+      nodeType: 'n8n-nodes-base.if',
+      parameters: {},
+      expects: [{ name: 'total', type: 'number', required: true }],
+      paths: [
+        { label: 'true', blocks: [{ name: 'Notify', nodeType: 'n8n-nodes-base.slack', parameters: {} }] },
+        { blocks: [] }
+      ],
+      merge: { name: 'Join' }
+    },
+    { kind: 'loop', name: 'Each Line', body: [{ name: 'Save Line', nodeType: 'n8n-nodes-base.httpRequest' }] }
+  ]
+};
+
+describe('parseWorkflowPlan', () => {
+  it('parses branches, merges and loops with defaults filled in', () => {
+    const plan = parseWorkflowPlan(rawPlan);
+
+    expect(plan.name).toBe('Route Orders');
+    expect(listPlanBlocks(plan).map(block => block.name)).toEqual(['Webhook', 'Is Large', 'Notify', 'Each Line', 'Save Line']);
+
+    const branch = plan.blocks[0];
+    expect(branch.kind).toBe('branch');
+    if (branch.kind !== 'branch') return;
+    expect(branch.paths.map(path => path.label)).toEqual(['true', 'Output 1']);
+    expect(branch.merge).toEqual({ name: 'Join', parameters: {} });
+
+    const loop = plan.blocks[1];
+    expect(loop).toMatchObject({ kind: 'loop', batchSize: 1 });
+    if (loop.kind !== 'loop') return;
+    expect(loop.body[0]).toMatchObject({ kind: 'step', nodeType: 'n8n-nodes-base.httpRequest', parameters: {} });
+  });
+
+  it('rejects duplicate node names, including merge names', () => {
+    const duplicate = JSON.parse(JSON.stringify(rawPlan));
+    duplicate.blocks[0].merge.name = 'Notify';
+
+    expect(() => parseWorkflowPlan(duplicate)).toThrow('Plan contains duplicate node name "Notify"');
+  });
+
+  it('names the offending block when it is malformed', () => {
+    expect(() => parseWorkflowPlan(null)).toThrow('Workflow plan must be an object');
+    expect(() => parseWorkflowPlan({ trigger: { name: 'Start' } })).toThrow('Plan trigger ("Start") is missing a nodeType');
+    expect(() => parseWorkflowPlan({ ...rawPlan, blocks: [{ kind: 'parallel', name: 'Fan Out', nodeType: 'x' }] }))
+      .toThrow('Plan blocks[0] has unknown kind "parallel"');
+    expect(() => parseWorkflowPlan({ ...rawPlan, blocks: [{ kind: 'branch', name: 'Split', nodeType: 'n8n-nodes-base.if', paths: [] }] }))
+      .toThrow('Plan branch "Split" must have at least one path');
+    expect(() => parseWorkflowPlan({ ...rawPlan, trigger: { kind: 'loop', name: 'Start' } }))
+      .toThrow('Workflow plan trigger must be a step');
+  });
+});
+
+describe('samplePlanInput', () => {
+  it('builds one sample value per expected field', () => {
+    expect(samplePlanInput(parseWorkflowPlan(rawPlan))).toEqual({ total: 1 });
+    expect(samplePlanInput()).toEqual({});
+  });
+});
@@ -0,0 +1,214 @@
+// Intermediate representation between a user's intent and n8n workflow JSON.
+// Plans are block-structured, so branches, merges and loops are explicit instead
+// of being implied by a connection map. WorkflowPlanCompiler lowers them to N8nWorkflow.
+
+export type PlanDataType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface PlanDataField {
+  name: string;
+  type: PlanDataType;
+  required?: boolean;
+  description?: string;
+}
+
+export interface PlanStep {
+  kind: 'step';
+  name: string;
+  nodeType: string;
+  typeVersion?: number;
+  parameters: Record<string, unknown>;
+  expects?: PlanDataField[];
+}
+
+export interface PlanPath {
+  label: string;
+  blocks: PlanBlock[];
+}
+
+export interface PlanMerge {
+  name: string;
+  parameters?: Record<string, unknown>;
+}
+
+// If/Switch node; path i is wired to output i. Without a merge every path stays open-ended
+export interface PlanBranch {
+  kind: 'branch';
+  name: string;
+  nodeType: string;
+  typeVersion?: number;
+  parameters: Record<string, unknown>;
+  expects?: PlanDataField[];
+  paths: PlanPath[];
+  merge?: PlanMerge;
+}
+
+// Loop Over Items (splitInBatches): the body runs per batch and feeds back into the loop node
+export interface PlanLoop {
+  kind: 'loop';
+  name: string;
+  batchSize: number;
+  expects?: PlanDataField[];
+  body: PlanBlock[];
+}
+
+export type PlanBlock = PlanStep | PlanBranch | PlanLoop;
+
+export interface WorkflowPlan {
+  name: string;
+  trigger: PlanStep;
+  blocks: PlanBlock[];
+}
+
+export const step = (
+  name: string,
+  nodeType: string,
+  parameters: Record<string, unknown> = {},
+  expects?: PlanDataField[]
+): PlanStep => ({ kind: 'step', name, nodeType, parameters, ...(expects ? { expects } : {}) });
+
+// Every named block in the plan, depth-first in declaration order
+export const listPlanBlocks = (plan: WorkflowPlan): Array<PlanStep | PlanBranch | PlanLoop> => {
+  const result: PlanBlock[] = [plan.trigger];
+
+  const visit = (blocks: PlanBlock[]) => {
+    blocks.forEach(block => {
+      result.push(block);
+      if (block.kind === 'branch') {
+        block.paths.forEach(path => visit(path.blocks));
+      } else if (block.kind === 'loop') {
+        visit(block.body);
+      }
+    });
+  };
+
+  visit(plan.blocks);
+  return result;
+};
+
+const SAMPLE_VALUES: Record<PlanDataType, unknown> = {
+  string: 'sample',
+  number: 1,
+  boolean: true,
+  object: {},
+  array: [],
+  any: 'sample'
+};
+
+// A sample input item built from the fields the plan's steps expect, used for previews
+export const samplePlanInput = (plan?: WorkflowPlan): Record<string, unknown> => {
+  const sample: Record<string, unknown> = {};
+  if (!plan) return sample;
+
+  listPlanBlocks(plan).forEach(block => {
+    block.expects?.forEach(field => {
+      if (field.name !== '*' && !(field.name in sample)) {
+        sample[field.name] = SAMPLE_VALUES[field.type] ?? 'sample';
+      }
+    });
+  });
+  return sample;
+};
+
+export const parseWorkflowPlan = (raw: unknown): WorkflowPlan => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Workflow plan must be an object');
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const trigger = parseBlock(candidate.trigger, 'trigger');
+  if (trigger.kind !== 'step') {
+    throw new Error('Workflow plan trigger must be a step');
+  }
+
+  const plan: WorkflowPlan = {
+    name: typeof candidate.name === 'string' && candidate.name.trim() ? candidate.name.trim() : 'Generated Workflow',
+    trigger,
+    blocks: parseBlocks(candidate.blocks, 'blocks')
+  };
+
+  const names = new Set<string>();
+  const claim = (name: string) => {
+    if (names.has(name)) {
+      throw new Error(`Plan contains duplicate node name "${name}"`);
+    }
+    names.add(name);
+  };
+  listPlanBlocks(plan).forEach(block => {
+    claim(block.name);
+    if (block.kind === 'branch' && block.merge) {
+      claim(block.merge.name);
+    }
+  });
+
+  return plan;
+};
+
+const parseBlocks = (raw: unknown, path: string): PlanBlock[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    throw new Error(`Plan ${path} must be an array`);
+  }
+  return raw.map((block, index) => parseBlock(block, `${path}[${index}]`));
+};
+
+const parseBlock = (raw: unknown, path: string): PlanBlock => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Plan ${path} must be an object`);
+  }
+
+  const block = raw as Record<string, unknown>;
+  if (typeof block.name !== 'string' || !block.name.trim()) {
+    throw new Error(`Plan ${path} is missing a name`);
+  }
+
+  const name = block.name.trim();
+  const expects = Array.isArray(block.expects) ? block.expects as PlanDataField[] : undefined;
+  const parameters = block.parameters && typeof block.parameters === 'object'
+    ? block.parameters as Record<string, unknown>
+    : {};
+  const kind = block.kind || 'step';
+
+  if (kind === 'loop') {
+    return {
+      kind: 'loop',
+      name,
+      batchSize: typeof block.batchSize === 'number' ? block.batchSize : 1,
+      expects,
+      body: parseBlocks(block.body, `${path}.body`)
+    };
+  }
+
+  if (typeof block.nodeType !== 'string') {
+    throw new Error(`Plan ${path} ("${name}") is missing a nodeType`);
+  }
+
+  const typeVersion = typeof block.typeVersion === 'number' ? block.typeVersion : undefined;
+
+  if (kind === 'branch') {
+    if (!Array.isArray(block.paths) || block.paths.length === 0) {
+      throw new Error(`Plan branch "${name}" must have at least one path`);
+    }
+    const merge = block.merge as Record<string, unknown> | undefined;
+    return {
+      kind: 'branch',
+      name,
+      nodeType: block.nodeType,
+      typeVersion,
+      parameters,
+      expects,
+      paths: block.paths.map((branchPath: Record<string, unknown>, index: number) => ({
+        label: typeof branchPath?.label === 'string' ? branchPath.label : `Output ${index}`,
+        blocks: parseBlocks(branchPath?.blocks, `${path}.paths[${index}].blocks`)
+      })),
+      merge: merge && typeof merge.name === 'string'
+        ? { name: merge.name, parameters: (merge.parameters as Record<string, unknown>) || {} }
+        : undefined
+    };
+  }
+
+  if (kind !== 'step') {
+    throw new Error(`Plan ${path} has unknown kind "${String(kind)}"`);
+  }
+
+  return { kind: 'step', name, nodeType: block.nodeType, typeVersion, parameters, expects };
+};
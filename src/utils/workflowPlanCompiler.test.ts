@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { step, type WorkflowPlan } from './workflowPlan';
+import { WorkflowPlanCompiler } from './workflowPlanCompiler';
+
+const plan: WorkflowPlan = {
+  name: 'Route Orders',
+  trigger: step('Webhook', 'n8n-nodes-base.webhook', { path: 'orders', httpMethod: 'POST' }),
+  blocks: [
+    {
+      kind: 'branch',
+      name: 'Is Large',
+      nodeType: 'n8n-nodes-base.if',
+      parameters: {},
+      paths: [
+        { label: 'true', blocks: [step('Notify', 'n8n-nodes-base.slack')] },
+        { label: 'false', blocks: [] }
+      ],
+      merge: { name: 'Join' }
+    },
+    { kind: 'loop', name: 'Each Line', batchSize: 10, body: [step('Save Line', 'n8n-nodes-base.httpRequest')] },
+    step('Done', 'n8n-nodes-base.code', { jsCode: 'return $input.all();' })
+  ]
+};
+
+const targetsOf = (workflow: ReturnType<typeof WorkflowPlanCompiler.compile>, name: string) =>
+  (workflow.connections[name]?.main || []).map(targets => targets.map(target => `${target.node}:${target.index}`));
+
+describe('WorkflowPlanCompiler.compile', () => {
+  it('emits one node per block with catalog type versions', () => {
+    const workflow = WorkflowPlanCompiler.compile(plan);
+
+    expect(workflow.name).toBe('Route Orders');
+    expect(workflow.active).toBe(false);
+    expect(workflow.nodes.map(node => [node.name, node.type, node.typeVersion])).toEqual([
+      ['Webhook', 'n8n-nodes-base.webhook', 2],
+      ['Is Large', 'n8n-nodes-base.if', 2],
+      ['Notify', 'n8n-nodes-base.slack', 2],
+      ['Join', 'n8n-nodes-base.merge', 3],
+      ['Each Line', 'n8n-nodes-base.splitInBatches', 3],
+      ['Save Line', 'n8n-nodes-base.httpRequest', 4],
+      ['Done', 'n8n-nodes-base.code', 2]
+    ]);
+    expect(new Set(workflow.nodes.map(node => node.id)).size).toBe(workflow.nodes.length);
+  });
+
+  it('wires branch paths to outputs in order and rejoins them at the merge', () => {
+    const workflow = WorkflowPlanCompiler.compile(plan);
+
+    expect(targetsOf(workflow, 'Webhook')).toEqual([['Is Large:0']]);
+    expect(targetsOf(workflow, 'Is Large')).toEqual([['Notify:0'], ['Join:1']]);
+    expect(targetsOf(workflow, 'Notify')).toEqual([['Join:0']]);
+    expect(workflow.nodes.find(node => node.name === 'Join')?.parameters).toEqual({ mode: 'append' });
+  });
+
+  it('feeds a loop body back into the loop and continues from its done output', () => {
+    const workflow = WorkflowPlanCompiler.compile(plan);
+
+    expect(workflow.nodes.find(node => node.name === 'Each Line')?.parameters).toEqual({ batchSize: 10, options: {} });
+    expect(targetsOf(workflow, 'Join')).toEqual([['Each Line:0']]);
+    expect(targetsOf(workflow, 'Each Line')).toEqual([['Done:0'], ['Save Line:0']]);
+    expect(targetsOf(workflow, 'Save Line')).toEqual([['Each Line:0']]);
+  });
+
+  it('leaves every path open when a branch has no merge', () => {
+    const workflow = WorkflowPlanCompiler.compile({
+      ...plan,
+      blocks: [{ ...plan.blocks[0], merge: undefined } as WorkflowPlan['blocks'][number], step('After', 'n8n-nodes-base.noOp')]
+    });
+
+    expect(targetsOf(workflow, 'Is Large')).toEqual([['Notify:0'], ['After:0']]);
+    expect(targetsOf(workflow, 'Notify')).toEqual([['After:0']]);
+  });
+
+  it('takes each type\'s newest typeVersion from the catalog when given one', () => {
+    const catalog = [
+      { node_type: 'n8n-nodes-base.httpRequest', version: '4', type_versions: [4, 4.1, 4.2] },
+      { node_type: 'n8n-nodes-base.code', version: '2', type_versions: [] }
+    ];
+    const workflow = WorkflowPlanCompiler.compile(plan, { catalog });
+    const typeVersion = (name: string) => workflow.nodes.find(node => node.name === name)?.typeVersion;
+
+    expect(typeVersion('Save Line')).toBe(4.2);
+    expect(typeVersion('Done')).toBe(2);
+    // Types missing from the catalog keep the offline defaults
+    expect(typeVersion('Join')).toBe(3);
+    expect(WorkflowPlanCompiler.getNodeTypeVersion('n8n-nodes-base.unknown', catalog)).toBe(1);
+  });
+
+  it('keeps an explicit typeVersion and copies parameters', () => {
+    const parameters = { values: { string: [] } };
+    const workflow = WorkflowPlanCompiler.compile({
+      ...plan,
+      blocks: [{ kind: 'step', name: 'Old Set', nodeType: 'n8n-nodes-base.set', typeVersion: 2, parameters }]
+    });
+    const node = workflow.nodes.find(entry => entry.name === 'Old Set');
+
+    expect(node?.typeVersion).toBe(2);
+    expect(node?.parameters).toEqual(parameters);
+    expect(node?.parameters).not.toBe(parameters);
+  });
+
+  it('lays nodes out left to right', () => {
+    const workflow = WorkflowPlanCompiler.compile(plan);
+    const x = (name: string) => workflow.nodes.find(node => node.name === name)!.position[0];
+
+    expect(x('Webhook')).toBeLessThan(x('Is Large'));
+    expect(x('Is Large')).toBeLessThan(x('Join'));
+  });
+});
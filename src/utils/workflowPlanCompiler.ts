@@ -0,0 +1,148 @@
+import type { N8nConnection, N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import type { NodeWithParameters } from '@/services/nodeService';
+import type { PlanBlock, PlanStep, WorkflowPlan } from './workflowPlan';
+import { WorkflowLayout } from './workflowLayout';
+
+interface OpenOutput {
+  node: string;
+  output: number;
+}
+
+type CatalogVersions = Pick<NodeWithParameters, 'node_type' | 'version' | 'type_versions'>;
+
+export interface CompileOptions {
+  // Nodes without an explicit typeVersion get their type's newest catalogued one
+  catalog?: CatalogVersions[];
+}
+
+interface CompileState {
+  nodes: N8nNode[];
+  connections: Record<string, N8nConnection>;
+  catalog: CatalogVersions[];
+}
+
+// Used when no catalog is at hand, e.g. for the offline templates whose parameters follow these layouts
+const OFFLINE_TYPE_VERSIONS: Record<string, number> = {
+  'n8n-nodes-base.webhook': 2,
+  'n8n-nodes-base.code': 2,
+  'n8n-nodes-base.set': 3,
+  'n8n-nodes-base.httpRequest': 4,
+  'n8n-nodes-base.if': 2,
+  'n8n-nodes-base.switch': 3,
+  'n8n-nodes-base.merge': 3,
+  'n8n-nodes-base.splitInBatches': 3,
+  'n8n-nodes-base.itemLists': 3,
+  'n8n-nodes-base.slack': 2,
+  'n8n-nodes-base.emailSend': 2,
+  'n8n-nodes-base.cron': 1,
+  'n8n-nodes-base.manualTrigger': 1
+};
+
+export class WorkflowPlanCompiler {
+  private static nodeCounter = 0;
+
+  static compile(plan: WorkflowPlan, options: CompileOptions = {}): N8nWorkflow {
+    const state: CompileState = { nodes: [], connections: {}, catalog: options.catalog || [] };
+
+    this.addStep(state, plan.trigger, []);
+    this.compileBlocks(state, plan.blocks, [{ node: plan.trigger.name, output: 0 }]);
+
+    return WorkflowLayout.apply({
+      name: plan.name,
+      nodes: state.nodes,
+      connections: state.connections,
+      active: false,
+      settings: {}
+    });
+  }
+
+  // The newest typeVersion the catalog lists for the type, else the offline default
+  static getNodeTypeVersion(nodeType: string, catalog: CatalogVersions[] = []): number {
+    const catalogued = catalog
+      .filter(definition => definition.node_type === nodeType)
+      .flatMap(definition => [
+        Number(definition.version),
+        ...(Array.isArray(definition.type_versions) ? definition.type_versions.map(Number) : [])
+      ])
+      .filter(version => Number.isFinite(version));
+
+    return catalogued.length > 0 ? Math.max(...catalogued) : OFFLINE_TYPE_VERSIONS[nodeType] || 1;
+  }
+
+  // Returns the outputs left open after the blocks, which the next block attaches to
+  private static compileBlocks(state: CompileState, blocks: PlanBlock[], open: OpenOutput[]): OpenOutput[] {
+    let current = open;
+
+    for (const block of blocks) {
+      if (block.kind === 'step') {
+        this.addStep(state, block, current);
+        current = [{ node: block.name, output: 0 }];
+        continue;
+      }
+
+      if (block.kind === 'loop') {
+        this.addNode(state, block.name, 'n8n-nodes-base.splitInBatches', undefined, { batchSize: block.batchSize, options: {} });
+        this.connectAll(state, current, block.name, 0);
+
+        // Output 1 is "loop", output 0 is "done"
+        const bodyEnd = this.compileBlocks(state, block.body, [{ node: block.name, output: 1 }]);
+        this.connectAll(state, bodyEnd, block.name, 0);
+
+        current = [{ node: block.name, output: 0 }];
+        continue;
+      }
+
+      this.addNode(state, block.name, block.nodeType, block.typeVersion, block.parameters);
+      this.connectAll(state, current, block.name, 0);
+
+      const pathEnds = block.paths.map((path, index) =>
+        this.compileBlocks(state, path.blocks, [{ node: block.name, output: index }])
+      );
+
+      if (block.merge) {
+        const parameters = { mode: 'append', ...(block.paths.length > 2 ? { numberInputs: block.paths.length } : {}), ...block.merge.parameters };
+        this.addNode(state, block.merge.name, 'n8n-nodes-base.merge', undefined, parameters);
+        pathEnds.forEach((ends, index) => this.connectAll(state, ends, block.merge!.name, index));
+        current = [{ node: block.merge.name, output: 0 }];
+      } else {
+        current = pathEnds.flat();
+      }
+    }
+
+    return current;
+  }
+
+  private static addStep(state: CompileState, planStep: PlanStep, open: OpenOutput[]): void {
+    this.addNode(state, planStep.name, planStep.nodeType, planStep.typeVersion, planStep.parameters);
+    this.connectAll(state, open, planStep.name, 0);
+  }
+
+  // Positions are placeholders until the layout pass runs over the finished graph
+  private static addNode(
+    state: CompileState,
+    name: string,
+    type: string,
+    typeVersion: number | undefined,
+    parameters: Record<string, unknown>
+  ): void {
+    state.nodes.push({
+      id: `${name.replace(/\s+/g, '')}_${++this.nodeCounter}`,
+      name,
+      type,
+      typeVersion: typeVersion ?? this.getNodeTypeVersion(type, state.catalog),
+      position: [0, 0],
+      parameters: JSON.parse(JSON.stringify(parameters))
+    });
+  }
+
+  private static connectAll(state: CompileState, open: OpenOutput[], target: string, inputIndex: number): void {
+    open.forEach(({ node, output }) => {
+      const connection = state.connections[node] || { main: [] };
+      while (connection.main.length <= output) {
+        connection.main.push([]);
+      }
+      connection.main[output].push({ node: target, type: 'main', index: inputIndex });
+      state.connections[node] = connection;
+    });
+  }
+}
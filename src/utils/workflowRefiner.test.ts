@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { WorkflowRefiner } from './workflowRefiner';
+
+const node = (name: string, type: string, parameters: Record<string, unknown> = {}): N8nNode => ({
+  id: name,
+  name,
+  type,
+  typeVersion: 1,
+  position: [0, 0],
+  parameters
+});
+
+const workflow: N8nWorkflow = {
+  name: 'Orders',
+  active: false,
+  settings: {},
+  nodes: [
+    node('Webhook', 'n8n-nodes-base.webhook', { path: 'orders' }),
+    node('Fetch Order', 'n8n-nodes-base.httpRequest', { url: 'https://api.example.com/orders', method: 'GET' })
+  ],
+  connections: { Webhook: { main: [[{ node: 'Fetch Order', type: 'main', index: 0 }]] } }
+};
+
+describe('WorkflowRefiner.isRefinement', () => {
+  it('edits when the message names a node or one of its parameters', () => {
+    expect(WorkflowRefiner.isRefinement('add a slack message after Fetch Order', workflow)).toBe(true);
+    expect(WorkflowRefiner.isRefinement('rename the webhook node to Orders In', workflow)).toBe(true);
+    expect(WorkflowRefiner.isRefinement('set url of fetch to "https://api.example.com/v2"', workflow)).toBe(true);
+  });
+
+  it('starts over for requests that only share a verb', () => {
+    expect(WorkflowRefiner.isRefinement('send an email when a form is submitted', workflow)).toBe(false);
+    expect(WorkflowRefiner.isRefinement('post new blog entries to twitter', workflow)).toBe(false);
+    expect(WorkflowRefiner.isRefinement('update the spreadsheet every morning', workflow)).toBe(false);
+  });
+});
+
+describe('WorkflowRefiner.refine', () => {
+  it('sets nested parameters on the named node', () => {
+    const { workflow: refined } = WorkflowRefiner.refine('set options.timeout of Fetch Order to 5000', workflow);
+
+    expect(refined.nodes[1].parameters.options).toEqual({ timeout: 5000 });
+  });
+
+  it('never writes through prototype paths', () => {
+    const { edits } = WorkflowRefiner.refine('set __proto__.polluted of Fetch Order to true', workflow);
+
+    expect(edits).toEqual([]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(() => WorkflowRefiner.applyEdits(workflow, [{ kind: 'setParameter', node: 'Fetch Order', parameter: 'options.constructor.prototype', value: 1 }]))
+      .toThrow('Cannot set parameter "options.constructor.prototype"');
+  });
+
+  it('keeps a node inserted before a false-branch node on the false branch', () => {
+    const branching: N8nWorkflow = {
+      ...workflow,
+      nodes: [...workflow.nodes, node('Is Paid', 'n8n-nodes-base.if'), node('Paid', 'n8n-nodes-base.noOp'), node('Unpaid', 'n8n-nodes-base.noOp')],
+      connections: {
+        ...workflow.connections,
+        'Fetch Order': { main: [[{ node: 'Is Paid', type: 'main', index: 0 }]] },
+        'Is Paid': { main: [[{ node: 'Paid', type: 'main', index: 0 }], [{ node: 'Unpaid', type: 'main', index: 0 }]] }
+      }
+    };
+
+    const { workflow: refined } = WorkflowRefiner.refine('add a slack message before Unpaid', branching);
+
+    expect(refined.connections['Is Paid'].main).toEqual([
+      [{ node: 'Paid', type: 'main', index: 0 }],
+      [{ node: 'Send Slack Message', type: 'main', index: 0 }]
+    ]);
+    expect(refined.connections['Send Slack Message'].main).toEqual([[{ node: 'Unpaid', type: 'main', index: 0 }]]);
+  });
+
+  it('puts a node added at the start in front of every child of the trigger', () => {
+    const fanOut: N8nWorkflow = {
+      ...workflow,
+      nodes: [...workflow.nodes, node('Audit', 'n8n-nodes-base.noOp')],
+      connections: {
+        Webhook: { main: [[{ node: 'Fetch Order', type: 'main', index: 0 }, { node: 'Audit', type: 'main', index: 0 }]] }
+      }
+    };
+
+    const { workflow: refined } = WorkflowRefiner.refine('add a code step at the start', fanOut);
+
+    expect(refined.connections.Webhook.main).toEqual([[{ node: 'Process Data', type: 'main', index: 0 }]]);
+    expect(refined.connections['Process Data'].main[0].map(target => target.node)).toEqual(['Fetch Order', 'Audit']);
+  });
+});
@@ -0,0 +1,461 @@
+import type { N8nNode, N8nWorkflow } from '@/data/n8nNodeReference';
+import { WorkflowPlanCompiler } from './workflowPlanCompiler';
+import { WorkflowLayout } from './workflowLayout';
+
+export type WorkflowEdit =
+  | { kind: 'addNode'; name: string; nodeType: string; parameters: Record<string, unknown>; after: string[]; before?: string[] }
+  | { kind: 'removeNode'; name: string }
+  | { kind: 'renameNode'; from: string; to: string }
+  | { kind: 'connect'; from: string; to: string; output: number }
+  | { kind: 'disconnect'; from: string; to: string }
+  | { kind: 'setParameter'; node: string; parameter: string; value: unknown };
+
+export interface RefinementResult {
+  workflow: N8nWorkflow;
+  edits: WorkflowEdit[];
+  summary: string[];
+}
+
+interface NodeTemplate {
+  keywords: RegExp;
+  name: string;
+  nodeType: string;
+  parameters: (message: string) => Record<string, unknown>;
+}
+
+// Node shapes a follow-up message can ask for, checked in order
+const NODE_TEMPLATES: NodeTemplate[] = [
+  {
+    keywords: /slack/i,
+    name: 'Send Slack Message',
+    nodeType: 'n8n-nodes-base.slack',
+    parameters: message => ({
+      resource: 'message',
+      operation: 'post',
+      select: 'channel',
+      channelId: message.match(/#([\w-]+)/)?.[0] || '#general',
+      text: '={{ JSON.stringify($json) }}'
+    })
+  },
+  {
+    keywords: /e-?mail/i,
+    name: 'Send Email',
+    nodeType: 'n8n-nodes-base.emailSend',
+    parameters: message => ({
+      toEmail: message.match(/[\w.+-]+@[\w-]+\.[\w.]+/)?.[0] || 'team@example.com',
+      subject: 'Workflow notification',
+      text: '={{ JSON.stringify($json) }}'
+    })
+  },
+  {
+    keywords: /\b(http|api|request|call|post to|fetch)\b/i,
+    name: 'HTTP Request',
+    nodeType: 'n8n-nodes-base.httpRequest',
+    parameters: message => ({
+      url: message.match(/https?:\/\/\S+/)?.[0] || 'https://api.example.com/data',
+      method: /\bpost\b/i.test(message) ? 'POST' : 'GET',
+      authentication: 'none'
+    })
+  },
+  {
+    keywords: /\b(if|condition|check|filter)\b/i,
+    name: 'Check Condition',
+    nodeType: 'n8n-nodes-base.if',
+    parameters: () => ({
+      conditions: {
+        options: {
+          caseSensitive: true,
+          leftValue: '={{ $json.status }}',
+          operation: 'equal',
+          rightValue: 'active'
+        }
+      }
+    })
+  },
+  {
+    keywords: /\b(code|script|javascript|transform)\b/i,
+    name: 'Process Data',
+    nodeType: 'n8n-nodes-base.code',
+    parameters: () => ({
+      mode: 'runOnceForAllItems',
+      jsCode: '// Add your custom processing logic here\nfor (const item of $input.all()) {\n  item.json.processed = true;\n}\n\nreturn $input.all();'
+    })
+  },
+  {
+    keywords: /\b(set|field|format|response)\b/i,
+    name: 'Edit Fields',
+    nodeType: 'n8n-nodes-base.set',
+    parameters: message => ({
+      fields: {
+        values: [
+          {
+            name: message.match(/field\s+["']?(\w+)/i)?.[1] || 'status',
+            type: 'stringValue',
+            stringValue: 'done'
+          }
+        ]
+      }
+    })
+  }
+];
+
+const EDIT_VERBS = /^(?:(?:also|then|and|now|please|can you|could you)\s+)*(add|send|post|notify|append|insert|remove|delete|drop|rename|connect|disconnect|rewire|change|set|update)\b/i;
+
+// Path segments that would reach Object.prototype instead of the node's parameters
+const FORBIDDEN_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class WorkflowRefiner {
+  // The verbs also start new requests ("send an email when a form is submitted"), so a message
+  // only edits the workflow when one of its instructions names a node or parameter it already has
+  static isRefinement(message: string, workflow?: N8nWorkflow | null): boolean {
+    if (!workflow?.nodes?.length) return false;
+    if (/\b(new workflow|start over|from scratch)\b/i.test(message)) return false;
+    if (!EDIT_VERBS.test(message.trim())) return false;
+
+    return this.splitClauses(message).some(clause => {
+      const edit = this.interpretClause(clause, workflow);
+      return edit !== null && (this.mentionsNode(clause, workflow) || this.setsExistingParameter(edit, workflow));
+    });
+  }
+
+  static refine(message: string, workflow: N8nWorkflow): RefinementResult {
+    const edits: WorkflowEdit[] = [];
+    const summary: string[] = [];
+    let current = workflow;
+
+    // Each clause is read against the result of the previous one, so "add X. set url of X to ..." works
+    for (const clause of this.splitClauses(message)) {
+      const edit = this.interpretClause(clause, current);
+      if (!edit) continue;
+
+      const applied = this.applyEdits(current, [edit]);
+      current = applied.workflow;
+      edits.push(edit);
+      summary.push(...applied.summary);
+    }
+
+    return { workflow: WorkflowLayout.apply(current), edits, summary };
+  }
+
+  static interpret(message: string, workflow: N8nWorkflow): WorkflowEdit[] {
+    return this.refine(message, workflow).edits;
+  }
+
+  // A message can carry several instructions: "add X and then rename Y to Z"
+  private static splitClauses(message: string): string[] {
+    return message
+      .split(/\s*(?:[.;]\s+|,?\s+and then\s+|,?\s+and also\s+)\s*/i)
+      .map(clause => clause.replace(/^(?:(?:also|then|and|now|please|can you|could you)\s+)+/i, '').replace(/[.!]$/, '').trim())
+      .filter(Boolean);
+  }
+
+  private static interpretClause(clause: string, workflow: N8nWorkflow): WorkflowEdit | null {
+    let match = clause.match(/^rename\s+(?:the\s+)?(.+?)\s+(?:node\s+)?to\s+["']?(.+?)["']?$/i);
+    if (match) {
+      const node = this.findNode(workflow, match[1]);
+      return node ? { kind: 'renameNode', from: node.name, to: match[2] } : null;
+    }
+
+    match = clause.match(/^(?:remove|delete|drop)\s+(?:the\s+)?(.+?)(?:\s+node)?(?:\s+step)?$/i);
+    if (match) {
+      const node = this.findNode(workflow, match[1]);
+      return node ? { kind: 'removeNode', name: node.name } : null;
+    }
+
+    match = clause.match(/^disconnect\s+(.+?)\s+from\s+(.+)$/i);
+    if (match) {
+      const from = this.findNode(workflow, match[2]);
+      const to = this.findNode(workflow, match[1]);
+      return from && to ? { kind: 'disconnect', from: from.name, to: to.name } : null;
+    }
+
+    match = clause.match(/^(?:connect|rewire)\s+(.+?)\s+(?:to|into)\s+(.+?)(?:\s+on\s+(?:the\s+)?(true|false|output\s+\d+)(?:\s+(?:branch|output))?)?$/i);
+    if (match) {
+      const from = this.findNode(workflow, match[1]);
+      const to = this.findNode(workflow, match[2]);
+      return from && to ? { kind: 'connect', from: from.name, to: to.name, output: this.parseOutput(match[3]) } : null;
+    }
+
+    match = clause.match(/^(?:set|change|update)\s+(?:the\s+)?([\w.]+)\s+(?:of|on|in|for)\s+(?:the\s+)?(.+?)\s+to\s+(.+)$/i);
+    if (match) {
+      const node = this.findNode(workflow, match[2]);
+      if (!node || !this.isSafeParameterPath(match[1])) return null;
+      return { kind: 'setParameter', node: node.name, parameter: match[1], value: this.parseValue(match[3]) };
+    }
+
+    match = clause.match(/^(?:add|send|post|notify|append|insert)\b(.*)$/i);
+    if (match) {
+      return this.interpretAddition(clause, workflow);
+    }
+
+    return null;
+  }
+
+  private static interpretAddition(clause: string, workflow: N8nWorkflow): WorkflowEdit | null {
+    const template = NODE_TEMPLATES.find(candidate => candidate.keywords.test(clause));
+    if (!template) return null;
+
+    const name = this.uniqueName(workflow, template.name);
+    const base = { kind: 'addNode' as const, name, nodeType: template.nodeType, parameters: template.parameters(clause) };
+
+    const before = clause.match(/\bbefore\s+(?:the\s+)?(.+?)(?:\s+node)?$/i);
+    if (before) {
+      const target = this.findNode(workflow, before[1]);
+      if (target) {
+        return { ...base, after: this.parentsOf(workflow, target.name), before: [target.name] };
+      }
+    }
+
+    const after = clause.match(/\bafter\s+(?:the\s+)?(.+?)(?:\s+node)?$/i);
+    if (after) {
+      const target = this.findNode(workflow, after[1]);
+      if (target) {
+        return { ...base, after: [target.name] };
+      }
+    }
+
+    if (/\b(at the (start|beginning)|first)\b/i.test(clause)) {
+      const trigger = workflow.nodes.find(node => this.parentsOf(workflow, node.name).length === 0);
+      const children = trigger ? this.childrenOf(workflow, trigger.name) : [];
+      return { ...base, after: trigger ? [trigger.name] : [], before: children.length > 0 ? children : undefined };
+    }
+
+    // Default: append after every node that has nothing downstream
+    return { ...base, after: this.leafNames(workflow) };
+  }
+
+  static applyEdits(workflow: N8nWorkflow, edits: WorkflowEdit[]): { workflow: N8nWorkflow; summary: string[] } {
+    const result: N8nWorkflow = JSON.parse(JSON.stringify(workflow));
+    result.connections = result.connections || {};
+    const summary: string[] = [];
+
+    for (const edit of edits) {
+      switch (edit.kind) {
+        case 'addNode': {
+          const node: N8nNode = {
+            id: `${edit.name.replace(/\s+/g, '')}_${Date.now()}`,
+            name: edit.name,
+            type: edit.nodeType,
+            typeVersion: WorkflowPlanCompiler.getNodeTypeVersion(edit.nodeType),
+            position: [0, 0],
+            parameters: edit.parameters
+          };
+          result.nodes.push(node);
+
+          // Each parent feeds the new node from the output it fed the target from, so a node on
+          // an If's false branch stays on it
+          const rewired = new Set<string>();
+          (edit.before || []).forEach(target => {
+            this.incomingOf(result, target)
+              .filter(({ from }) => edit.after.includes(from))
+              .forEach(({ from, output }) => {
+                this.removeConnection(result, from, target);
+                this.addConnection(result, from, edit.name, output);
+                rewired.add(from);
+              });
+            this.addConnection(result, edit.name, target, 0);
+          });
+          edit.after
+            .filter(parent => !rewired.has(parent))
+            .forEach(parent => this.addConnection(result, parent, edit.name, 0));
+
+          const placement = edit.before?.length
+            ? `before ${edit.before.map(name => `"${name}"`).join(', ')}`
+            : edit.after.length > 0 ? `after ${edit.after.map(name => `"${name}"`).join(', ')}` : 'unconnected';
+          summary.push(`Added "${edit.name}" (${edit.nodeType.split('.').pop()}) ${placement}`);
+          break;
+        }
+
+        case 'removeNode': {
+          const parents = this.incomingOf(result, edit.name);
+          const children = this.childrenOf(result, edit.name);
+
+          // Splice the node out so the flow stays connected around it
+          delete result.connections[edit.name];
+          parents.forEach(({ from }) => this.removeConnection(result, from, edit.name));
+          parents.forEach(({ from, output }) => children.forEach(child => this.addConnection(result, from, child, output)));
+          result.nodes = result.nodes.filter(node => node.name !== edit.name);
+
+          summary.push(`Removed "${edit.name}"${parents.length && children.length ? ' and reconnected its neighbors' : ''}`);
+          break;
+        }
+
+        case 'renameNode': {
+          const node = result.nodes.find(candidate => candidate.name === edit.from);
+          if (!node) break;
+          node.name = this.uniqueName(result, edit.to);
+
+          if (result.connections[edit.from]) {
+            result.connections[node.name] = result.connections[edit.from];
+            delete result.connections[edit.from];
+          }
+          Object.values(result.connections).forEach(connection => {
+            connection.main?.forEach(outputs => outputs.forEach(target => {
+              if (target.node === edit.from) target.node = node.name;
+            }));
+          });
+
+          // Keep expressions such as $node["Old"] and $('Old') pointing at the renamed node
+          result.nodes.forEach(candidate => {
+            candidate.parameters = this.renameReferences(candidate.parameters, edit.from, node.name);
+          });
+
+          summary.push(`Renamed "${edit.from}" to "${node.name}"`);
+          break;
+        }
+
+        case 'connect': {
+          this.addConnection(result, edit.from, edit.to, edit.output);
+          summary.push(`Connected "${edit.from}"${edit.output ? ` (output ${edit.output})` : ''} to "${edit.to}"`);
+          break;
+        }
+
+        case 'disconnect': {
+          this.removeConnection(result, edit.from, edit.to);
+          summary.push(`Disconnected "${edit.to}" from "${edit.from}"`);
+          break;
+        }
+
+        case 'setParameter': {
+          const node = result.nodes.find(candidate => candidate.name === edit.node);
+          if (!node) break;
+          if (!this.isSafeParameterPath(edit.parameter)) {
+            throw new Error(`Cannot set parameter "${edit.parameter}": ${FORBIDDEN_PATH_SEGMENTS.join(', ')} are not parameter names`);
+          }
+          node.parameters = node.parameters || {};
+
+          const path = edit.parameter.split('.');
+          let target = node.parameters;
+          path.slice(0, -1).forEach(key => {
+            target[key] = target[key] && typeof target[key] === 'object' ? target[key] : {};
+            target = target[key];
+          });
+          target[path[path.length - 1]] = edit.value;
+
+          summary.push(`Set ${edit.parameter} on "${edit.node}" to ${JSON.stringify(edit.value)}`);
+          break;
+        }
+      }
+    }
+
+    return { workflow: result, summary };
+  }
+
+  private static addConnection(workflow: N8nWorkflow, from: string, to: string, output: number): void {
+    const connection = workflow.connections[from] || { main: [] };
+    while (connection.main.length <= output) {
+      connection.main.push([]);
+    }
+    if (!connection.main[output].some(target => target.node === to)) {
+      connection.main[output].push({ node: to, type: 'main', index: 0 });
+    }
+    workflow.connections[from] = connection;
+  }
+
+  private static removeConnection(workflow: N8nWorkflow, from: string, to: string): void {
+    const connection = workflow.connections[from];
+    if (!connection) return;
+    connection.main = connection.main.map(outputs => outputs.filter(target => target.node !== to));
+  }
+
+  private static incomingOf(workflow: N8nWorkflow, name: string): Array<{ from: string; output: number }> {
+    const incoming: Array<{ from: string; output: number }> = [];
+    Object.entries(workflow.connections || {}).forEach(([from, connection]) => {
+      connection.main?.forEach((outputs, output) => {
+        if (outputs.some(target => target.node === name)) {
+          incoming.push({ from, output });
+        }
+      });
+    });
+    return incoming;
+  }
+
+  private static parentsOf(workflow: N8nWorkflow, name: string): string[] {
+    return this.incomingOf(workflow, name).map(({ from }) => from);
+  }
+
+  private static childrenOf(workflow: N8nWorkflow, name: string): string[] {
+    return (workflow.connections?.[name]?.main || []).flat().map(target => target.node);
+  }
+
+  private static leafNames(workflow: N8nWorkflow): string[] {
+    return workflow.nodes
+      .filter(node => this.childrenOf(workflow, node.name).length === 0)
+      .map(node => node.name);
+  }
+
+  private static isSafeParameterPath(path: string): boolean {
+    return path.split('.').every(segment => segment.length > 0 && !FORBIDDEN_PATH_SEGMENTS.includes(segment));
+  }
+
+  // A node's full name as its own words, or its type as in "the slack node"
+  private static mentionsNode(clause: string, workflow: N8nWorkflow): boolean {
+    return workflow.nodes.some(node => {
+      const typeName = node.type.split('.').pop() || '';
+      return new RegExp(`(^|\\W)${escapeRegExp(node.name)}($|\\W)`, 'i').test(clause)
+        || new RegExp(`\\b${escapeRegExp(typeName)}\\s+node\\b`, 'i').test(clause);
+    });
+  }
+
+  private static setsExistingParameter(edit: WorkflowEdit, workflow: N8nWorkflow): boolean {
+    if (edit.kind !== 'setParameter') return false;
+    const parameters = workflow.nodes.find(node => node.name === edit.node)?.parameters || {};
+    return Object.prototype.hasOwnProperty.call(parameters, edit.parameter.split('.')[0]);
+  }
+
+  // Exact name first, then case-insensitive, then the closest partial match
+  private static findNode(workflow: N8nWorkflow, reference: string): N8nNode | undefined {
+    const cleaned = reference.trim().replace(/^["']|["']$/g, '');
+    const lower = cleaned.toLowerCase();
+    return workflow.nodes.find(node => node.name === cleaned)
+      || workflow.nodes.find(node => node.name.toLowerCase() === lower)
+      || workflow.nodes.find(node => node.name.toLowerCase().includes(lower))
+      || workflow.nodes.find(node => lower.includes(node.name.toLowerCase()))
+      || workflow.nodes.find(node => node.type.split('.').pop()?.toLowerCase() === lower.replace(/\s+/g, ''));
+  }
+
+  private static uniqueName(workflow: N8nWorkflow, name: string): string {
+    const taken = new Set(workflow.nodes.map(node => node.name));
+    if (!taken.has(name)) return name;
+    let suffix = 1;
+    while (taken.has(`${name} ${suffix}`)) suffix++;
+    return `${name} ${suffix}`;
+  }
+
+  private static parseOutput(label?: string): number {
+    if (!label) return 0;
+    if (/true/i.test(label)) return 0;
+    if (/false/i.test(label)) return 1;
+    return Number(label.match(/\d+/)?.[0] || 0);
+  }
+
+  private static parseValue(raw: string): unknown {
+    const trimmed = raw.trim();
+    if (/^["'].*["']$/.test(trimmed)) return trimmed.slice(1, -1);
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+
+  private static renameReferences<T>(value: T, from: string, to: string): T {
+    if (typeof value === 'string') {
+      const escaped = escapeRegExp(from);
+      return value
+        .replace(new RegExp(`\\$node\\[(["'])${escaped}\\1\\]`, 'g'), `$node[$1${to}$1]`)
+        .replace(new RegExp(`\\$\\((["'])${escaped}\\1\\)`, 'g'), `$($1${to}$1)`) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(entry => this.renameReferences(entry, from, to)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, this.renameReferences(entry, from, to)])
+      ) as T;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,96 @@
+// Asks the configured OpenAI-compatible model for a workflow plan. The API key only lives in
+// the function's secrets (LLM_API_URL, LLM_API_KEY, LLM_MODEL); the client sends the request
+// description and its catalog summary, and gets the model's JSON back unchecked. Only signed-in
+// users may call it, since every call is billed to the configured key.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse as json } from '../_shared/cors.ts';
+
+const MAX_DESCRIPTION_LENGTH = 4000;
+const MAX_CATALOG_LENGTH = 60000;
+
+const SYSTEM_PROMPT = `You design n8n workflows as block-structured plans. Reply with a single JSON object and nothing else.
+Shape: {"name": string, "trigger": Step, "blocks": Block[]}
+Step: {"kind": "step", "name": string, "nodeType": string, "parameters": object, "expects": [{"name": string, "type": "string"|"number"|"boolean"|"object"|"array", "required": boolean}]}
+Branch: {"kind": "branch", "name": string, "nodeType": "n8n-nodes-base.if" | "n8n-nodes-base.switch", "parameters": object, "paths": [{"label": string, "blocks": Block[]}], "merge": {"name": string}}
+Loop: {"kind": "loop", "name": string, "batchSize": number, "body": Block[]}
+Rules:
+- Use only node types from the catalog below.
+- The trigger must be a trigger node (webhook, manual trigger or schedule).
+- Node names must be unique and descriptive.
+- Branch path i is wired to output i: "true" then "false" for If, one path per rule for Switch. Omit "merge" when paths do not rejoin.
+- Use n8n expressions such as "={{ $json.field }}" to reference incoming data.`;
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const auth = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await auth.auth.getUser();
+  if (!user) {
+    return json({ error: 'Sign in to generate workflow plans' }, 401);
+  }
+
+  const baseUrl = Deno.env.get('LLM_API_URL');
+  const model = Deno.env.get('LLM_MODEL');
+  if (!baseUrl || !model) {
+    return json({ error: 'No plan model is configured' }, 503);
+  }
+
+  let description: unknown;
+  let catalog: unknown;
+  try {
+    ({ description, catalog } = await req.json());
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+  if (typeof description !== 'string' || !description.trim() || description.length > MAX_DESCRIPTION_LENGTH) {
+    return json({ error: `Description must be 1-${MAX_DESCRIPTION_LENGTH} characters` }, 400);
+  }
+  if (typeof catalog !== 'string') {
+    return json({ error: 'Catalog must be a string' }, 400);
+  }
+  if (catalog.length > MAX_CATALOG_LENGTH) {
+    return json({ error: `Catalog must be at most ${MAX_CATALOG_LENGTH} characters` }, 400);
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const apiKey = Deno.env.get('LLM_API_KEY');
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: `${SYSTEM_PROMPT}\n\nCatalog:\n${catalog}` },
+        { role: 'user', content: description }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    console.error('Plan model request failed:', response.status, await response.text());
+    return json({ error: `Plan model request failed with status ${response.status}` }, 502);
+  }
+
+  const body = await response.json();
+  const content = body?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    return json({ error: 'Plan model returned no message content' }, 502);
+  }
+
+  try {
+    return json({ plan: JSON.parse(content) });
+  } catch {
+    return json({ error: 'Plan model returned invalid JSON' }, 502);
+  }
+});
@@ -0,0 +1,200 @@
+// Forwards n8n public API calls for the signed-in user. Browsers cannot call n8n themselves
+// (most instances do not send CORS headers), and the API key only lives encrypted in Vault,
+// where the service role reads it through get_n8n_connection.
+//   { action: 'connect', baseUrl, apiKey }          tests the key against n8n, then stores it
+//   { action: 'request', method, path, query, body } replies { status, body } from n8n
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse as json } from '../_shared/cors.ts';
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Only the calls the app makes; anything else is refused before it reaches n8n
+const ALLOWED_ROUTES: Array<[string, RegExp]> = [
+  ['GET', /^\/workflows$/],
+  ['POST', /^\/workflows$/],
+  ['GET', /^\/workflows\/[\w-]+$/],
+  ['PUT', /^\/workflows\/[\w-]+$/],
+  ['POST', /^\/workflows\/[\w-]+\/(activate|deactivate)$/],
+  ['GET', /^\/executions$/],
+  ['GET', /^\/executions\/[\w-]+$/]
+];
+
+// The function must not become a way into the project's own network
+const PRIVATE_HOST = /^(localhost|.*\.localhost|.*\.internal|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.|0\.|\[::1?\]|\[f[cd])/i;
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+
+const checkBaseUrl = (baseUrl: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return 'Instance URL is not a valid URL';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'Instance URL must use http or https';
+  }
+  if (PRIVATE_HOST.test(url.hostname)) {
+    return 'Instance URL must be reachable from the internet';
+  }
+  return null;
+};
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT and unspecified addresses
+const isPrivateAddress = (address: string): boolean => {
+  const lower = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (lower.includes(':')) {
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+  }
+  const [a, b] = lower.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127);
+};
+
+// The hostname check alone lets through names that resolve to internal addresses
+const assertPublicHost = async (hostname: string): Promise<void> => {
+  const bare = hostname.replace(/^\[|\]$/g, '');
+  const isLiteral = /^\d+\.\d+\.\d+\.\d+$/.test(bare) || bare.includes(':');
+  const addresses = isLiteral
+    ? [bare]
+    : (await Promise.all((['A', 'AAAA'] as const).map(type => Deno.resolveDns(bare, type).catch(() => [] as string[])))).flat();
+
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} does not resolve`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${hostname} resolves to a private address`);
+  }
+};
+
+const callN8n = async (
+  baseUrl: string,
+  apiKey: string,
+  method: string,
+  path: string,
+  query: Record<string, unknown> = {},
+  body?: unknown
+) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) params.set(key, String(value));
+  });
+  const search = params.toString();
+
+  await assertPublicHost(new URL(baseUrl).hostname);
+  const response = await fetch(`${baseUrl}/api/v1${path}${search ? `?${search}` : ''}`, {
+    method,
+    headers: {
+      'Accept': 'application/json',
+      'X-N8N-API-KEY': apiKey,
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    // A redirect could point anywhere, including hosts assertPublicHost would refuse
+    redirect: 'manual'
+  });
+
+  if (response.status >= 300 && response.status < 400) {
+    throw new Error(`n8n answered with a redirect to ${response.headers.get('Location') || 'another URL'}; use the instance's final URL`);
+  }
+
+  const text = await response.text();
+  try {
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  } catch {
+    return { status: response.status, body: null };
+  }
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const auth = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+  });
+  const { data: { user } } = await auth.auth.getUser();
+  if (!user) {
+    return json({ error: 'Sign in to use your n8n connection' }, 401);
+  }
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  if (payload.action === 'connect') {
+    const baseUrl = normalizeBaseUrl(String(payload.baseUrl || ''));
+    const apiKey = String(payload.apiKey || '').trim();
+    const invalid = checkBaseUrl(baseUrl) || (apiKey ? null : 'API key is required');
+    if (invalid) {
+      return json({ error: invalid }, 400);
+    }
+    try {
+      await assertPublicHost(new URL(baseUrl).hostname);
+    } catch (error) {
+      return json({ error: `Instance URL must be reachable from the internet: ${(error as Error).message}` }, 400);
+    }
+
+    // The connection is only stored once n8n has accepted the key
+    let test;
+    try {
+      test = await callN8n(baseUrl, apiKey, 'GET', '/workflows', { limit: 1 });
+    } catch (error) {
+      return json({ error: `Could not reach n8n at ${baseUrl}: ${(error as Error).message}` }, 502);
+    }
+    if (test.status === 401) {
+      return json({ error: 'n8n rejected the API key' }, 400);
+    }
+    if (test.status < 200 || test.status >= 300) {
+      return json({ error: `n8n answered the connection test with status ${test.status}` }, 502);
+    }
+
+    const { data, error } = await admin.rpc('save_n8n_instance', { p_user_id: user.id, p_base_url: baseUrl, p_api_key: apiKey });
+    if (error) {
+      console.error('Error saving n8n instance:', error);
+      return json({ error: 'Failed to save n8n connection' }, 500);
+    }
+
+    const { id, base_url, created_at, updated_at } = data;
+    return json({ instance: { id, base_url, created_at, updated_at } });
+  }
+
+  if (payload.action === 'request') {
+    const method = String(payload.method || '').toUpperCase();
+    const path = String(payload.path || '');
+    if (!ALLOWED_ROUTES.some(([allowedMethod, route]) => allowedMethod === method && route.test(path))) {
+      return json({ error: `${method} ${path} is not available through the proxy` }, 403);
+    }
+
+    const { data, error } = await admin.rpc('get_n8n_connection', { p_user_id: user.id });
+    if (error) {
+      console.error('Error reading n8n connection:', error);
+      return json({ error: 'Failed to load n8n connection' }, 500);
+    }
+    const connection = data?.[0];
+    if (!connection) {
+      return json({ error: 'No n8n instance is connected' }, 404);
+    }
+
+    try {
+      return json(await callN8n(connection.base_url, connection.api_key, method, path, payload.query as Record<string, unknown>, payload.body));
+    } catch (error) {
+      return json({ error: `Could not reach n8n at ${connection.base_url}: ${(error as Error).message}` }, 502);
+    }
+  }
+
+  return json({ error: 'Unknown action' }, 400);
+});
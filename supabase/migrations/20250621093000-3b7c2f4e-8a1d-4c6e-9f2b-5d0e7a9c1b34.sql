@@ -0,0 +1,51 @@
+-- Create workflow version source type
+CREATE TYPE workflow_version_source AS ENUM ('prompt', 'manual', 'auto_fix');
+
+-- Create workflow_versions table: one immutable snapshot per save, refinement or auto-fix
+CREATE TABLE public.workflow_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  workflow_id uuid NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  n8n_json jsonb NOT NULL DEFAULT '{}',
+  source workflow_version_source NOT NULL,
+  summary text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  UNIQUE (workflow_id, version_number)
+);
+
+CREATE INDEX workflow_versions_workflow_id_idx ON public.workflow_versions (workflow_id, version_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.workflow_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for workflow_versions (no update or delete: versions are immutable)
+CREATE POLICY "Users can view versions of their own workflows" ON public.workflow_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.workflows WHERE workflows.id = workflow_id AND workflows.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create versions of their own workflows" ON public.workflow_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.workflows WHERE workflows.id = workflow_id AND workflows.user_id = auth.uid())
+  );
+
+-- Create function to reject changes to stored versions
+CREATE OR REPLACE FUNCTION public.prevent_workflow_version_update()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Workflow versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger to keep versions immutable, even for the service role
+CREATE TRIGGER workflow_versions_immutable
+  BEFORE UPDATE ON public.workflow_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_workflow_version_update();
+
+-- Backfill a first version for workflows saved before versioning existed
+INSERT INTO public.workflow_versions (workflow_id, user_id, version_number, n8n_json, source, summary, created_at)
+SELECT id, user_id, 1, COALESCE(n8n_json, '{}'), 'manual', 'Initial version', created_at
+FROM public.workflows;
@@ -0,0 +1,34 @@
+-- Create n8n_instances table: the n8n server each user deploys to
+CREATE TABLE public.n8n_instances (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  base_url text NOT NULL,
+  api_key text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Track which n8n workflow a stored workflow was pushed to
+ALTER TABLE public.workflows ADD COLUMN n8n_workflow_id text;
+
+-- Enable Row Level Security
+ALTER TABLE public.n8n_instances ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for n8n_instances (API keys are only ever visible to their owner)
+CREATE POLICY "Users can view their own n8n instance" ON public.n8n_instances
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own n8n instance" ON public.n8n_instances
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own n8n instance" ON public.n8n_instances
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own n8n instance" ON public.n8n_instances
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create trigger to update n8n instance timestamp
+CREATE TRIGGER update_n8n_instances_updated_at
+  BEFORE UPDATE ON public.n8n_instances
+  FOR EACH ROW EXECUTE FUNCTION public.update_conversation_updated_at();
@@ -0,0 +1,19 @@
+-- Count how often a template is used. Runs as the table owner so any signed-in user can bump
+-- a public template without being allowed to update the rest of its row.
+CREATE OR REPLACE FUNCTION public.increment_template_usage(template_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.workflow_templates
+  SET usage_count = usage_count + 1
+  WHERE id = template_id AND (is_public = true OR user_id = auth.uid())
+  RETURNING usage_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.increment_template_usage(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.increment_template_usage(uuid) TO authenticated;
+
+-- The gallery lists templates by popularity
+CREATE INDEX workflow_templates_usage_count_idx ON public.workflow_templates (usage_count DESC);
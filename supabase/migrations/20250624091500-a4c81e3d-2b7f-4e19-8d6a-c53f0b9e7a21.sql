@@ -0,0 +1,6 @@
+-- Typed fill-in variables for templates: [{ name, type, label, description, default, required }].
+-- Each one is referenced as {{name}} anywhere in n8n_workflow and substituted when the template is used.
+ALTER TABLE public.workflow_templates ADD COLUMN variables jsonb NOT NULL DEFAULT '[]';
+
+ALTER TABLE public.workflow_templates ADD CONSTRAINT workflow_templates_variables_is_array
+  CHECK (jsonb_typeof(variables) = 'array');
@@ -0,0 +1,12 @@
+-- Catalog data read from n8n's INodeTypeDescription JSON: every known typeVersion of a node and
+-- the credentials it accepts
+ALTER TABLE public.node_definitions ADD COLUMN type_versions jsonb NOT NULL DEFAULT '[]';
+ALTER TABLE public.node_definitions ADD COLUMN credentials jsonb NOT NULL DEFAULT '[]';
+
+-- Parameters keep their label, their displayOptions ({ show, hide } conditions on other
+-- parameters) and the order n8n lists them in
+ALTER TABLE public.node_parameters ADD COLUMN display_name text;
+ALTER TABLE public.node_parameters ADD COLUMN display_options jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE public.node_parameters ADD COLUMN position integer NOT NULL DEFAULT 0;
+
+CREATE INDEX node_parameters_node_definition_id_idx ON public.node_parameters (node_definition_id, position);
@@ -0,0 +1,13 @@
+-- A node type can have several live typeVersions with different parameters (If v1 and v2, Set v2
+-- and v3), so definitions are keyed by type and version instead of type alone
+UPDATE public.node_definitions SET version = '1' WHERE version IS NULL;
+ALTER TABLE public.node_definitions ALTER COLUMN version SET DEFAULT '1';
+ALTER TABLE public.node_definitions ALTER COLUMN version SET NOT NULL;
+
+ALTER TABLE public.node_definitions DROP CONSTRAINT node_definitions_node_type_key;
+ALTER TABLE public.node_definitions ADD CONSTRAINT node_definitions_node_type_version_key UNIQUE (node_type, version);
+
+-- Rows seeded before type_versions existed cover their own version only
+UPDATE public.node_definitions
+SET type_versions = jsonb_build_array(version::numeric)
+WHERE type_versions = '[]' AND version ~ '^[0-9]+(\.[0-9]+)?$';
@@ -0,0 +1,72 @@
+-- Keep n8n API keys encrypted in Supabase Vault instead of a column their owner can read back.
+-- Only the n8n-proxy edge function writes and reads them, through the service role.
+ALTER TABLE public.n8n_instances ADD COLUMN api_key_secret_id uuid;
+
+-- Move existing keys into Vault
+DO $$
+DECLARE
+  instance record;
+BEGIN
+  FOR instance IN SELECT id, user_id, api_key FROM public.n8n_instances LOOP
+    UPDATE public.n8n_instances
+    SET api_key_secret_id = vault.create_secret(instance.api_key, 'n8n_api_key:' || instance.user_id::text)
+    WHERE id = instance.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.n8n_instances DROP COLUMN api_key;
+ALTER TABLE public.n8n_instances ALTER COLUMN api_key_secret_id SET NOT NULL;
+
+-- Users still see and remove their own connection, but only the proxy creates or changes it
+DROP POLICY "Users can create their own n8n instance" ON public.n8n_instances;
+DROP POLICY "Users can update their own n8n instance" ON public.n8n_instances;
+
+-- Create or update a user's connection, storing the key in Vault
+CREATE OR REPLACE FUNCTION public.save_n8n_instance(p_user_id uuid, p_base_url text, p_api_key text)
+RETURNS public.n8n_instances AS $$
+DECLARE
+  existing public.n8n_instances;
+  saved public.n8n_instances;
+BEGIN
+  SELECT * INTO existing FROM public.n8n_instances WHERE user_id = p_user_id FOR UPDATE;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.n8n_instances (user_id, base_url, api_key_secret_id)
+    VALUES (p_user_id, p_base_url, vault.create_secret(p_api_key, 'n8n_api_key:' || p_user_id::text))
+    RETURNING * INTO saved;
+  ELSE
+    PERFORM vault.update_secret(existing.api_key_secret_id, p_api_key);
+    UPDATE public.n8n_instances SET base_url = p_base_url WHERE id = existing.id
+    RETURNING * INTO saved;
+  END IF;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- The decrypted key for a user's connection
+CREATE OR REPLACE FUNCTION public.get_n8n_connection(p_user_id uuid)
+RETURNS TABLE (base_url text, api_key text) AS $$
+  SELECT instance.base_url, secret.decrypted_secret
+  FROM public.n8n_instances instance
+  JOIN vault.decrypted_secrets secret ON secret.id = instance.api_key_secret_id
+  WHERE instance.user_id = p_user_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE ALL ON FUNCTION public.save_n8n_instance(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_n8n_connection(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_n8n_instance(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_n8n_connection(uuid) TO service_role;
+
+-- Removing a connection removes its key
+CREATE OR REPLACE FUNCTION public.delete_n8n_instance_secret()
+RETURNS trigger AS $$
+BEGIN
+  DELETE FROM vault.secrets WHERE id = OLD.api_key_secret_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER delete_n8n_instance_secret
+  AFTER DELETE ON public.n8n_instances
+  FOR EACH ROW EXECUTE FUNCTION public.delete_n8n_instance_secret();
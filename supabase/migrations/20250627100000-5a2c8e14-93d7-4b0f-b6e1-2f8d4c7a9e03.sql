@@ -0,0 +1,36 @@
+-- The node catalog is shared by every user, so only catalog admins may change it. Admins are
+-- granted from the SQL editor or with the service role, e.g.
+--   INSERT INTO public.catalog_admins (user_id) VALUES ('<auth user id>');
+-- (profiles cannot hold the flag: users may update their own profile row.)
+CREATE TABLE public.catalog_admins (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id)
+);
+
+-- No policies: nobody can read or change the list through the API
+ALTER TABLE public.catalog_admins ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user may change the node catalog
+CREATE OR REPLACE FUNCTION public.is_catalog_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM public.catalog_admins WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE POLICY "Catalog admins can create node definitions" ON public.node_definitions
+  FOR INSERT WITH CHECK (public.is_catalog_admin());
+
+CREATE POLICY "Catalog admins can update node definitions" ON public.node_definitions
+  FOR UPDATE USING (public.is_catalog_admin());
+
+CREATE POLICY "Catalog admins can delete node definitions" ON public.node_definitions
+  FOR DELETE USING (public.is_catalog_admin());
+
+CREATE POLICY "Catalog admins can create node parameters" ON public.node_parameters
+  FOR INSERT WITH CHECK (public.is_catalog_admin());
+
+CREATE POLICY "Catalog admins can update node parameters" ON public.node_parameters
+  FOR UPDATE USING (public.is_catalog_admin());
+
+CREATE POLICY "Catalog admins can delete node parameters" ON public.node_parameters
+  FOR DELETE USING (public.is_catalog_admin());
@@ -0,0 +1,5 @@
+-- HTTP Request 4.1 and 4.2 keep the v4 parameter layout; without them validation treats nodes
+-- n8n creates today as uncatalogued
+UPDATE public.node_definitions
+SET type_versions = '[4, 4.1, 4.2]'
+WHERE node_type = 'n8n-nodes-base.httpRequest' AND version = '4';
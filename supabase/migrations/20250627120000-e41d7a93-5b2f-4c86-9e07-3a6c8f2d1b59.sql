@@ -0,0 +1,22 @@
+-- Number versions in the database: reading the latest number and inserting the next one from the
+-- client lets two saves of the same workflow pick the same number
+CREATE OR REPLACE FUNCTION public.assign_workflow_version_number()
+RETURNS trigger AS $$
+BEGIN
+  -- Saves of the same workflow wait for each other here; other workflows are not blocked
+  PERFORM 1 FROM public.workflows WHERE id = NEW.workflow_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.workflow_versions
+  WHERE workflow_id = NEW.workflow_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER assign_workflow_version_number
+  BEFORE INSERT ON public.workflow_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workflow_version_number();
+
+-- Always replaced by the trigger; the default only lets inserts leave the number out
+ALTER TABLE public.workflow_versions ALTER COLUMN version_number SET DEFAULT 0;